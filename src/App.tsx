@@ -9,8 +9,23 @@ import StudentDashboard from "./pages/StudentDashboard";
 import ProfessorDashboard from "./pages/ProfessorDashboard";
 import AdminDashboard from "./pages/AdminDashboard";
 import ScanQR from "./pages/ScanQR";
+import StudentAttendance from "./pages/StudentAttendance";
+import StudentCalendar from "./pages/StudentCalendar";
+import ProfessorCalendar from "./pages/ProfessorCalendar";
 import CreateCourse from "./pages/CreateCourse";
+import EditCourse from "./pages/EditCourse";
+import CourseRoster from "./pages/CourseRoster";
+import EmailTemplates from "./pages/EmailTemplates";
+import Rooms from "./pages/Rooms";
+import PresentSession from "./pages/PresentSession";
+import SessionLive from "./pages/SessionLive";
+import CourseAttendance from "./pages/CourseAttendance";
+import CourseSchedule from "./pages/CourseSchedule";
+import AcademicTerms from "./pages/AcademicTerms";
 import NotFound from "./pages/NotFound";
+import RequireRole from "./components/RequireRole";
+import UpdatePrompt from "./components/UpdatePrompt";
+import AuthProvider from "./components/AuthProvider";
 
 const queryClient = new QueryClient();
 
@@ -19,18 +34,41 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
+      <UpdatePrompt />
       <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/auth" element={<Auth />} />
-          <Route path="/student" element={<StudentDashboard />} />
-          <Route path="/student/scan" element={<ScanQR />} />
-          <Route path="/professor" element={<ProfessorDashboard />} />
-          <Route path="/professor/create-course" element={<CreateCourse />} />
-          <Route path="/admin" element={<AdminDashboard />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
+        <AuthProvider>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/auth" element={<Auth />} />
+            <Route element={<RequireRole roles={["student"]} />}>
+              <Route path="/student" element={<StudentDashboard />} />
+              <Route path="/student/scan" element={<ScanQR />} />
+              <Route path="/student/attendance" element={<StudentAttendance />} />
+              <Route path="/student/calendar" element={<StudentCalendar />} />
+            </Route>
+            <Route element={<RequireRole roles={["professor", "admin"]} />}>
+              <Route path="/professor" element={<ProfessorDashboard />} />
+              <Route path="/professor/create-course" element={<CreateCourse />} />
+              <Route path="/professor/courses/:courseId/edit" element={<EditCourse />} />
+              <Route path="/professor/courses/:courseId/roster" element={<CourseRoster />} />
+              <Route path="/professor/courses/:courseId/templates" element={<EmailTemplates />} />
+              <Route path="/professor/courses/:courseId/attendance" element={<CourseAttendance />} />
+              <Route path="/professor/courses/:courseId/schedule" element={<CourseSchedule />} />
+              <Route path="/professor/rooms" element={<Rooms />} />
+              <Route path="/professor/calendar" element={<ProfessorCalendar />} />
+              <Route path="/professor/session/:sessionId" element={<SessionLive />} />
+              <Route path="/professor/session/:sessionId/present" element={<PresentSession />} />
+            </Route>
+            <Route element={<RequireRole roles={["admin"]} />}>
+              <Route path="/admin" element={<AdminDashboard />} />
+              <Route path="/admin/email-templates" element={<EmailTemplates />} />
+              <Route path="/admin/rooms" element={<Rooms />} />
+              <Route path="/admin/terms" element={<AcademicTerms />} />
+            </Route>
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
   </QueryClientProvider>
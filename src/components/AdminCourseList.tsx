@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useTermFilter } from "@/hooks/use-academic-terms";
+import TermSwitcher from "@/components/TermSwitcher";
+import { ALL_TERMS, courseTermLabel } from "@/lib/terms";
+import { BookOpen, Trash2 } from "lucide-react";
+
+export type AdminCourse = Pick<
+  Tables<"courses">,
+  "id" | "name" | "code" | "term_id" | "semester" | "year" | "archived_at"
+>;
+
+interface AdminCourseListProps {
+  courses: AdminCourse[];
+  onDeleted: () => void;
+}
+
+// Every course in the institution, with the admin-only hard delete
+const AdminCourseList = ({ courses, onDeleted }: AdminCourseListProps) => {
+  const { terms, termId, setTermId } = useTermFilter();
+  const [pending, setPending] = useState<AdminCourse | null>(null);
+  const [attendanceCount, setAttendanceCount] = useState<number | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const { toast } = useToast();
+
+  const visible = termId === ALL_TERMS ? courses : courses.filter((course) => course.term_id === termId);
+
+  const requestDelete = async (course: AdminCourse) => {
+    setPending(course);
+    setAttendanceCount(null);
+
+    const { count, error } = await supabase
+      .from("attendance_records")
+      .select("id", { count: "exact", head: true })
+      .eq("course_id", course.id);
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Error counting attendance",
+        description: error.message,
+      });
+      setPending(null);
+    } else {
+      setAttendanceCount(count ?? 0);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pending) return;
+    setDeleting(true);
+
+    const { error } = await supabase.from("courses").delete().eq("id", pending.id);
+    setDeleting(false);
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to delete course",
+        description: error.message,
+      });
+    } else {
+      toast({
+        title: "Course deleted",
+        description: `${pending.code} and ${attendanceCount} attendance ${attendanceCount === 1 ? "record" : "records"} were removed.`,
+      });
+      setPending(null);
+      onDeleted();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <BookOpen className="w-5 h-5" />
+            Courses ({visible.length})
+          </CardTitle>
+          <CardDescription>Archive a course to keep its history; delete it only to remove it entirely</CardDescription>
+        </div>
+        <TermSwitcher terms={terms} value={termId} onChange={setTermId} />
+      </CardHeader>
+      <CardContent>
+        {visible.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">No courses in this term.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Course</TableHead>
+                <TableHead>Term</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.map((course) => (
+                <TableRow key={course.id}>
+                  <TableCell>
+                    <p className="font-medium">{course.code}</p>
+                    <p className="text-xs text-muted-foreground">{course.name}</p>
+                  </TableCell>
+                  <TableCell>{courseTermLabel(course, terms)}</TableCell>
+                  <TableCell>
+                    <Badge variant={course.archived_at ? "secondary" : "default"}>
+                      {course.archived_at ? "Archived" : "Active"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => requestDelete(course)} title="Delete">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!pending} onOpenChange={(open) => !open && !deleting && setPending(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pending?.code}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {attendanceCount === null
+                ? "Counting attendance records..."
+                : `This permanently deletes the course with its sessions, roster, excuses and ${attendanceCount} attendance ${attendanceCount === 1 ? "record" : "records"}. This can't be undone. Archive the course instead to keep its history.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={(e) => {
+                e.preventDefault();
+                handleDelete();
+              }}
+              disabled={attendanceCount === null || deleting}
+            >
+              {deleting ? "Deleting..." : "Delete Course"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default AdminCourseList;
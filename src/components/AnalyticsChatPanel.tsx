@@ -0,0 +1,246 @@
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Send, Bot, User as UserIcon } from "lucide-react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+  Legend,
+} from "recharts";
+import {
+  answerAnalyticsQuery,
+  buildSuggestions,
+  parseAnalyticsQuery,
+  QueryAnswer,
+  QueryCourse,
+} from "@/lib/analytics-query";
+import { attendanceBandFills, NO_BAND_FILL } from "@/lib/attendance";
+
+interface ChatMessage {
+  id: number;
+  role: "user" | "assistant";
+  text: string;
+  answer?: QueryAnswer;
+}
+
+interface AnalyticsChatPanelProps {
+  courses: QueryCourse[];
+}
+
+const AnswerChart = ({ chart }: { chart: NonNullable<QueryAnswer["chart"]> }) => (
+  <ResponsiveContainer width="100%" height={240}>
+    {chart.type === "pie" ? (
+      <PieChart>
+        <Pie data={chart.data} dataKey="value" nameKey="name" outerRadius={80} label>
+          {chart.data.map((entry) => (
+            <Cell key={entry.name} fill={entry.band ? attendanceBandFills[entry.band] : NO_BAND_FILL} />
+          ))}
+        </Pie>
+        <Tooltip />
+        <Legend />
+      </PieChart>
+    ) : chart.type === "line" ? (
+      <LineChart data={chart.data}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey="name" tick={{ fontSize: 10 }} />
+        <YAxis domain={[0, 100]} />
+        <Tooltip formatter={(value: number) => [`${value}%`, "Turnout"]} />
+        <Line type="monotone" dataKey="value" stroke="hsl(var(--primary))" strokeWidth={2} />
+      </LineChart>
+    ) : (
+      <BarChart data={chart.data}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey="name" />
+        <YAxis domain={[0, 100]} />
+        <Tooltip formatter={(value: number) => [`${value}%`, "Average Attendance"]} />
+        <Bar dataKey="value" radius={[8, 8, 0, 0]}>
+          {chart.data.map((entry) => (
+            <Cell key={entry.name} fill={entry.band ? attendanceBandFills[entry.band] : NO_BAND_FILL} />
+          ))}
+        </Bar>
+      </BarChart>
+    )}
+  </ResponsiveContainer>
+);
+
+const AnalyticsChatPanel = ({ courses }: AnalyticsChatPanelProps) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [input, setInput] = useState("");
+  const [thinking, setThinking] = useState(false);
+  const [studentNames, setStudentNames] = useState<string[]>([]);
+  const nextId = useRef(0);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const courseIds = courses.map((course) => course.id);
+
+  // Student names are needed up front so the parser can recognise them
+  useEffect(() => {
+    if (courses.length === 0) return;
+    supabase
+      .rpc("get_student_attendance_summary", { _course_ids: courses.map((course) => course.id) })
+      .then(({ data }) => {
+        setStudentNames(Array.from(new Set((data || []).map((row) => row.full_name).filter(Boolean))));
+      });
+  }, [courses]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages]);
+
+  const addMessage = (message: Omit<ChatMessage, "id">) => {
+    setMessages((current) => [...current, { ...message, id: nextId.current++ }]);
+  };
+
+  const ask = async (question: string) => {
+    const trimmed = question.trim();
+    if (!trimmed || thinking) return;
+
+    addMessage({ role: "user", text: trimmed });
+    setInput("");
+    setThinking(true);
+
+    try {
+      const intent = parseAnalyticsQuery(trimmed, { courses, studentNames });
+
+      if (intent.kind === "unknown") {
+        const answer = answerAnalyticsQuery(intent, [], [], courses);
+        addMessage({ role: "assistant", text: answer.text, answer });
+        return;
+      }
+
+      const range = {
+        _course_ids: intent.filters.courseIds.length > 0 ? intent.filters.courseIds : courseIds,
+        _from: intent.filters.from?.toISOString(),
+        _to: intent.filters.to?.toISOString(),
+      };
+
+      const [studentsResult, sessionsResult] = await Promise.all([
+        supabase.rpc("get_student_attendance_summary", range),
+        intent.kind === "chart" && intent.chart === "line"
+          ? supabase.rpc("get_session_attendance_summary", range)
+          : Promise.resolve({ data: [], error: null }),
+      ]);
+
+      const error = studentsResult.error || sessionsResult.error;
+      if (error) throw error;
+
+      const answer = answerAnalyticsQuery(intent, studentsResult.data || [], sessionsResult.data || [], courses);
+      addMessage({ role: "assistant", text: answer.text, answer });
+    } catch (error) {
+      addMessage({
+        role: "assistant",
+        text: `Something went wrong while running that query: ${(error as Error).message}`,
+      });
+    } finally {
+      setThinking(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    ask(input);
+  };
+
+  const suggestions = buildSuggestions(courses);
+
+  return (
+    <div className="flex flex-col h-[60vh] border rounded-lg">
+      <ScrollArea className="flex-1 p-4">
+        {messages.length === 0 ? (
+          <div className="space-y-3 py-8 text-center">
+            <Bot className="w-10 h-10 mx-auto text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">Ask a question about attendance, for example:</p>
+            <div className="flex flex-wrap justify-center gap-2">
+              {suggestions.map((suggestion) => (
+                <Button key={suggestion} variant="outline" size="sm" onClick={() => ask(suggestion)}>
+                  {suggestion}
+                </Button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {messages.map((message) => (
+              <div
+                key={message.id}
+                className={`flex gap-2 ${message.role === "user" ? "justify-end" : "justify-start"}`}
+              >
+                {message.role === "assistant" && <Bot className="w-5 h-5 mt-1 text-primary shrink-0" />}
+                <div
+                  className={`rounded-lg px-3 py-2 text-sm space-y-3 ${
+                    message.role === "user" ? "bg-primary text-primary-foreground max-w-[80%]" : "bg-secondary/50 w-full"
+                  }`}
+                >
+                  <p>{message.text}</p>
+                  {message.answer?.table && (
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="border-b">
+                            {message.answer.table.columns.map((column) => (
+                              <th key={column} className="text-left p-2">
+                                {column}
+                              </th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {message.answer.table.rows.map((row, index) => (
+                            <tr key={index} className="border-b">
+                              {row.map((cell, cellIndex) => (
+                                <td key={cellIndex} className="p-2">
+                                  {cell}
+                                </td>
+                              ))}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                  {message.answer?.chart && <AnswerChart chart={message.answer.chart} />}
+                  {message.answer?.suggestions && (
+                    <div className="flex flex-wrap gap-2">
+                      {message.answer.suggestions.map((suggestion) => (
+                        <Button key={suggestion} variant="outline" size="sm" onClick={() => ask(suggestion)}>
+                          {suggestion}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                {message.role === "user" && <UserIcon className="w-5 h-5 mt-1 text-muted-foreground shrink-0" />}
+              </div>
+            ))}
+            {thinking && <p className="text-sm text-muted-foreground">Crunching the numbers...</p>}
+            <div ref={bottomRef} />
+          </div>
+        )}
+      </ScrollArea>
+      <form onSubmit={handleSubmit} className="flex gap-2 p-3 border-t">
+        <Input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder='e.g. "List students below 75% attendance in CS101"'
+          disabled={thinking}
+        />
+        <Button type="submit" disabled={thinking || !input.trim()}>
+          <Send className="w-4 h-4" />
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default AnalyticsChatPanel;
@@ -0,0 +1,99 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AttendanceRules } from "@/lib/attendance";
+
+interface AttendanceRulesFieldsProps {
+  defaults: AttendanceRules;
+  disabled?: boolean;
+}
+
+// Uncontrolled inputs for a course's attendance rules, read back with FormData
+// by the create and edit course pages
+const AttendanceRulesFields = ({ defaults, disabled }: AttendanceRulesFieldsProps) => (
+  <div className="space-y-4 rounded-lg border p-4">
+    <div>
+      <p className="font-medium">Attendance rules</p>
+      <p className="text-xs text-muted-foreground">
+        How much each status counts towards a student's attendance percentage (0 to 1, where 1 is
+        a full session).
+      </p>
+    </div>
+    <div className="grid grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label htmlFor="late_grace_minutes">Late after (minutes)</Label>
+        <Input
+          id="late_grace_minutes"
+          name="late_grace_minutes"
+          type="number"
+          min={0}
+          max={240}
+          defaultValue={defaults.late_grace_minutes}
+          required
+          disabled={disabled}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="late_weight">Late counts as</Label>
+        <Input
+          id="late_weight"
+          name="late_weight"
+          type="number"
+          min={0}
+          max={1}
+          step={0.05}
+          defaultValue={defaults.late_weight}
+          required
+          disabled={disabled}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="left_early_weight">Left early counts as</Label>
+        <Input
+          id="left_early_weight"
+          name="left_early_weight"
+          type="number"
+          min={0}
+          max={1}
+          step={0.05}
+          defaultValue={defaults.left_early_weight}
+          required
+          disabled={disabled}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="excused_weight">Excused counts as</Label>
+        <Input
+          id="excused_weight"
+          name="excused_weight"
+          type="number"
+          min={0}
+          max={1}
+          step={0.05}
+          defaultValue={defaults.excused_weight}
+          required
+          disabled={disabled}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="required_attendance_pct">Required attendance (%)</Label>
+        <Input
+          id="required_attendance_pct"
+          name="required_attendance_pct"
+          type="number"
+          min={0}
+          max={100}
+          step={1}
+          defaultValue={defaults.required_attendance_pct}
+          required
+          disabled={disabled}
+        />
+      </div>
+    </div>
+    <p className="text-xs text-muted-foreground">
+      Students who scan after the session start plus this grace period are marked late. Students
+      below the required attendance are flagged as at risk.
+    </p>
+  </div>
+);
+
+export default AttendanceRulesFields;
@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useState } from "react";
+import { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { AppRole, AuthContext, AuthContextValue } from "@/hooks/use-auth";
+
+const AuthProvider = ({ children }: { children: React.ReactNode }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [sessionLoaded, setSessionLoaded] = useState(false);
+  const [profile, setProfile] = useState<Tables<"profiles"> | null>(null);
+  const [roles, setRoles] = useState<AppRole[]>([]);
+  const [rolesFor, setRolesFor] = useState<string | null>(null);
+  const userId = session?.user.id ?? null;
+
+  useEffect(() => {
+    // Set up auth state listener FIRST. It also fires for sign-in/sign-out in
+    // other tabs, so every guarded route reacts without a reload.
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setSession(session);
+      setSessionLoaded(true);
+    });
+
+    // THEN check for existing session
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setSession(session);
+      setSessionLoaded(true);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const loadUserData = useCallback(async (id: string) => {
+    const [{ data: profileData }, { data: roleData }] = await Promise.all([
+      supabase.from("profiles").select("*").eq("id", id).maybeSingle(),
+      supabase.from("user_roles").select("role").eq("user_id", id),
+    ]);
+
+    setProfile(profileData);
+    setRoles((roleData || []).map((row) => row.role));
+    setRolesFor(id);
+  }, []);
+
+  // Loaded outside the auth callback: awaiting Supabase calls inside it can deadlock
+  useEffect(() => {
+    if (userId) {
+      loadUserData(userId);
+    } else {
+      setProfile(null);
+      setRoles([]);
+      setRolesFor(null);
+    }
+  }, [userId, loadUserData]);
+
+  const refresh = useCallback(async () => {
+    if (userId) await loadUserData(userId);
+  }, [userId, loadUserData]);
+
+  const signOut = useCallback(async () => {
+    await supabase.auth.signOut();
+  }, []);
+
+  const value: AuthContextValue = {
+    session,
+    user: session?.user ?? null,
+    profile,
+    roles,
+    loading: !sessionLoaded || (userId !== null && rolesFor !== userId),
+    refresh,
+    signOut,
+  };
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export default AuthProvider;
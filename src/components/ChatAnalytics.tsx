@@ -2,73 +2,115 @@ import { useState, useEffect } from "react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import AnalyticsChatPanel from "@/components/AnalyticsChatPanel";
+import { QueryCourse } from "@/lib/analytics-query";
+import { EmailSendResult, sendAttendanceWarnings } from "@/lib/email";
+import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { BarChart3, Users, Mail, AlertTriangle } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import {
+  AttendanceBand,
+  attendanceBand,
+  attendanceBandFills,
+  averageAttendance,
+  isAtRisk,
+  NO_BAND_FILL,
+  StudentAttendanceSummary,
+} from "@/lib/attendance";
+import { BarChart3, Users, Mail, AlertTriangle, RefreshCw } from "lucide-react";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from "recharts";
 
 interface ChatAnalyticsProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  courses: any[];
+  courses: QueryCourse[];
 }
 
+const EmailStatus = ({ result }: { result?: EmailSendResult }) => {
+  if (!result) return <span className="text-muted-foreground">—</span>;
+
+  return (
+    <Badge
+      variant={result.status === "sent" ? "secondary" : "destructive"}
+      title={result.error ?? undefined}
+    >
+      {result.status === "sent" ? "Sent" : result.status === "skipped" ? "Skipped" : "Failed"}
+    </Badge>
+  );
+};
+
+const DEFAULT_TEMPLATE = "default";
+
+const bandColors: Record<AttendanceBand, string> = {
+  good: "text-green-600",
+  fair: "text-yellow-600",
+  poor: "text-red-600",
+};
+
+const attendanceColor = (row: StudentAttendanceSummary) =>
+  bandColors[attendanceBand(Number(row.attendance_pct), Number(row.required_attendance_pct))];
+
 const ChatAnalytics = ({ open, onOpenChange, courses }: ChatAnalyticsProps) => {
-  const [students, setStudents] = useState<any[]>([]);
+  const [students, setStudents] = useState<StudentAttendanceSummary[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [sendingEmails, setSendingEmails] = useState(false);
+  const [emailResults, setEmailResults] = useState<Record<string, EmailSendResult>>({});
+  const [templates, setTemplates] = useState<Tables<"email_templates">[]>([]);
+  const [templateId, setTemplateId] = useState<string>(DEFAULT_TEMPLATE);
   const { toast } = useToast();
 
-  useEffect(() => {
-    if (open) {
-      loadFakeData();
-    }
-  }, [open, courses]);
-
-  const loadFakeData = () => {
+  const loadAttendance = async () => {
     setLoading(true);
-    
-    // Generate fake student data
-    const firstNames = ['John', 'Jane', 'Michael', 'Emily', 'David', 'Sarah', 'James', 'Jessica', 'Robert', 'Amanda', 'William', 'Ashley', 'Richard', 'Melissa', 'Joseph', 'Nicole', 'Thomas', 'Michelle', 'Christopher', 'Kimberly'];
-    const lastNames = ['Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Rodriguez', 'Martinez', 'Hernandez', 'Lopez', 'Wilson', 'Anderson', 'Thomas', 'Taylor', 'Moore', 'Jackson', 'Martin', 'Lee'];
-    
-    const allStudents: any[] = [];
-    
-    // Generate students for each course
-    courses.forEach((course) => {
-      const studentCount = Math.floor(Math.random() * 30) + 15; // 15-45 students per course
-      for (let i = 0; i < studentCount; i++) {
-        const firstName = firstNames[Math.floor(Math.random() * firstNames.length)];
-        const lastName = lastNames[Math.floor(Math.random() * lastNames.length)];
-        const attendance = Math.floor(Math.random() * 50) + 40; // 40-90% attendance
-        
-        allStudents.push({
-          id: `student-${course.id}-${i}`,
-          name: `${firstName} ${lastName}`,
-          email: `${firstName.toLowerCase()}.${lastName.toLowerCase()}@student.edu`,
-          attendance: attendance,
-          courseName: course.name || course.code,
-          courseCode: course.code,
-        });
-      }
+    setLoadError(null);
+
+    const { data, error } = await supabase.rpc("get_student_attendance_summary", {
+      _course_ids: courses.map((course) => course.id),
     });
-    
-    setStudents(allStudents);
+
+    if (error) {
+      setLoadError(error.message);
+      setStudents([]);
+    } else {
+      setStudents(data || []);
+    }
     setLoading(false);
   };
 
-  const lowAttendanceStudents = students.filter(s => s.attendance < 75);
+  useEffect(() => {
+    if (open) {
+      setEmailResults({});
+      loadAttendance();
+      // RLS limits this to institution templates and those of courses the caller teaches
+      supabase
+        .from("email_templates")
+        .select("*")
+        .order("name", { ascending: true })
+        .then(({ data }) => setTemplates(data || []));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, courses]);
+
+  // Each course sets its own required attendance
+  const lowAttendanceStudents = students.filter(isAtRisk);
+  const overallAverage = averageAttendance(students);
 
   // Calculate average attendance per course
   const courseAttendanceData = courses.map((course) => {
-    const courseStudents = students.filter(s => s.courseCode === course.code);
-    const avgAttendance = courseStudents.length > 0
-      ? Math.round(courseStudents.reduce((sum, s) => sum + s.attendance, 0) / courseStudents.length)
-      : 0;
-    
+    const courseStudents = students.filter((s) => s.course_id === course.id);
+    const average = averageAttendance(courseStudents);
+
     return {
       name: course.code || course.name,
-      averageAttendance: avgAttendance,
+      averageAttendance: average ?? 0,
       studentCount: courseStudents.length,
+      fill:
+        average === null
+          ? NO_BAND_FILL
+          : attendanceBandFills[attendanceBand(average, Number(courseStudents[0].required_attendance_pct))],
     };
   });
 
@@ -77,22 +119,38 @@ const ChatAnalytics = ({ open, onOpenChange, courses }: ChatAnalyticsProps) => {
       toast({
         variant: "destructive",
         title: "No students to email",
-        description: "There are no students with attendance below 75%.",
+        description: "There are no students below their course's required attendance.",
       });
       return;
     }
 
     setSendingEmails(true);
 
-    // Simulate email sending (fake for now)
-    await new Promise(resolve => setTimeout(resolve, 1500));
-
-    setSendingEmails(false);
+    try {
+      const results = await sendAttendanceWarnings(
+        lowAttendanceStudents.map((s) => ({ student_id: s.student_id, course_id: s.course_id })),
+        templateId === DEFAULT_TEMPLATE ? null : templateId,
+      );
+      setEmailResults(
+        Object.fromEntries(results.map((result) => [`${result.course_id}-${result.student_id}`, result])),
+      );
 
-    toast({
-      title: "Warning emails sent!",
-      description: `Sent attendance warnings to ${lowAttendanceStudents.length} student(s).`,
-    });
+      const sent = results.filter((result) => result.status === "sent").length;
+      const failed = results.length - sent;
+      toast({
+        variant: sent === 0 ? "destructive" : "default",
+        title: failed === 0 ? "Warning emails sent!" : "Some emails were not sent",
+        description: `Sent ${sent} of ${results.length} attendance warning(s).${failed > 0 ? " See the list for details." : ""}`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to send emails",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSendingEmails(false);
+    }
   };
 
   return (
@@ -101,210 +159,254 @@ const ChatAnalytics = ({ open, onOpenChange, courses }: ChatAnalyticsProps) => {
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <BarChart3 className="w-5 h-5" />
-            Student Attendance Statistics
+            Chat Analytics
           </DialogTitle>
           <DialogDescription>
-            View student attendance data and statistics
+            Ask questions about attendance or browse the statistics overview
           </DialogDescription>
         </DialogHeader>
 
-        {loading ? (
-          <div className="flex items-center justify-center py-12">
-            <p className="text-muted-foreground">Loading statistics...</p>
-          </div>
-        ) : (
-          <div className="space-y-6">
-            {/* Summary Stats */}
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardDescription>Total Students</CardDescription>
-                  <CardTitle className="text-2xl">{students.length}</CardTitle>
-                </CardHeader>
-              </Card>
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardDescription>Low Attendance</CardDescription>
-                  <CardTitle className="text-2xl text-orange-500">{lowAttendanceStudents.length}</CardTitle>
-                </CardHeader>
-              </Card>
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardDescription>Avg Attendance</CardDescription>
-                  <CardTitle className="text-2xl">
-                    {students.length > 0 
-                      ? Math.round(students.reduce((sum, s) => sum + s.attendance, 0) / students.length)
-                      : 0}%
-                  </CardTitle>
-                </CardHeader>
-              </Card>
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardDescription>Courses</CardDescription>
-                  <CardTitle className="text-2xl">{courses.length}</CardTitle>
-                </CardHeader>
-              </Card>
-            </div>
+        <Tabs defaultValue="chat">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="chat">Ask</TabsTrigger>
+            <TabsTrigger value="overview">Overview</TabsTrigger>
+          </TabsList>
 
-            {/* Average Attendance Chart */}
-            {courseAttendanceData.length > 0 && (
-              <Card>
-                <CardHeader>
-                  <CardTitle>Average Student Attendance by Course</CardTitle>
-                  <CardDescription>
-                    Average attendance percentage for each course
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <ResponsiveContainer width="100%" height={300}>
-                    <BarChart data={courseAttendanceData}>
-                      <CartesianGrid strokeDasharray="3 3" />
-                      <XAxis 
-                        dataKey="name" 
-                        angle={-45}
-                        textAnchor="end"
-                        height={80}
-                      />
-                      <YAxis 
-                        domain={[0, 100]}
-                        label={{ value: 'Attendance %', angle: -90, position: 'insideLeft' }}
-                      />
-                      <Tooltip 
-                        formatter={(value: number) => [`${value}%`, 'Average Attendance']}
-                        labelFormatter={(label) => `Course: ${label}`}
-                      />
-                      <Bar dataKey="averageAttendance" radius={[8, 8, 0, 0]}>
-                        {courseAttendanceData.map((entry, index) => (
-                          <Cell 
-                            key={`cell-${index}`} 
-                            fill={
-                              entry.averageAttendance >= 75 ? '#22c55e' :
-                              entry.averageAttendance >= 60 ? '#eab308' : '#ef4444'
-                            } 
-                          />
-                        ))}
-                      </Bar>
-                    </BarChart>
-                  </ResponsiveContainer>
-                </CardContent>
-              </Card>
-            )}
+          <TabsContent value="chat">
+            <AnalyticsChatPanel courses={courses} />
+          </TabsContent>
 
-            {/* Low Attendance Students */}
-            <Card>
-              <CardHeader>
-                <div className="flex items-center justify-between">
-                  <div>
-                    <CardTitle className="flex items-center gap-2">
-                      <AlertTriangle className="w-5 h-5 text-orange-500" />
-                      Students with Low Attendance (&lt; 75%)
-                    </CardTitle>
-                    <CardDescription>
-                      Students who need to improve their attendance
-                    </CardDescription>
-                  </div>
-                  {lowAttendanceStudents.length > 0 && (
-                    <Button
-                      onClick={handleSendEmails}
-                      disabled={sendingEmails}
-                      variant="default"
-                    >
-                      {sendingEmails ? (
-                        <>
-                          <Mail className="w-4 h-4 mr-2 animate-pulse" />
-                          Sending...
-                        </>
-                      ) : (
-                        <>
-                          <Mail className="w-4 h-4 mr-2" />
-                          Send Warning Emails ({lowAttendanceStudents.length})
-                        </>
-                      )}
-                    </Button>
-                  )}
+          <TabsContent value="overview">
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <p className="text-muted-foreground">Loading statistics...</p>
+              </div>
+            ) : loadError ? (
+              <div className="flex flex-col items-center justify-center py-12 space-y-4">
+                <AlertTriangle className="w-12 h-12 text-destructive" />
+                <p className="text-muted-foreground">Could not load attendance: {loadError}</p>
+                <Button variant="outline" onClick={loadAttendance}>
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Retry
+                </Button>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                {/* Summary Stats */}
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardDescription>Total Students</CardDescription>
+                      <CardTitle className="text-2xl">{new Set(students.map((s) => s.student_id)).size}</CardTitle>
+                    </CardHeader>
+                  </Card>
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardDescription>Low Attendance</CardDescription>
+                      <CardTitle className="text-2xl text-orange-500">{lowAttendanceStudents.length}</CardTitle>
+                    </CardHeader>
+                  </Card>
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardDescription>Avg Attendance</CardDescription>
+                      <CardTitle className="text-2xl">
+                        {overallAverage !== null ? `${overallAverage}%` : "—"}
+                      </CardTitle>
+                    </CardHeader>
+                  </Card>
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardDescription>Courses</CardDescription>
+                      <CardTitle className="text-2xl">{courses.length}</CardTitle>
+                    </CardHeader>
+                  </Card>
                 </div>
-              </CardHeader>
-              <CardContent>
-                {lowAttendanceStudents.length === 0 ? (
-                  <div className="text-center py-8">
-                    <Users className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
-                    <p className="text-muted-foreground">
-                      Great! All students have attendance above 75%.
-                    </p>
-                  </div>
-                ) : (
-                  <div className="overflow-x-auto">
-                    <table className="w-full text-sm">
-                      <thead>
-                        <tr className="border-b">
-                          <th className="text-left p-2">Student Name</th>
-                          <th className="text-left p-2">Email</th>
-                          <th className="text-left p-2">Course</th>
-                          <th className="text-right p-2">Attendance %</th>
-                        </tr>
-                      </thead>
-                      <tbody>
-                        {lowAttendanceStudents.map((student) => (
-                          <tr key={student.id} className="border-b hover:bg-accent/50">
-                            <td className="p-2 font-medium">{student.name}</td>
-                            <td className="p-2 text-muted-foreground">{student.email}</td>
-                            <td className="p-2 text-muted-foreground">{student.courseName}</td>
-                            <td className="p-2 text-right">
-                              <span className={`font-semibold ${
-                                student.attendance >= 60 ? 'text-yellow-600' : 'text-red-600'
-                              }`}>
-                                {student.attendance}%
-                              </span>
-                            </td>
-                          </tr>
-                        ))}
-                      </tbody>
-                    </table>
-                  </div>
+
+                {/* Average Attendance Chart */}
+                {courseAttendanceData.length > 0 && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Average Student Attendance by Course</CardTitle>
+                      <CardDescription>
+                        Average attendance percentage for each course
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <ResponsiveContainer width="100%" height={300}>
+                        <BarChart data={courseAttendanceData}>
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis 
+                            dataKey="name" 
+                            angle={-45}
+                            textAnchor="end"
+                            height={80}
+                          />
+                          <YAxis 
+                            domain={[0, 100]}
+                            label={{ value: 'Attendance %', angle: -90, position: 'insideLeft' }}
+                          />
+                          <Tooltip 
+                            formatter={(value: number) => [`${value}%`, 'Average Attendance']}
+                            labelFormatter={(label) => `Course: ${label}`}
+                          />
+                          <Bar dataKey="averageAttendance" radius={[8, 8, 0, 0]}>
+                            {courseAttendanceData.map((entry, index) => (
+                              <Cell 
+                                key={`cell-${index}`} 
+                                fill={entry.fill}
+                              />
+                            ))}
+                          </Bar>
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </CardContent>
+                  </Card>
                 )}
-              </CardContent>
-            </Card>
 
-            {/* All Students Table */}
-            <Card>
-              <CardHeader>
-                <CardTitle>All Students</CardTitle>
-                <CardDescription>Complete list of all students and their attendance</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="overflow-x-auto">
-                  <table className="w-full text-sm">
-                    <thead>
-                      <tr className="border-b">
-                        <th className="text-left p-2">Student Name</th>
-                        <th className="text-left p-2">Email</th>
-                        <th className="text-left p-2">Course</th>
-                        <th className="text-right p-2">Attendance %</th>
-                      </tr>
-                    </thead>
-                    <tbody>
-                      {students.map((student) => (
-                        <tr key={student.id} className="border-b hover:bg-accent/50">
-                          <td className="p-2 font-medium">{student.name}</td>
-                          <td className="p-2 text-muted-foreground">{student.email}</td>
-                          <td className="p-2 text-muted-foreground">{student.courseName}</td>
-                          <td className="p-2 text-right">
-                            <span className={`font-semibold ${
-                              student.attendance >= 75 ? 'text-green-600' :
-                              student.attendance >= 60 ? 'text-yellow-600' : 'text-red-600'
-                            }`}>
-                              {student.attendance}%
-                            </span>
-                          </td>
-                        </tr>
-                      ))}
-                    </tbody>
-                  </table>
-                </div>
-              </CardContent>
-            </Card>
-          </div>
-        )}
+                {/* Low Attendance Students */}
+                <Card>
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <CardTitle className="flex items-center gap-2">
+                          <AlertTriangle className="w-5 h-5 text-orange-500" />
+                          Students with Low Attendance
+                        </CardTitle>
+                        <CardDescription>
+                          Students below the required attendance set for their course
+                        </CardDescription>
+                      </div>
+                      {lowAttendanceStudents.length > 0 && (
+                        <div className="flex items-center gap-2">
+                          <Select value={templateId} onValueChange={setTemplateId} disabled={sendingEmails}>
+                            <SelectTrigger className="w-56">
+                              <SelectValue placeholder="Email template" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={DEFAULT_TEMPLATE}>Built-in warning</SelectItem>
+                              {templates.map((template) => (
+                                <SelectItem key={template.id} value={template.id}>
+                                  {template.course_id
+                                    ? `${courses.find((c) => c.id === template.course_id)?.code ?? "Course"} · ${template.name}`
+                                    : `Institution · ${template.name}`}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            onClick={handleSendEmails}
+                            disabled={sendingEmails}
+                            variant="default"
+                          >
+                            {sendingEmails ? (
+                              <>
+                                <Mail className="w-4 h-4 mr-2 animate-pulse" />
+                                Sending...
+                              </>
+                            ) : (
+                              <>
+                                <Mail className="w-4 h-4 mr-2" />
+                                Send Warning Emails ({lowAttendanceStudents.length})
+                              </>
+                            )}
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    {lowAttendanceStudents.length === 0 ? (
+                      <div className="text-center py-8">
+                        <Users className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+                        <p className="text-muted-foreground">
+                          Great! All students meet their course's required attendance.
+                        </p>
+                      </div>
+                    ) : (
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="border-b">
+                              <th className="text-left p-2">Student Name</th>
+                              <th className="text-left p-2">Email</th>
+                              <th className="text-left p-2">Course</th>
+                              <th className="text-right p-2">Attendance %</th>
+                              <th className="text-right p-2">Required</th>
+                              <th className="text-right p-2">Warning</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {lowAttendanceStudents.map((student) => (
+                              <tr key={`${student.course_id}-${student.student_id}`} className="border-b hover:bg-accent/50">
+                                <td className="p-2 font-medium">{student.full_name || student.email}</td>
+                                <td className="p-2 text-muted-foreground">{student.email}</td>
+                                <td className="p-2 text-muted-foreground">{student.course_name}</td>
+                                <td className="p-2 text-right">
+                                  <span className={`font-semibold ${attendanceColor(student)}`}>
+                                    {student.attendance_pct}%
+                                  </span>
+                                </td>
+                                <td className="p-2 text-right text-muted-foreground">
+                                  {student.required_attendance_pct}%
+                                </td>
+                                <td className="p-2 text-right">
+                                  <EmailStatus result={emailResults[`${student.course_id}-${student.student_id}`]} />
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {/* All Students Table */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>All Students</CardTitle>
+                    <CardDescription>Complete list of all students and their attendance</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="border-b">
+                            <th className="text-left p-2">Student Name</th>
+                            <th className="text-left p-2">Email</th>
+                            <th className="text-left p-2">Course</th>
+                            <th className="text-right p-2">Attendance %</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {students.map((student) => (
+                            <tr key={`${student.course_id}-${student.student_id}`} className="border-b hover:bg-accent/50">
+                              <td className="p-2 font-medium">{student.full_name || student.email}</td>
+                              <td className="p-2 text-muted-foreground">{student.email}</td>
+                              <td className="p-2 text-muted-foreground">{student.course_name}</td>
+                              <td className="p-2 text-right">
+                                {student.attendance_pct === null ? (
+                                  <span className="text-muted-foreground">No sessions yet</span>
+                                ) : (
+                                  <span
+                                    className={`font-semibold ${attendanceColor(student)}`}
+                                    title={`${student.required_attendance_pct}% required`}
+                                  >
+                                    {student.attendance_pct}%
+                                  </span>
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
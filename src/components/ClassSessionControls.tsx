@@ -0,0 +1,296 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Link } from "react-router-dom";
+import { PlayCircle, StopCircle, Clock, MonitorPlay, Radio } from "lucide-react";
+import { format } from "date-fns";
+import { z } from "zod";
+
+const NO_ROOM = "none";
+
+// How early a scheduled session can be opened from the dashboard
+const SCHEDULED_LEAD_MINUTES = 30;
+
+const sessionSchema = z.object({
+  // Not asked for when opening a scheduled session, which already has an end time
+  durationMinutes: z.coerce.number().int().min(5, "Sessions must last at least 5 minutes").max(480).optional(),
+  windowMinutes: z.coerce.number().int().min(1, "Check-in window must be at least 1 minute").max(480),
+});
+
+interface ClassSessionControlsProps {
+  courseId: string;
+  courseCode: string;
+  // The course's usual room, preselected when starting a session
+  defaultRoomId?: string | null;
+}
+
+const ClassSessionControls = ({ courseId, courseCode, defaultRoomId = null }: ClassSessionControlsProps) => {
+  const [session, setSession] = useState<Tables<"class_sessions"> | null>(null);
+  const [scheduled, setScheduled] = useState<Tables<"class_sessions"> | null>(null);
+  const [rooms, setRooms] = useState<Pick<Tables<"rooms">, "id" | "name" | "building">[]>([]);
+  const [roomId, setRoomId] = useState<string>(defaultRoomId ?? NO_ROOM);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const loadOpenSession = async () => {
+    const { data, error } = await supabase
+      .from("class_sessions")
+      .select("*")
+      .eq("course_id", courseId)
+      .eq("status", "open")
+      .order("starts_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading sessions",
+        description: error.message,
+      });
+    } else {
+      setSession(data);
+    }
+  };
+
+  useEffect(() => {
+    loadOpenSession();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [courseId]);
+
+  const openDialog = async () => {
+    setRoomId(defaultRoomId ?? NO_ROOM);
+    setScheduled(null);
+    setDialogOpen(true);
+
+    // A generated session happening now is opened instead of creating a new one
+    const now = new Date();
+    const [roomsResult, scheduledResult] = await Promise.all([
+      supabase.from("rooms").select("id, name, building").order("name", { ascending: true }),
+      supabase
+        .from("class_sessions")
+        .select("*")
+        .eq("course_id", courseId)
+        .eq("status", "scheduled")
+        .lte("starts_at", new Date(now.getTime() + SCHEDULED_LEAD_MINUTES * 60_000).toISOString())
+        .gt("ends_at", now.toISOString())
+        .order("starts_at", { ascending: true })
+        .limit(1)
+        .maybeSingle(),
+    ]);
+    setRooms(roomsResult.data || []);
+    setScheduled(scheduledResult.data);
+    if (scheduledResult.data?.room_id) setRoomId(scheduledResult.data.room_id);
+  };
+
+  const handleOpenSession = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSaving(true);
+
+    const formData = new FormData(e.currentTarget);
+
+    try {
+      const data = sessionSchema.parse({
+        durationMinutes: formData.get("durationMinutes") ?? undefined,
+        windowMinutes: formData.get("windowMinutes"),
+      });
+
+      const room = rooms.find((r) => r.id === roomId);
+      const now = new Date();
+      const minutesFromNow = (minutes: number) => new Date(now.getTime() + minutes * 60_000).toISOString();
+
+      const checkIn = {
+        room: room?.name ?? null,
+        room_id: room?.id ?? null,
+        check_in_opens_at: now.toISOString(),
+        check_in_closes_at: minutesFromNow(data.windowMinutes),
+        status: "open" as const,
+      };
+
+      const { data: created, error } = scheduled
+        ? await supabase.from("class_sessions").update(checkIn).eq("id", scheduled.id).select().single()
+        : await supabase
+            .from("class_sessions")
+            .insert({
+              ...checkIn,
+              course_id: courseId,
+              starts_at: now.toISOString(),
+              ends_at: minutesFromNow(data.durationMinutes),
+              created_by: user?.id,
+            })
+            .select()
+            .single();
+
+      if (error) throw error;
+
+      setSession(created);
+      setDialogOpen(false);
+      toast({
+        title: "Session opened",
+        description: `Students can check in to ${courseCode} for the next ${data.windowMinutes} minutes.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to open session",
+        description:
+          error instanceof z.ZodError ? error.errors[0].message : (error as Error).message || "Please try again.",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCloseSession = async () => {
+    if (!session) return;
+
+    const now = new Date();
+    const closesAt = session.check_in_closes_at ? new Date(session.check_in_closes_at) : now;
+    const { error } = await supabase
+      .from("class_sessions")
+      .update({
+        status: "closed",
+        check_in_closes_at: (closesAt < now ? closesAt : now).toISOString(),
+      })
+      .eq("id", session.id);
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to close session",
+        description: error.message,
+      });
+    } else {
+      setSession(null);
+      toast({
+        title: "Session closed",
+        description: `Check-in for ${courseCode} is now closed.`,
+      });
+    }
+  };
+
+  const windowOpen = session?.check_in_closes_at ? new Date(session.check_in_closes_at) > new Date() : false;
+
+  return (
+    <>
+      {session ? (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <Badge variant={windowOpen ? "default" : "secondary"}>
+              {windowOpen ? "Check-in open" : "Check-in window ended"}
+            </Badge>
+            {session.check_in_closes_at && (
+              <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                <Clock className="w-3 h-3" />
+                until {new Date(session.check_in_closes_at).toLocaleTimeString()}
+              </span>
+            )}
+          </div>
+          {session.room && <p className="text-xs text-muted-foreground">Room: {session.room}</p>}
+          <div className="flex gap-2">
+            <Button variant="outline" className="flex-1" asChild>
+              <Link to={`/professor/session/${session.id}`}>
+                <Radio className="w-4 h-4 mr-2" />
+                Live
+              </Link>
+            </Button>
+            <Button variant="outline" className="flex-1" asChild>
+              <Link to={`/professor/session/${session.id}/present`} target="_blank" rel="noopener">
+                <MonitorPlay className="w-4 h-4 mr-2" />
+                Present
+              </Link>
+            </Button>
+          </div>
+          <Button variant="outline" className="w-full" onClick={handleCloseSession}>
+            <StopCircle className="w-4 h-4 mr-2" />
+            Close Session
+          </Button>
+        </div>
+      ) : (
+        <Button variant="outline" className="w-full" onClick={openDialog}>
+          <PlayCircle className="w-4 h-4 mr-2" />
+          Start Session
+        </Button>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Start a session for {courseCode}</DialogTitle>
+            <DialogDescription>
+              {scheduled
+                ? `Opens check-in for the scheduled ${format(new Date(scheduled.starts_at), "h:mm a")} session`
+                : "Students can only check in while the session's check-in window is open"}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleOpenSession} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Room</Label>
+              <Select value={roomId} onValueChange={setRoomId} disabled={saving}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ROOM}>No room (location is not checked)</SelectItem>
+                  {rooms.map((room) => (
+                    <SelectItem key={room.id} value={room.id}>
+                      {room.name}
+                      {room.building ? ` · ${room.building}` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              {!scheduled && (
+                <div className="space-y-2">
+                  <Label htmlFor={`duration-${courseId}`}>Duration (min)</Label>
+                  <Input
+                    id={`duration-${courseId}`}
+                    name="durationMinutes"
+                    type="number"
+                    defaultValue={75}
+                    min={5}
+                    max={480}
+                    required
+                    disabled={saving}
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor={`window-${courseId}`}>Check-in window (min)</Label>
+                <Input
+                  id={`window-${courseId}`}
+                  name="windowMinutes"
+                  type="number"
+                  defaultValue={15}
+                  min={1}
+                  max={480}
+                  required
+                  disabled={saving}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Opening..." : "Open Check-in"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ClassSessionControls;
@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { Check, FileQuestion, Paperclip, X } from "lucide-react";
+import {
+  excuseCategoryLabels,
+  openExcuseDocument,
+  ReviewExcuseResult,
+  reviewExcuseErrorMessages,
+} from "@/lib/excuses";
+
+type PendingExcuse = Tables<"excuse_requests"> & {
+  profiles: Pick<Tables<"profiles">, "full_name" | "email"> | null;
+  courses: Pick<Tables<"courses">, "code"> | null;
+  class_sessions: Pick<Tables<"class_sessions">, "starts_at"> | null;
+};
+
+interface ExcuseReviewQueueProps {
+  courseIds: string[];
+}
+
+const ExcuseReviewQueue = ({ courseIds }: ExcuseReviewQueueProps) => {
+  const [requests, setRequests] = useState<PendingExcuse[]>([]);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (courseIds.length === 0) {
+      setRequests([]);
+      return;
+    }
+
+    const loadRequests = async () => {
+      const { data, error } = await supabase
+        .from("excuse_requests")
+        .select("*, profiles(full_name, email), courses(code), class_sessions(starts_at)")
+        .in("course_id", courseIds)
+        .eq("status", "pending")
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        toast({
+          variant: "destructive",
+          title: "Error loading excuse requests",
+          description: error.message,
+        });
+      } else {
+        setRequests(data || []);
+      }
+    };
+
+    loadRequests();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [courseIds.join(",")]);
+
+  const handleReview = async (request: PendingExcuse, approve: boolean) => {
+    setReviewingId(request.id);
+
+    const { data, error } = await supabase.rpc("review_excuse_request", {
+      _request_id: request.id,
+      _approve: approve,
+      _comment: comments[request.id] || null,
+    });
+    const result = data as ReviewExcuseResult | null;
+
+    if (error || result !== "ok") {
+      toast({
+        variant: "destructive",
+        title: "Failed to review request",
+        description: error?.message || reviewExcuseErrorMessages[result] || "Please try again.",
+      });
+    } else {
+      const name = request.profiles?.full_name || request.profiles?.email;
+      toast({
+        title: approve ? "Request approved" : "Request denied",
+        description: approve ? `${name} is marked excused for that session.` : `${name} has been notified.`,
+      });
+      setRequests((current) => current.filter((r) => r.id !== request.id));
+    }
+
+    setReviewingId(null);
+  };
+
+  const handleOpenDocument = async (path: string) => {
+    try {
+      await openExcuseDocument(path);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Could not open document",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileQuestion className="w-5 h-5" />
+          Excuse Requests ({requests.length})
+        </CardTitle>
+        <CardDescription>Approving a request marks the student excused for that session</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {requests.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No requests waiting for review.</p>
+        ) : (
+          <div className="space-y-3">
+            {requests.map((request) => (
+              <div key={request.id} className="space-y-3 p-3 rounded-lg border">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{request.profiles?.full_name || "Unnamed student"}</p>
+                    <p className="text-sm text-muted-foreground truncate">{request.profiles?.email}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {request.courses?.code}
+                      {request.class_sessions &&
+                        ` · Session on ${format(new Date(request.class_sessions.starts_at), "MMM d, yyyy")}`}
+                    </p>
+                  </div>
+                  <Badge variant="secondary" className="shrink-0">
+                    {excuseCategoryLabels[request.category]}
+                  </Badge>
+                </div>
+                <p className="text-sm whitespace-pre-wrap">{request.explanation}</p>
+                {request.attachment_path && (
+                  <Button variant="outline" size="sm" onClick={() => handleOpenDocument(request.attachment_path)}>
+                    <Paperclip className="w-4 h-4 mr-1" />
+                    View document
+                  </Button>
+                )}
+                <Textarea
+                  placeholder="Comment for the student (required when denying)"
+                  value={comments[request.id] ?? ""}
+                  onChange={(e) => setComments((current) => ({ ...current, [request.id]: e.target.value }))}
+                  disabled={reviewingId === request.id}
+                  rows={2}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => handleReview(request, true)}
+                    disabled={reviewingId === request.id}
+                  >
+                    <Check className="w-4 h-4 mr-1" />
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleReview(request, false)}
+                    disabled={reviewingId === request.id || !comments[request.id]?.trim()}
+                  >
+                    <X className="w-4 h-4 mr-1" />
+                    Deny
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExcuseReviewQueue;
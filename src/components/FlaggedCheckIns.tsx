@@ -0,0 +1,133 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { MapPinOff } from "lucide-react";
+import { FLAGGED_GEOFENCE_STATUSES, formatMetres, geofenceStatusLabels } from "@/lib/geofence";
+import { NEEDS_REVIEW_FILTER } from "@/lib/check-in";
+
+type FlaggedRecord = Tables<"attendance_records"> & {
+  courses: Pick<Tables<"courses">, "code"> | null;
+  rooms: Pick<Tables<"rooms">, "name"> | null;
+};
+
+interface FlaggedCheckInsProps {
+  courseIds: string[];
+}
+
+const FlaggedCheckIns = ({ courseIds }: FlaggedCheckInsProps) => {
+  const [records, setRecords] = useState<FlaggedRecord[]>([]);
+  const [students, setStudents] = useState<Record<string, Pick<Tables<"profiles">, "full_name" | "email">>>({});
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (courseIds.length === 0) {
+      setRecords([]);
+      return;
+    }
+
+    const loadFlagged = async () => {
+      const { data, error } = await supabase
+        .from("attendance_records")
+        .select("*, courses(code), rooms(name)")
+        .in("course_id", courseIds)
+        .or(NEEDS_REVIEW_FILTER)
+        .order("checked_in_at", { ascending: false })
+        .limit(50);
+
+      if (error) {
+        toast({
+          variant: "destructive",
+          title: "Error loading flagged check-ins",
+          description: error.message,
+        });
+        return;
+      }
+
+      setRecords(data || []);
+
+      // attendance_records points at auth.users, so profiles are fetched separately
+      const studentIds = Array.from(new Set((data || []).map((record) => record.student_id)));
+      if (studentIds.length > 0) {
+        const { data: profiles } = await supabase
+          .from("profiles")
+          .select("id, full_name, email")
+          .in("id", studentIds);
+        setStudents(Object.fromEntries((profiles || []).map((profile) => [profile.id, profile])));
+      }
+    };
+
+    loadFlagged();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [courseIds.join(",")]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MapPinOff className="w-5 h-5 text-orange-500" />
+          Flagged Check-ins ({records.length})
+        </CardTitle>
+        <CardDescription>
+          Check-ins outside the room's geofence, with poor GPS accuracy, or submitted later from a student's offline
+          queue
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {records.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No flagged check-ins.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Student</TableHead>
+                <TableHead>Course</TableHead>
+                <TableHead>Checked in</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead className="text-right">Distance</TableHead>
+                <TableHead className="text-right">Accuracy</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {records.map((record) => (
+                <TableRow key={record.id}>
+                  <TableCell className="font-medium">
+                    {students[record.student_id]?.full_name || students[record.student_id]?.email || "—"}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {record.courses?.code}
+                    {record.rooms && <span> · {record.rooms.name}</span>}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {new Date(record.checked_in_at).toLocaleString()}
+                  </TableCell>
+                  <TableCell className="space-x-1">
+                    {FLAGGED_GEOFENCE_STATUSES.includes(record.geofence_status) && (
+                      <Badge variant={record.geofence_status === "outside" ? "destructive" : "secondary"}>
+                        {geofenceStatusLabels[record.geofence_status]}
+                      </Badge>
+                    )}
+                    {record.synced_at && (
+                      <Badge variant="outline" title={`Submitted ${new Date(record.synced_at).toLocaleString()}`}>
+                        Queued offline
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{formatMetres(record.distance_m)}</TableCell>
+                  <TableCell className="text-right">
+                    {record.location_accuracy === null ? "—" : `±${formatMetres(record.location_accuracy)}`}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FlaggedCheckIns;
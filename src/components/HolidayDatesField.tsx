@@ -0,0 +1,64 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { format, parseISO } from "date-fns";
+import { X } from "lucide-react";
+
+interface HolidayDatesFieldProps {
+  id: string;
+  value: string[];
+  onChange: (dates: string[]) => void;
+  min?: string;
+  max?: string;
+  disabled?: boolean;
+}
+
+// Sorted list of yyyy-MM-dd dates, added one at a time
+const HolidayDatesField = ({ id, value, onChange, min, max, disabled }: HolidayDatesFieldProps) => {
+  const [date, setDate] = useState("");
+
+  const addDate = () => {
+    if (!date || value.includes(date)) return;
+    onChange([...value, date].sort());
+    setDate("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          id={id}
+          type="date"
+          value={date}
+          min={min || undefined}
+          max={max || undefined}
+          onChange={(e) => setDate(e.target.value)}
+          disabled={disabled}
+        />
+        <Button type="button" variant="outline" onClick={addDate} disabled={disabled || !date}>
+          Add
+        </Button>
+      </div>
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((holiday) => (
+            <Badge key={holiday} variant="secondary" className="gap-1">
+              {format(parseISO(holiday), "EEE, MMM d")}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((d) => d !== holiday))}
+                disabled={disabled}
+                title="Remove"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HolidayDatesField;
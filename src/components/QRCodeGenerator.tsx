@@ -1,9 +1,13 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { QRCodeSVG } from "qrcode.react";
+import { supabase } from "@/integrations/supabase/client";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
-import { QrCode, Download, Copy } from "lucide-react";
+import { QrCode, Download, Copy, RefreshCw, AlertTriangle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useRotatingQrToken } from "@/hooks/use-rotating-qr-token";
 
 interface QRCodeGeneratorProps {
   courseId: string;
@@ -13,18 +17,32 @@ interface QRCodeGeneratorProps {
 
 const QRCodeGenerator = ({ courseId, courseName, courseCode }: QRCodeGeneratorProps) => {
   const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<"live" | "static">("live");
+  const [staticToken, setStaticToken] = useState<string | null>(null);
   const { toast } = useToast();
+  const live = useRotatingQrToken(courseId, open && mode === "live");
 
-  // Generate QR code data as JSON
-  const qrData = JSON.stringify({
-    course_id: courseId,
-    course_name: courseName,
-    course_code: courseCode,
-    timestamp: new Date().toISOString(),
-  });
+  // Printed codes get a long-lived signed token, fetched once per dialog
+  useEffect(() => {
+    if (!open || mode !== "static" || staticToken) return;
+
+    supabase
+      .rpc("issue_qr_token", { _course_id: courseId, _static: true })
+      .then(({ data, error }) => {
+        if (error || !data?.[0]) {
+          toast({
+            variant: "destructive",
+            title: "Could not generate QR code",
+            description: error?.message || "Please try again.",
+          });
+        } else {
+          setStaticToken(data[0].token);
+        }
+      });
+  }, [open, mode, staticToken, courseId, toast]);
 
   const handleDownload = () => {
-    const svg = document.getElementById(`qr-code-${courseId}`);
+    const svg = document.getElementById(`qr-code-static-${courseId}`);
     if (!svg) return;
 
     const svgData = new XMLSerializer().serializeToString(svg);
@@ -57,7 +75,7 @@ const QRCodeGenerator = ({ courseId, courseName, courseCode }: QRCodeGeneratorPr
 
   const handleCopy = async () => {
     try {
-      await navigator.clipboard.writeText(qrData);
+      await navigator.clipboard.writeText(staticToken ?? "");
       toast({
         title: "QR data copied",
         description: "The QR code data has been copied to your clipboard.",
@@ -89,34 +107,77 @@ const QRCodeGenerator = ({ courseId, courseName, courseCode }: QRCodeGeneratorPr
             Display this QR code in class for students to scan
           </DialogDescription>
         </DialogHeader>
-        <div className="space-y-4">
-          <div className="flex justify-center p-4 bg-secondary/30 rounded-lg">
-            <QRCodeSVG
-              id={`qr-code-${courseId}`}
-              value={qrData}
-              size={256}
-              level="H"
-              includeMargin={true}
-            />
-          </div>
-          <div className="space-y-2">
-            <p className="text-sm font-medium">{courseName}</p>
-            <p className="text-xs text-muted-foreground">Course Code: {courseCode}</p>
-          </div>
-          <div className="flex gap-2">
-            <Button variant="outline" className="flex-1" onClick={handleDownload}>
-              <Download className="w-4 h-4 mr-2" />
-              Download
-            </Button>
-            <Button variant="outline" className="flex-1" onClick={handleCopy}>
-              <Copy className="w-4 h-4 mr-2" />
-              Copy Data
-            </Button>
-          </div>
-          <p className="text-xs text-muted-foreground text-center">
-            Students can scan this code to check in to your class
-          </p>
-        </div>
+        <Tabs value={mode} onValueChange={(value) => setMode(value as "live" | "static")}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="live">Live (rotating)</TabsTrigger>
+            <TabsTrigger value="static">Printable</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="live" className="space-y-4">
+            <div className="flex justify-center p-4 bg-secondary/30 rounded-lg min-h-[288px] items-center">
+              {live.token ? (
+                <QRCodeSVG
+                  id={`qr-code-${courseId}`}
+                  value={live.token}
+                  size={256}
+                  level="M"
+                  includeMargin={true}
+                />
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {live.error || "Generating QR code..."}
+                </p>
+              )}
+            </div>
+            <div className="flex items-center justify-between">
+              <div className="space-y-1">
+                <p className="text-sm font-medium">{courseName}</p>
+                <p className="text-xs text-muted-foreground">Course Code: {courseCode}</p>
+              </div>
+              <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                <RefreshCw className="w-3 h-3" />
+                New code in {live.secondsLeft}s
+              </p>
+            </div>
+            <p className="text-xs text-muted-foreground text-center">
+              The code changes every few seconds, so photos shared outside class stop working
+            </p>
+          </TabsContent>
+
+          <TabsContent value="static" className="space-y-4">
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Weaker check-in mode</AlertTitle>
+              <AlertDescription>
+                Printed codes do not rotate. Anyone with a photo of this code can check in until it expires, so
+                prefer the live code whenever you can display it.
+              </AlertDescription>
+            </Alert>
+            <div className="flex justify-center p-4 bg-secondary/30 rounded-lg min-h-[288px] items-center">
+              {staticToken ? (
+                <QRCodeSVG
+                  id={`qr-code-static-${courseId}`}
+                  value={staticToken}
+                  size={256}
+                  level="M"
+                  includeMargin={true}
+                />
+              ) : (
+                <p className="text-sm text-muted-foreground">Generating QR code...</p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={handleDownload} disabled={!staticToken}>
+                <Download className="w-4 h-4 mr-2" />
+                Download
+              </Button>
+              <Button variant="outline" className="flex-1" onClick={handleCopy} disabled={!staticToken}>
+                <Copy className="w-4 h-4 mr-2" />
+                Copy Data
+              </Button>
+            </div>
+          </TabsContent>
+        </Tabs>
       </DialogContent>
       </Dialog>
     </>
@@ -0,0 +1,35 @@
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import { AppRole, useAuth } from "@/hooks/use-auth";
+import Forbidden from "@/pages/Forbidden";
+
+interface RequireRoleProps {
+  roles: AppRole[];
+}
+
+// Layout route that only renders its children for signed-in users holding one
+// of the given roles. Guests go to /auth, users without a role yet (pending
+// approval) to /auth's waiting screen, everyone else gets a 403.
+const RequireRole = ({ roles }: RequireRoleProps) => {
+  const { user, roles: userRoles, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-secondary/30">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!user || userRoles.length === 0) {
+    return <Navigate to="/auth" replace state={{ from: location.pathname }} />;
+  }
+
+  if (!roles.some((role) => userRoles.includes(role))) {
+    return <Forbidden />;
+  }
+
+  return <Outlet />;
+};
+
+export default RequireRole;
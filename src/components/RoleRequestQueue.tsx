@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { Check, ShieldCheck, X } from "lucide-react";
+
+type RoleRequest = Tables<"role_requests"> & {
+  profiles: Pick<Tables<"profiles">, "full_name" | "email"> | null;
+};
+
+interface RoleRequestQueueProps {
+  onReviewed?: () => void;
+}
+
+const RoleRequestQueue = ({ onReviewed }: RoleRequestQueueProps) => {
+  const [requests, setRequests] = useState<RoleRequest[]>([]);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadRequests = async () => {
+    const { data, error } = await supabase
+      .from("role_requests")
+      .select("*, profiles(full_name, email)")
+      .eq("status", "pending")
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading role requests",
+        description: error.message,
+      });
+    } else {
+      setRequests(data || []);
+    }
+  };
+
+  useEffect(() => {
+    loadRequests();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleReview = async (request: RoleRequest, approve: boolean) => {
+    setReviewingId(request.id);
+
+    const { error } = await supabase.rpc("review_role_request", {
+      _request_id: request.id,
+      _approve: approve,
+    });
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to review request",
+        description: error.message,
+      });
+    } else {
+      toast({
+        title: approve ? "Request approved" : "Request rejected",
+        description: approve
+          ? `${request.profiles?.full_name || request.profiles?.email} is now a ${request.requested_role}.`
+          : `${request.profiles?.full_name || request.profiles?.email} was given student access instead.`,
+      });
+      setRequests((current) => current.filter((r) => r.id !== request.id));
+      onReviewed?.();
+    }
+
+    setReviewingId(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5" />
+          Pending Role Requests
+        </CardTitle>
+        <CardDescription>Approve professor and admin accounts before they get elevated access</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {requests.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No requests waiting for review.</p>
+        ) : (
+          <div className="space-y-3">
+            {requests.map((request) => (
+              <div key={request.id} className="flex items-center justify-between gap-4 p-3 rounded-lg border">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{request.profiles?.full_name || "Unnamed user"}</p>
+                  <p className="text-sm text-muted-foreground truncate">{request.profiles?.email}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Requested {format(new Date(request.created_at), "MMM d, yyyy")}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge variant={request.requested_role === "admin" ? "destructive" : "secondary"}>
+                    {request.requested_role === "admin" ? "Dean/Admin" : "Professor"}
+                  </Badge>
+                  <Button
+                    size="sm"
+                    onClick={() => handleReview(request, true)}
+                    disabled={reviewingId === request.id}
+                  >
+                    <Check className="w-4 h-4 mr-1" />
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleReview(request, false)}
+                    disabled={reviewingId === request.id}
+                  >
+                    <X className="w-4 h-4 mr-1" />
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RoleRequestQueue;
@@ -0,0 +1,296 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { Upload, FileSpreadsheet } from "lucide-react";
+import {
+  diffRoster,
+  parseRosterCsv,
+  RosterChange,
+  RosterDiffEntry,
+  RosterImportStatus,
+  RosterRow,
+} from "@/lib/roster-import";
+
+interface RosterImportDialogProps {
+  courseId: string;
+  courseCode: string;
+}
+
+const changeLabels: Record<RosterChange, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  add: { label: "Add", variant: "default" },
+  invite: { label: "Invite (no account)", variant: "outline" },
+  unchanged: { label: "Unchanged", variant: "secondary" },
+  remove: { label: "Remove", variant: "destructive" },
+};
+
+const LOOKUP_CHUNK_SIZE = 100;
+
+const RosterImportDialog = ({ courseId, courseCode }: RosterImportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [rows, setRows] = useState<RosterRow[]>([]);
+  const [diff, setDiff] = useState<RosterDiffEntry[]>([]);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [removeMissing, setRemoveMissing] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const { toast } = useToast();
+
+  const reset = () => {
+    setRows([]);
+    setDiff([]);
+    setParseError(null);
+    setRemoveMissing(true);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setLoading(true);
+    reset();
+
+    try {
+      const { rows: parsed, error } = parseRosterCsv(await file.text());
+      if (error) {
+        setParseError(error);
+        return;
+      }
+
+      const { data: enrollments, error: enrollmentError } = await supabase
+        .from("course_enrollments")
+        .select(`
+          student_id,
+          profiles:student_id (
+            email,
+            full_name
+          )
+        `)
+        .eq("course_id", courseId);
+
+      if (enrollmentError) throw enrollmentError;
+
+      const validEmails = parsed.filter((row) => row.errors.length === 0).map((row) => row.email);
+      const knownEmails = new Set<string>();
+      for (let i = 0; i < validEmails.length; i += LOOKUP_CHUNK_SIZE) {
+        const { data: profiles, error: profileError } = await supabase
+          .from("profiles")
+          .select("email")
+          .in("email", validEmails.slice(i, i + LOOKUP_CHUNK_SIZE));
+
+        if (profileError) throw profileError;
+        profiles?.forEach((profile) => knownEmails.add(profile.email.toLowerCase()));
+      }
+
+      const current = (enrollments || [])
+        .filter((enrollment) => enrollment.profiles)
+        .map((enrollment) => ({
+          email: enrollment.profiles.email,
+          fullName: enrollment.profiles.full_name || "",
+        }));
+
+      setRows(parsed);
+      setDiff(diffRoster(parsed, current, knownEmails));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Could not read roster",
+        description: (error as Error).message || "Please check the file and try again.",
+      });
+    } finally {
+      setLoading(false);
+      e.target.value = "";
+    }
+  };
+
+  const handleApply = async () => {
+    setApplying(true);
+
+    const validRows = rows
+      .filter((row) => row.errors.length === 0)
+      .map((row) => ({
+        email: row.email,
+        full_name: row.fullName,
+        student_number: row.studentNumber,
+        section: row.section,
+      }));
+
+    const { data, error } = await supabase
+      .rpc("apply_roster_import", {
+        _course_id: courseId,
+        _rows: validRows,
+        _remove_missing: removeMissing,
+      })
+      .single();
+
+    setApplying(false);
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Import failed",
+        description: error.message,
+      });
+      return;
+    }
+
+    if ((data.status as RosterImportStatus) === "archived") {
+      toast({
+        variant: "destructive",
+        title: "Import failed",
+        description: `${courseCode} is archived. Restore it before changing its roster.`,
+      });
+      return;
+    }
+
+    toast({
+      title: "Roster imported",
+      description:
+        `${data.added} added, ${data.invited} invited, ${data.removed} removed, ${data.unchanged} unchanged.` +
+        (data.skipped > 0 ? ` ${data.skipped} skipped because they are not student accounts.` : ""),
+    });
+    reset();
+    setOpen(false);
+  };
+
+  const invalidRows = rows.filter((row) => row.errors.length > 0);
+  const counts = diff.reduce(
+    (acc, entry) => ({ ...acc, [entry.change]: acc[entry.change] + 1 }),
+    { add: 0, invite: 0, unchanged: 0, remove: 0 } as Record<RosterChange, number>,
+  );
+  const visibleDiff = removeMissing ? diff : diff.filter((entry) => entry.change !== "remove");
+
+  return (
+    <>
+      <Button variant="outline" className="w-full" onClick={() => setOpen(true)}>
+        <Upload className="w-4 h-4 mr-2" />
+        Import Roster CSV
+      </Button>
+      <Dialog
+        open={open}
+        onOpenChange={(value) => {
+          setOpen(value);
+          if (!value) reset();
+        }}
+      >
+        <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FileSpreadsheet className="w-5 h-5" />
+              Import roster for {courseCode}
+            </DialogTitle>
+            <DialogDescription>
+              Upload a CSV with student ID, name, email and section columns. Nothing changes until you apply.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor={`roster-file-${courseId}`}>Roster file</Label>
+              <Input
+                id={`roster-file-${courseId}`}
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFileChange}
+                disabled={loading || applying}
+              />
+              {parseError && <p className="text-sm text-destructive">{parseError}</p>}
+              {loading && <p className="text-sm text-muted-foreground">Checking roster...</p>}
+            </div>
+
+            {invalidRows.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold text-destructive">
+                  {invalidRows.length} row(s) will be skipped
+                </h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Line</TableHead>
+                      <TableHead>Student ID</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Problem</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {invalidRows.map((row) => (
+                      <TableRow key={row.line}>
+                        <TableCell>{row.line}</TableCell>
+                        <TableCell>{row.studentNumber}</TableCell>
+                        <TableCell>{row.fullName}</TableCell>
+                        <TableCell className="text-muted-foreground">{row.email || "—"}</TableCell>
+                        <TableCell className="text-destructive">{row.errors.join(", ")}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {diff.length > 0 && (
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  {(Object.keys(changeLabels) as RosterChange[]).map((change) => (
+                    <Badge key={change} variant={changeLabels[change].variant}>
+                      {changeLabels[change].label}: {counts[change]}
+                    </Badge>
+                  ))}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`remove-missing-${courseId}`}
+                    checked={removeMissing}
+                    onCheckedChange={(checked) => setRemoveMissing(checked === true)}
+                  />
+                  <Label htmlFor={`remove-missing-${courseId}`} className="font-normal cursor-pointer">
+                    Remove enrolled students who are not in the file
+                  </Label>
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Section</TableHead>
+                      <TableHead className="text-right">Change</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleDiff.map((entry) => (
+                      <TableRow key={`${entry.change}-${entry.email}`}>
+                        <TableCell className="font-medium">{entry.fullName || "—"}</TableCell>
+                        <TableCell className="text-muted-foreground">{entry.email}</TableCell>
+                        <TableCell className="text-muted-foreground">{entry.section || "—"}</TableCell>
+                        <TableCell className="text-right">
+                          <Badge variant={changeLabels[entry.change].variant}>{changeLabels[entry.change].label}</Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={applying}>
+              Cancel
+            </Button>
+            <Button onClick={handleApply} disabled={applying || loading || rows.length === invalidRows.length}>
+              {applying ? "Applying..." : "Apply Import"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default RosterImportDialog;
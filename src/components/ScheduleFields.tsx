@@ -0,0 +1,114 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import HolidayDatesField from "@/components/HolidayDatesField";
+import { ScheduleDraft, WEEKDAYS } from "@/lib/schedule";
+
+interface ScheduleFieldsProps {
+  value: ScheduleDraft;
+  onChange: (value: ScheduleDraft) => void;
+  disabled?: boolean;
+}
+
+// Inputs for a course's weekly meeting pattern, shared by course creation and
+// the schedule page
+const ScheduleFields = ({ value, onChange, disabled }: ScheduleFieldsProps) => {
+  const update = (changes: Partial<ScheduleDraft>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Meets on</Label>
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          className="justify-start flex-wrap"
+          value={value.days_of_week.map(String)}
+          onValueChange={(days) => update({ days_of_week: days.map(Number) })}
+          disabled={disabled}
+        >
+          {WEEKDAYS.map((day) => (
+            <ToggleGroupItem key={day.value} value={String(day.value)} className="w-12">
+              {day.label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="schedule-start">Starts</Label>
+          <Input
+            id="schedule-start"
+            type="time"
+            value={value.start_time}
+            onChange={(e) => update({ start_time: e.target.value })}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="schedule-end">Ends</Label>
+          <Input
+            id="schedule-end"
+            type="time"
+            value={value.end_time}
+            onChange={(e) => update({ end_time: e.target.value })}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="schedule-window">Check-in (min)</Label>
+          <Input
+            id="schedule-window"
+            type="number"
+            min={1}
+            max={480}
+            value={value.check_in_window_minutes}
+            onChange={(e) => update({ check_in_window_minutes: e.target.value })}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="schedule-term-start">Term starts</Label>
+          <Input
+            id="schedule-term-start"
+            type="date"
+            value={value.term_starts_on}
+            max={value.term_ends_on || undefined}
+            onChange={(e) => update({ term_starts_on: e.target.value })}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="schedule-term-end">Term ends</Label>
+          <Input
+            id="schedule-term-end"
+            type="date"
+            value={value.term_ends_on}
+            min={value.term_starts_on || undefined}
+            onChange={(e) => update({ term_ends_on: e.target.value })}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="schedule-holiday">Holidays and breaks</Label>
+        <HolidayDatesField
+          id="schedule-holiday"
+          value={value.excluded_dates}
+          onChange={(excluded_dates) => update({ excluded_dates })}
+          min={value.term_starts_on}
+          max={value.term_ends_on}
+          disabled={disabled}
+        />
+        <p className="text-xs text-muted-foreground">No sessions are generated on these days.</p>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleFields;
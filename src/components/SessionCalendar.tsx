@@ -0,0 +1,195 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { addMonths, addWeeks, eachDayOfInterval, format, isSameDay, isToday } from "date-fns";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import {
+  CalendarSession,
+  CalendarTone,
+  calendarToneClasses,
+  calendarToneLabels,
+  CalendarView,
+  visibleRange,
+} from "@/lib/calendar";
+
+interface SessionCalendarProps {
+  sessions: CalendarSession[];
+  tones: CalendarTone[];
+  loading?: boolean;
+  onRangeChange: (from: Date, to: Date) => void;
+}
+
+// Month or week grid of class sessions, coloured by tone. Clicking a day lists
+// its sessions; the parent loads sessions for whatever range is visible.
+const SessionCalendar = ({ sessions, tones, loading, onRangeChange }: SessionCalendarProps) => {
+  const [view, setView] = useState<CalendarView>("month");
+  const [cursor, setCursor] = useState(() => new Date());
+  const [selectedDay, setSelectedDay] = useState<Date | null>(null);
+  const range = visibleRange(view, cursor);
+
+  useEffect(() => {
+    onRangeChange(range.from, range.to);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [range.from.getTime(), range.to.getTime()]);
+
+  const sessionsOn = (day: Date) =>
+    sessions
+      .filter((session) => isSameDay(session.startsAt, day))
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+
+  const selectedSessions = selectedDay ? sessionsOn(selectedDay) : [];
+
+  const step = (direction: 1 | -1) =>
+    setCursor((current) => (view === "month" ? addMonths(current, direction) : addWeeks(current, direction)));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4 space-y-0">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => step(-1)} title="Previous">
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setCursor(new Date())}>
+            Today
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => step(1)} title="Next">
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          <p className="font-medium ml-2">
+            {view === "month"
+              ? format(cursor, "MMMM yyyy")
+              : `${format(range.from, "MMM d")} – ${format(range.to, "MMM d, yyyy")}`}
+          </p>
+        </div>
+        <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)}>
+          <TabsList>
+            <TabsTrigger value="month">Month</TabsTrigger>
+            <TabsTrigger value="week">Week</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {view === "month" ? (
+          <Calendar
+            month={cursor}
+            disableNavigation
+            weekStartsOn={1}
+            onDayClick={setSelectedDay}
+            className="p-0"
+            classNames={{
+              months: "w-full",
+              month: "w-full space-y-4",
+              caption: "hidden",
+              head_cell: "text-muted-foreground w-full font-normal text-[0.8rem]",
+              cell: "w-full p-0.5 text-sm relative focus-within:z-20",
+              day: "h-16 w-full rounded-md border p-1 text-left align-top font-normal hover:bg-accent",
+              day_today: "border-primary",
+            }}
+            formatters={{
+              formatDay: (date) => (
+                <span className="flex h-full flex-col justify-between">
+                  <span>{format(date, "d")}</span>
+                  <span className="flex flex-wrap gap-0.5">
+                    {sessionsOn(date).map((session) => (
+                      <span
+                        key={session.id}
+                        className={`h-2 w-2 rounded-full ${calendarToneClasses[session.tone]}`}
+                        title={`${session.courseCode} · ${calendarToneLabels[session.tone]}`}
+                      />
+                    ))}
+                  </span>
+                </span>
+              ),
+            }}
+          />
+        ) : (
+          <div className="grid grid-cols-7 gap-1">
+            {eachDayOfInterval({ start: range.from, end: range.to }).map((day) => (
+              <button
+                key={day.toISOString()}
+                type="button"
+                onClick={() => setSelectedDay(day)}
+                className={`min-h-40 rounded-md border p-1.5 text-left align-top hover:bg-accent ${
+                  isToday(day) ? "border-primary" : ""
+                }`}
+              >
+                <p className="text-xs text-muted-foreground">{format(day, "EEE")}</p>
+                <p className="text-sm font-medium mb-1">{format(day, "d")}</p>
+                <div className="space-y-1">
+                  {sessionsOn(day).map((session) => (
+                    <div key={session.id} className="flex items-start gap-1 text-xs">
+                      <span className={`mt-1 h-2 w-2 shrink-0 rounded-full ${calendarToneClasses[session.tone]}`} />
+                      <span className="min-w-0">
+                        <span className="block truncate font-medium">{session.courseCode}</span>
+                        <span className="block text-muted-foreground">{format(session.startsAt, "h:mm a")}</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+          {tones.map((tone) => (
+            <span key={tone} className="flex items-center gap-1.5">
+              <span className={`h-2 w-2 rounded-full ${calendarToneClasses[tone]}`} />
+              {calendarToneLabels[tone]}
+            </span>
+          ))}
+          {loading && <span className="ml-auto">Loading...</span>}
+        </div>
+      </CardContent>
+
+      <Dialog open={selectedDay !== null} onOpenChange={(open) => !open && setSelectedDay(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{selectedDay && format(selectedDay, "EEEE, MMMM d")}</DialogTitle>
+            <DialogDescription>
+              {selectedSessions.length === 0
+                ? "No classes on this day."
+                : `${selectedSessions.length} ${selectedSessions.length === 1 ? "session" : "sessions"}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {selectedSessions.map((session) => (
+              <div key={session.id} className="flex items-start justify-between gap-4 p-3 rounded-lg border">
+                <div className="min-w-0">
+                  <p className="font-medium">
+                    {session.courseCode} · {session.courseName}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {format(session.startsAt, "h:mm a")} – {format(session.endsAt, "h:mm a")}
+                    {session.room ? ` · ${session.room}` : ""}
+                  </p>
+                  <p className="text-sm flex items-center gap-1.5 mt-1">
+                    <span className={`h-2 w-2 rounded-full ${calendarToneClasses[session.tone]}`} />
+                    {session.detail}
+                  </p>
+                </div>
+                {session.href && (
+                  <Button variant="outline" size="sm" asChild>
+                    <Link to={session.href}>Open</Link>
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default SessionCalendar;
@@ -0,0 +1,369 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { format, subDays } from "date-fns";
+import { FileQuestion, Paperclip, Plus } from "lucide-react";
+import {
+  EXCUSE_DOCUMENT_TYPES,
+  EXCUSE_DOCUMENTS_BUCKET,
+  ExcuseCategory,
+  excuseCategoryLabels,
+  excuseStatusBadgeVariants,
+  excuseStatusLabels,
+  MAX_EXCUSE_DOCUMENT_BYTES,
+  openExcuseDocument,
+  uploadExcuseDocument,
+} from "@/lib/excuses";
+import { z } from "zod";
+
+// How far back a student can ask to excuse a missed session
+const EXCUSE_WINDOW_DAYS = 60;
+
+const excuseSchema = z.object({
+  sessionId: z.string().uuid("Choose the session you missed"),
+  category: z.enum(Object.keys(excuseCategoryLabels) as [ExcuseCategory, ...ExcuseCategory[]], {
+    errorMap: () => ({ message: "Choose a reason" }),
+  }),
+  explanation: z
+    .string()
+    .trim()
+    .min(10, "Explanation must be at least 10 characters")
+    .max(2000, "Explanation must be at most 2000 characters"),
+});
+
+type ExcuseRequest = Tables<"excuse_requests"> & {
+  courses: Pick<Tables<"courses">, "code" | "name"> | null;
+  class_sessions: Pick<Tables<"class_sessions">, "starts_at"> | null;
+};
+
+type MissedSession = Pick<Tables<"class_sessions">, "id" | "course_id" | "starts_at"> & {
+  courses: Pick<Tables<"courses">, "code" | "name"> | null;
+};
+
+// Student's excuse requests with a dialog to explain a missed session
+const StudentExcuseRequests = () => {
+  const { user } = useAuth();
+  const [requests, setRequests] = useState<ExcuseRequest[]>([]);
+  const [missedSessions, setMissedSessions] = useState<MissedSession[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [sessionId, setSessionId] = useState("");
+  const [category, setCategory] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadRequests = async () => {
+    const { data, error } = await supabase
+      .from("excuse_requests")
+      .select("*, courses(code, name), class_sessions(starts_at)")
+      .eq("student_id", user.id)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading excuse requests",
+        description: error.message,
+      });
+    } else {
+      setRequests(data || []);
+    }
+  };
+
+  useEffect(() => {
+    loadRequests();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user.id]);
+
+  // Past sessions in the student's active courses with no attendance, or marked
+  // absent, that don't already have an open request
+  const loadMissedSessions = async () => {
+    const { data: enrollments } = await supabase
+      .from("course_enrollments")
+      .select("course_id")
+      .eq("student_id", user.id);
+    const courseIds = (enrollments || []).map((enrollment) => enrollment.course_id);
+    if (courseIds.length === 0) {
+      setMissedSessions([]);
+      return;
+    }
+
+    const [sessionsResult, recordsResult] = await Promise.all([
+      supabase
+        .from("class_sessions")
+        .select("id, course_id, starts_at, courses!inner(code, name)")
+        .in("course_id", courseIds)
+        .is("courses.archived_at", null)
+        .in("status", ["open", "closed"])
+        .gte("starts_at", subDays(new Date(), EXCUSE_WINDOW_DAYS).toISOString())
+        .lte("starts_at", new Date().toISOString())
+        .order("starts_at", { ascending: false }),
+      supabase
+        .from("attendance_records")
+        .select("session_id, status")
+        .eq("student_id", user.id)
+        .in("course_id", courseIds)
+        .not("session_id", "is", null),
+    ]);
+
+    const attended = new Set(
+      (recordsResult.data || []).filter((record) => record.status !== "absent").map((record) => record.session_id),
+    );
+    const requested = new Set(
+      requests.filter((request) => request.status !== "denied").map((request) => request.session_id),
+    );
+
+    setMissedSessions(
+      ((sessionsResult.data || []) as MissedSession[]).filter(
+        (session) => !attended.has(session.id) && !requested.has(session.id),
+      ),
+    );
+  };
+
+  const openDialog = () => {
+    setSessionId("");
+    setCategory("");
+    setDialogOpen(true);
+    loadMissedSessions();
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSaving(true);
+
+    const formData = new FormData(e.currentTarget);
+    const file = formData.get("document") as File | null;
+    let attachmentPath: string | null = null;
+
+    try {
+      const data = excuseSchema.parse({
+        sessionId,
+        category,
+        explanation: formData.get("explanation"),
+      });
+
+      if (file && file.size > 0) {
+        if (!EXCUSE_DOCUMENT_TYPES.includes(file.type)) {
+          throw new Error("Attach a PDF or an image (JPEG, PNG, HEIC or WebP).");
+        }
+        if (file.size > MAX_EXCUSE_DOCUMENT_BYTES) {
+          throw new Error("Documents must be 10 MB or smaller.");
+        }
+        attachmentPath = await uploadExcuseDocument(user.id, file);
+      }
+
+      const session = missedSessions.find((s) => s.id === data.sessionId);
+      const { error } = await supabase.from("excuse_requests").insert({
+        student_id: user.id,
+        course_id: session?.course_id,
+        session_id: data.sessionId,
+        category: data.category,
+        explanation: data.explanation,
+        attachment_path: attachmentPath,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Excuse request sent",
+        description: "Your professor will review it and you'll see the decision here.",
+      });
+      setDialogOpen(false);
+      loadRequests();
+    } catch (error) {
+      // Don't leave an orphaned document behind if the request itself failed
+      if (attachmentPath) {
+        await supabase.storage.from(EXCUSE_DOCUMENTS_BUCKET).remove([attachmentPath]);
+      }
+      toast({
+        variant: "destructive",
+        title: "Failed to send excuse request",
+        description:
+          error instanceof z.ZodError ? error.errors[0].message : (error as Error).message || "Please try again.",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleWithdraw = async (request: ExcuseRequest) => {
+    const { error } = await supabase.from("excuse_requests").delete().eq("id", request.id);
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to withdraw request",
+        description: error.message,
+      });
+      return;
+    }
+
+    if (request.attachment_path) {
+      await supabase.storage.from(EXCUSE_DOCUMENTS_BUCKET).remove([request.attachment_path]);
+    }
+    setRequests((current) => current.filter((r) => r.id !== request.id));
+  };
+
+  const handleOpenDocument = async (path: string) => {
+    try {
+      await openExcuseDocument(path);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Could not open document",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <FileQuestion className="w-5 h-5" />
+            Excuse Requests
+          </CardTitle>
+          <CardDescription>Explain a missed class to your professor</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={openDialog}>
+          <Plus className="w-4 h-4 mr-2" />
+          Request Excuse
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {requests.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No excuse requests.</p>
+        ) : (
+          <div className="space-y-3">
+            {requests.map((request) => (
+              <div key={request.id} className="flex items-start justify-between gap-4 p-3 rounded-lg border">
+                <div className="min-w-0 space-y-1">
+                  <p className="font-medium">
+                    {request.courses?.code} ·{" "}
+                    {request.class_sessions ? format(new Date(request.class_sessions.starts_at), "MMM d, yyyy") : ""}
+                  </p>
+                  <p className="text-sm text-muted-foreground">{excuseCategoryLabels[request.category]}</p>
+                  {request.review_comment && <p className="text-sm">Professor: {request.review_comment}</p>}
+                  {request.attachment_path && (
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0"
+                      onClick={() => handleOpenDocument(request.attachment_path)}
+                    >
+                      <Paperclip className="w-3 h-3 mr-1" />
+                      View document
+                    </Button>
+                  )}
+                </div>
+                <div className="flex flex-col items-end gap-2 shrink-0">
+                  <Badge variant={excuseStatusBadgeVariants[request.status]}>{excuseStatusLabels[request.status]}</Badge>
+                  {request.status === "pending" && (
+                    <Button variant="ghost" size="sm" onClick={() => handleWithdraw(request)}>
+                      Withdraw
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Request an excuse</DialogTitle>
+            <DialogDescription>
+              Approved requests mark the session as excused. You can attach a supporting document.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Missed session</Label>
+              <Select value={sessionId} onValueChange={setSessionId} disabled={saving}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a session" />
+                </SelectTrigger>
+                <SelectContent>
+                  {missedSessions.map((session) => (
+                    <SelectItem key={session.id} value={session.id}>
+                      {session.courses?.code} · {format(new Date(session.starts_at), "EEE, MMM d 'at' h:mm a")}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {missedSessions.length === 0 && (
+                <p className="text-xs text-muted-foreground">
+                  No missed sessions in the last {EXCUSE_WINDOW_DAYS} days.
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Select value={category} onValueChange={setCategory} disabled={saving}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(excuseCategoryLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="excuse-explanation">Explanation</Label>
+              <Textarea
+                id="excuse-explanation"
+                name="explanation"
+                placeholder="Tell your professor what happened"
+                required
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="excuse-document">Supporting document (optional)</Label>
+              <Input
+                id="excuse-document"
+                name="document"
+                type="file"
+                accept={EXCUSE_DOCUMENT_TYPES.join(",")}
+                disabled={saving}
+              />
+              <p className="text-xs text-muted-foreground">
+                PDF or image, up to 10 MB. Only you and your professor can see it.
+              </p>
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={saving || missedSessions.length === 0}>
+                {saving ? "Sending..." : "Send Request"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default StudentExcuseRequests;
@@ -0,0 +1,29 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AcademicTerm, ALL_TERMS } from "@/lib/terms";
+import { CalendarRange } from "lucide-react";
+
+interface TermSwitcherProps {
+  terms: AcademicTerm[];
+  value: string;
+  onChange: (termId: string) => void;
+}
+
+const TermSwitcher = ({ terms, value, onChange }: TermSwitcherProps) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger className="w-48">
+      <CalendarRange className="w-4 h-4 mr-2 shrink-0 text-muted-foreground" />
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      <SelectItem value={ALL_TERMS}>All terms</SelectItem>
+      {terms.map((term) => (
+        <SelectItem key={term.id} value={term.id}>
+          {term.name}
+          {term.is_active ? " (current)" : ""}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+export default TermSwitcher;
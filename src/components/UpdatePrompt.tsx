@@ -0,0 +1,29 @@
+import { useEffect } from "react";
+import { ToastAction } from "@/components/ui/toast";
+import { useToast } from "@/hooks/use-toast";
+import { registerServiceWorker } from "@/lib/service-worker";
+
+// Offers to reload when a new build has been deployed
+const UpdatePrompt = () => {
+  const { toast } = useToast();
+
+  useEffect(() => {
+    registerServiceWorker((applyUpdate) => {
+      toast({
+        title: "Update available",
+        description: "A new version of AttendTrack is ready.",
+        duration: Infinity,
+        action: (
+          <ToastAction altText="Reload to update" onClick={applyUpdate}>
+            Reload
+          </ToastAction>
+        ),
+      });
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return null;
+};
+
+export default UpdatePrompt;
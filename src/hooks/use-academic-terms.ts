@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { AcademicTerm, ALL_TERMS } from "@/lib/terms";
+
+// All academic terms, newest first, plus the one marked active
+export function useAcademicTerms() {
+  const [terms, setTerms] = useState<AcademicTerm[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    const { data } = await supabase.from("academic_terms").select("*").order("starts_on", { ascending: false });
+    setTerms(data || []);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { terms, activeTerm: terms.find((term) => term.is_active) ?? null, loading, reload };
+}
+
+// Term picked in a dashboard's switcher. Starts on the active term once terms
+// have loaded, or on all terms if none is active.
+export function useTermFilter() {
+  const { terms, activeTerm, loading } = useAcademicTerms();
+  const [termId, setTermId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!loading && termId === null) setTermId(activeTerm?.id ?? ALL_TERMS);
+  }, [loading, activeTerm, termId]);
+
+  return { terms, termId: termId ?? ALL_TERMS, setTermId, ready: termId !== null };
+}
@@ -0,0 +1,34 @@
+import { createContext, useContext } from "react";
+import { Session, User } from "@supabase/supabase-js";
+import { Database, Tables } from "@/integrations/supabase/types";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+
+export interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  profile: Tables<"profiles"> | null;
+  roles: AppRole[];
+  // True until the session and, for signed-in users, their roles are known
+  loading: boolean;
+  refresh: () => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+// Dashboard for a user's highest role, or null while no role has been granted
+export function homePathForRoles(roles: AppRole[]): string | null {
+  if (roles.includes("admin")) return "/admin";
+  if (roles.includes("professor")) return "/professor";
+  if (roles.includes("student")) return "/student";
+  return null;
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+
+export type LiveConnection = "connecting" | "live" | "reconnecting";
+
+type StudentProfile = Pick<Tables<"profiles">, "id" | "full_name" | "email">;
+
+// Delay before re-subscribing after a channel error, doubled per consecutive
+// failure and reset once the channel is live again
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30_000;
+
+// Check-ins for a session as they happen. New rows arrive over Realtime; the
+// full list is re-fetched whenever the channel (re)subscribes or the page
+// resumes, so anything missed while disconnected or asleep is back-filled.
+export function useLiveAttendance(sessionId: string | undefined, courseId: string | undefined) {
+  const [records, setRecords] = useState<Tables<"attendance_records">[]>([]);
+  const [students, setStudents] = useState<Record<string, StudentProfile>>({});
+  const [enrolled, setEnrolled] = useState(0);
+  const [connection, setConnection] = useState<LiveConnection>("connecting");
+  // Bumped to re-subscribe; failures only counts errors since the last success
+  const [attempt, setAttempt] = useState(0);
+  const failures = useRef(0);
+
+  const merge = useCallback((incoming: Tables<"attendance_records">[]) => {
+    setRecords((current) => {
+      const byId = new Map(current.map((record) => [record.id, record]));
+      incoming.forEach((record) => byId.set(record.id, record));
+      return Array.from(byId.values()).sort((a, b) => b.checked_in_at.localeCompare(a.checked_in_at));
+    });
+  }, []);
+
+  const backfill = useCallback(async () => {
+    if (!sessionId || !courseId) return;
+
+    const [attendance, roster] = await Promise.all([
+      supabase
+        .from("attendance_records")
+        .select("*")
+        .eq("session_id", sessionId)
+        .order("checked_in_at", { ascending: false }),
+      supabase
+        .from("course_enrollments")
+        .select("id", { count: "exact", head: true })
+        .eq("course_id", courseId),
+    ]);
+
+    // The fetched list is authoritative, so it also drops rows deleted meanwhile
+    if (!attendance.error) setRecords(attendance.data || []);
+    if (roster.count !== null) setEnrolled(roster.count);
+  }, [sessionId, courseId]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    let retry: number | undefined;
+    const channel = supabase
+      .channel(`attendance:${sessionId}:${attempt}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "attendance_records", filter: `session_id=eq.${sessionId}` },
+        (payload) => merge([payload.new as Tables<"attendance_records">]),
+      )
+      // Manual edits from the attendance grid
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "attendance_records", filter: `session_id=eq.${sessionId}` },
+        (payload) => merge([payload.new as Tables<"attendance_records">]),
+      )
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") {
+          failures.current = 0;
+          setConnection("live");
+          backfill();
+        } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+          setConnection("reconnecting");
+          const delay = Math.min(RECONNECT_BASE_MS * 2 ** failures.current, RECONNECT_MAX_MS);
+          failures.current += 1;
+          retry = window.setTimeout(() => setAttempt((n) => n + 1), delay);
+        }
+      });
+
+    return () => {
+      window.clearTimeout(retry);
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId, attempt, merge, backfill]);
+
+  // A laptop lid or a dropped connection can silently pause the socket. The
+  // first load comes from the SUBSCRIBED handler above.
+  useEffect(() => {
+    const resume = () => {
+      if (document.visibilityState === "visible") backfill();
+    };
+    document.addEventListener("visibilitychange", resume);
+    window.addEventListener("online", resume);
+    return () => {
+      document.removeEventListener("visibilitychange", resume);
+      window.removeEventListener("online", resume);
+    };
+  }, [backfill]);
+
+  // attendance_records points at auth.users, so profiles are fetched separately
+  useEffect(() => {
+    const missing = Array.from(new Set(records.map((record) => record.student_id))).filter((id) => !students[id]);
+    if (missing.length === 0) return;
+
+    supabase
+      .from("profiles")
+      .select("id, full_name, email")
+      .in("id", missing)
+      .then(({ data }) => {
+        if (data?.length) {
+          setStudents((current) => ({ ...current, ...Object.fromEntries(data.map((profile) => [profile.id, profile])) }));
+        }
+      });
+  }, [records, students]);
+
+  return { records, students, enrolled, connection, refresh: backfill };
+}
@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  listQueuedCheckIns,
+  QUEUE_CHANGED_EVENT,
+  QueuedCheckIn,
+  removeQueuedCheckIn,
+  syncQueuedCheckIns,
+} from "@/lib/offline-queue";
+
+// Delay before retrying while check-ins are still pending, doubled per attempt
+// that leaves them pending. The server rejects a scan older than 2 minutes, so
+// there is no point waiting longer than this between attempts.
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 30_000;
+
+// Queued offline check-ins for a user. Pending items are submitted on mount,
+// whenever the browser comes back online, and retried with backoff while the
+// device claims to be online but requests still fail.
+export function useOfflineCheckIns(userId: string | null | undefined) {
+  const [items, setItems] = useState<QueuedCheckIn[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const failures = useRef(0);
+  const retryTimer = useRef<ReturnType<typeof setTimeout>>();
+  const mounted = useRef(false);
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    setItems(await listQueuedCheckIns(userId));
+  }, [userId]);
+
+  const sync = useCallback(async () => {
+    clearTimeout(retryTimer.current);
+    // Offline: the online event starts the next attempt
+    if (!userId || !navigator.onLine) return;
+    setSyncing(true);
+    try {
+      await syncQueuedCheckIns(userId);
+    } finally {
+      setSyncing(false);
+    }
+
+    if (!(await listQueuedCheckIns(userId)).some((item) => item.state === "pending")) {
+      failures.current = 0;
+      return;
+    }
+    if (!mounted.current) return;
+
+    const delay = Math.min(RETRY_BASE_MS * 2 ** failures.current, RETRY_MAX_MS);
+    failures.current += 1;
+    retryTimer.current = setTimeout(sync, delay);
+  }, [userId]);
+
+  const clearFinished = useCallback(async () => {
+    await Promise.all(items.filter((item) => item.state !== "pending").map((item) => removeQueuedCheckIn(item.id)));
+  }, [items]);
+
+  useEffect(() => {
+    mounted.current = true;
+    refresh();
+    sync();
+
+    window.addEventListener(QUEUE_CHANGED_EVENT, refresh);
+    window.addEventListener("online", sync);
+    return () => {
+      window.removeEventListener(QUEUE_CHANGED_EVENT, refresh);
+      window.removeEventListener("online", sync);
+      mounted.current = false;
+      clearTimeout(retryTimer.current);
+    };
+  }, [refresh, sync]);
+
+  return { items, syncing, sync, clearFinished };
+}
@@ -0,0 +1,65 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { QR_ROTATION_SECONDS, QR_TOKEN_TTL_SECONDS } from "@/lib/qr-token";
+
+interface RotatingQrToken {
+  token: string | null;
+  secondsLeft: number;
+  error: string | null;
+}
+
+// Fetches a fresh signed token from the server every `rotationSeconds` while enabled.
+export function useRotatingQrToken(
+  courseId: string,
+  enabled: boolean,
+  rotationSeconds: number = QR_ROTATION_SECONDS,
+): RotatingQrToken {
+  const [token, setToken] = useState<string | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(rotationSeconds);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      setToken(null);
+      return;
+    }
+
+    let cancelled = false;
+    let nextRotation = 0;
+
+    const rotate = async () => {
+      const { data, error } = await supabase.rpc("issue_qr_token", {
+        _course_id: courseId,
+        _ttl_seconds: Math.max(QR_TOKEN_TTL_SECONDS, rotationSeconds * 2),
+      });
+
+      if (cancelled) return;
+
+      if (error || !data?.[0]) {
+        setError(error?.message || "Could not generate QR code");
+      } else {
+        setError(null);
+        setToken(data[0].token);
+      }
+      nextRotation = Date.now() + rotationSeconds * 1000;
+    };
+
+    rotate();
+
+    const timer = window.setInterval(() => {
+      const remaining = Math.max(0, Math.ceil((nextRotation - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+      if (remaining === 0 && nextRotation !== 0) {
+        nextRotation = 0;
+        rotate();
+      }
+    }, 1000);
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [courseId, enabled, rotationSeconds]);
+
+  return { token, secondsLeft, error };
+}
@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react";
+
+// Keeps the screen awake while enabled. Browsers release the lock whenever the
+// page is hidden, so it is re-acquired each time the page becomes visible again.
+export function useWakeLock(enabled: boolean) {
+  const [active, setActive] = useState(false);
+  const supported = typeof navigator !== "undefined" && "wakeLock" in navigator;
+
+  useEffect(() => {
+    if (!enabled || !supported) return;
+
+    let sentinel: WakeLockSentinel | null = null;
+    let cancelled = false;
+
+    const acquire = async () => {
+      if (document.visibilityState !== "visible" || (sentinel && !sentinel.released)) return;
+      try {
+        sentinel = await navigator.wakeLock.request("screen");
+        if (cancelled) {
+          sentinel.release();
+          return;
+        }
+        setActive(true);
+        sentinel.addEventListener("release", () => setActive(false));
+      } catch (error) {
+        // Denied (e.g. battery saver); the page still works, it may just dim
+        console.error("Could not keep the screen awake:", error);
+      }
+    };
+
+    acquire();
+    document.addEventListener("visibilitychange", acquire);
+
+    return () => {
+      cancelled = true;
+      document.removeEventListener("visibilitychange", acquire);
+      sentinel?.release();
+      setActive(false);
+    };
+  }, [enabled, supported]);
+
+  return { supported, active };
+}
@@ -14,36 +14,170 @@ export type Database = {
   }
   public: {
     Tables: {
+      academic_terms: {
+        Row: {
+          created_at: string
+          ends_on: string
+          holidays: string[]
+          id: string
+          is_active: boolean
+          name: string
+          starts_on: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          ends_on: string
+          holidays?: string[]
+          id?: string
+          is_active?: boolean
+          name: string
+          starts_on: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          ends_on?: string
+          holidays?: string[]
+          id?: string
+          is_active?: boolean
+          name?: string
+          starts_on?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      attendance_changes: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          course_id: string
+          id: string
+          new_status: Database["public"]["Enums"]["attendance_status"]
+          previous_status: Database["public"]["Enums"]["attendance_status"] | null
+          reason: string
+          record_id: string
+          session_id: string
+          student_id: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          course_id: string
+          id?: string
+          new_status: Database["public"]["Enums"]["attendance_status"]
+          previous_status?: Database["public"]["Enums"]["attendance_status"] | null
+          reason: string
+          record_id: string
+          session_id: string
+          student_id: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          course_id?: string
+          id?: string
+          new_status?: Database["public"]["Enums"]["attendance_status"]
+          previous_status?: Database["public"]["Enums"]["attendance_status"] | null
+          reason?: string
+          record_id?: string
+          session_id?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_changes_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_changes_record_id_fkey"
+            columns: ["record_id"]
+            isOneToOne: false
+            referencedRelation: "attendance_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_changes_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "class_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_changes_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       attendance_records: {
         Row: {
+          attendance_date: string
           checked_in_at: string
           course_id: string
           created_at: string
+          distance_m: number | null
+          edit_reason: string | null
+          edited_at: string | null
+          edited_by: string | null
+          geofence_status: Database["public"]["Enums"]["geofence_status"] | null
           id: string
           latitude: number | null
           location_accuracy: number | null
           longitude: number | null
+          room_id: string | null
+          session_id: string | null
+          source: Database["public"]["Enums"]["attendance_source"]
+          status: Database["public"]["Enums"]["attendance_status"]
           student_id: string
+          synced_at: string | null
         }
         Insert: {
+          attendance_date?: string
           checked_in_at?: string
           course_id: string
           created_at?: string
+          distance_m?: number | null
+          edit_reason?: string | null
+          edited_at?: string | null
+          edited_by?: string | null
+          geofence_status?: Database["public"]["Enums"]["geofence_status"] | null
           id?: string
           latitude?: number | null
           location_accuracy?: number | null
           longitude?: number | null
+          room_id?: string | null
+          session_id?: string | null
+          source?: Database["public"]["Enums"]["attendance_source"]
+          status?: Database["public"]["Enums"]["attendance_status"]
           student_id: string
+          synced_at?: string | null
         }
         Update: {
+          attendance_date?: string
           checked_in_at?: string
           course_id?: string
           created_at?: string
+          distance_m?: number | null
+          edit_reason?: string | null
+          edited_at?: string | null
+          edited_by?: string | null
+          geofence_status?: Database["public"]["Enums"]["geofence_status"] | null
           id?: string
           latitude?: number | null
           location_accuracy?: number | null
           longitude?: number | null
+          room_id?: string | null
+          session_id?: string | null
+          source?: Database["public"]["Enums"]["attendance_source"]
+          status?: Database["public"]["Enums"]["attendance_status"]
           student_id?: string
+          synced_at?: string | null
         }
         Relationships: [
           {
@@ -53,43 +187,591 @@ export type Database = {
             referencedRelation: "courses"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "attendance_records_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_records_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "class_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attendance_records_duplicates: {
+        Row: {
+          attendance_date: string
+          checked_in_at: string
+          course_id: string
+          created_at: string
+          distance_m: number | null
+          geofence_status: Database["public"]["Enums"]["geofence_status"] | null
+          id: string
+          latitude: number | null
+          location_accuracy: number | null
+          longitude: number | null
+          removed_at: string
+          room_id: string | null
+          session_id: string | null
+          student_id: string
+        }
+        Insert: {
+          attendance_date: string
+          checked_in_at: string
+          course_id: string
+          created_at: string
+          distance_m?: number | null
+          geofence_status?: Database["public"]["Enums"]["geofence_status"] | null
+          id: string
+          latitude?: number | null
+          location_accuracy?: number | null
+          longitude?: number | null
+          removed_at?: string
+          room_id?: string | null
+          session_id?: string | null
+          student_id: string
+        }
+        Update: {
+          attendance_date?: string
+          checked_in_at?: string
+          course_id?: string
+          created_at?: string
+          distance_m?: number | null
+          geofence_status?: Database["public"]["Enums"]["geofence_status"] | null
+          id?: string
+          latitude?: number | null
+          location_accuracy?: number | null
+          longitude?: number | null
+          removed_at?: string
+          room_id?: string | null
+          session_id?: string | null
+          student_id?: string
+        }
+        Relationships: []
+      }
+      class_sessions: {
+        Row: {
+          check_in_closes_at: string | null
+          check_in_opens_at: string | null
+          course_id: string
+          created_at: string
+          created_by: string | null
+          ends_at: string
+          id: string
+          occurs_on: string | null
+          rescheduled_from: string | null
+          room: string | null
+          room_id: string | null
+          schedule_id: string | null
+          starts_at: string
+          status: Database["public"]["Enums"]["session_status"]
+          updated_at: string
+        }
+        Insert: {
+          check_in_closes_at?: string | null
+          check_in_opens_at?: string | null
+          course_id: string
+          created_at?: string
+          created_by?: string | null
+          ends_at: string
+          id?: string
+          occurs_on?: string | null
+          rescheduled_from?: string | null
+          room?: string | null
+          room_id?: string | null
+          schedule_id?: string | null
+          starts_at: string
+          status?: Database["public"]["Enums"]["session_status"]
+          updated_at?: string
+        }
+        Update: {
+          check_in_closes_at?: string | null
+          check_in_opens_at?: string | null
+          course_id?: string
+          created_at?: string
+          created_by?: string | null
+          ends_at?: string
+          id?: string
+          occurs_on?: string | null
+          rescheduled_from?: string | null
+          room?: string | null
+          room_id?: string | null
+          schedule_id?: string | null
+          starts_at?: string
+          status?: Database["public"]["Enums"]["session_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_sessions_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "class_sessions_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "class_sessions_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "course_schedules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_enrollments: {
+        Row: {
+          course_id: string
+          enrolled_at: string
+          enrolled_by: string | null
+          id: string
+          section: string | null
+          student_id: string
+          student_number: string | null
+        }
+        Insert: {
+          course_id: string
+          enrolled_at?: string
+          enrolled_by?: string | null
+          id?: string
+          section?: string | null
+          student_id: string
+          student_number?: string | null
+        }
+        Update: {
+          course_id?: string
+          enrolled_at?: string
+          enrolled_by?: string | null
+          id?: string
+          section?: string | null
+          student_id?: string
+          student_number?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_enrollments_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_enrollments_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_invitations: {
+        Row: {
+          accepted_at: string | null
+          course_id: string
+          created_at: string
+          email: string
+          full_name: string | null
+          id: string
+          invited_by: string | null
+          section: string | null
+          student_number: string | null
+        }
+        Insert: {
+          accepted_at?: string | null
+          course_id: string
+          created_at?: string
+          email: string
+          full_name?: string | null
+          id?: string
+          invited_by?: string | null
+          section?: string | null
+          student_number?: string | null
+        }
+        Update: {
+          accepted_at?: string | null
+          course_id?: string
+          created_at?: string
+          email?: string
+          full_name?: string | null
+          id?: string
+          invited_by?: string | null
+          section?: string | null
+          student_number?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_invitations_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_qr_secrets: {
+        Row: {
+          course_id: string
+          created_at: string
+          secret: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string
+          secret?: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string
+          secret?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_qr_secrets_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: true
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_schedules: {
+        Row: {
+          check_in_window_minutes: number
+          course_id: string
+          created_at: string
+          days_of_week: number[]
+          end_time: string
+          excluded_dates: string[]
+          id: string
+          room_id: string | null
+          start_time: string
+          term_ends_on: string
+          term_starts_on: string
+          updated_at: string
+        }
+        Insert: {
+          check_in_window_minutes?: number
+          course_id: string
+          created_at?: string
+          days_of_week: number[]
+          end_time: string
+          excluded_dates?: string[]
+          id?: string
+          room_id?: string | null
+          start_time: string
+          term_ends_on: string
+          term_starts_on: string
+          updated_at?: string
+        }
+        Update: {
+          check_in_window_minutes?: number
+          course_id?: string
+          created_at?: string
+          days_of_week?: number[]
+          end_time?: string
+          excluded_dates?: string[]
+          id?: string
+          room_id?: string | null
+          start_time?: string
+          term_ends_on?: string
+          term_starts_on?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_schedules_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: true
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_schedules_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
         ]
       }
       courses: {
         Row: {
+          archived_at: string | null
           code: string
           created_at: string
+          excused_weight: number
           id: string
+          late_grace_minutes: number
+          late_weight: number
+          left_early_weight: number
           name: string
           professor_id: string
           qr_code_url: string | null
+          required_attendance_pct: number
+          room_id: string | null
           semester: string | null
+          term_id: string | null
+          timezone: string
           updated_at: string
           year: number | null
         }
         Insert: {
+          archived_at?: string | null
           code: string
           created_at?: string
+          excused_weight?: number
           id?: string
+          late_grace_minutes?: number
+          late_weight?: number
+          left_early_weight?: number
           name: string
           professor_id: string
           qr_code_url?: string | null
+          required_attendance_pct?: number
+          room_id?: string | null
           semester?: string | null
+          term_id?: string | null
+          timezone?: string
           updated_at?: string
           year?: number | null
         }
         Update: {
+          archived_at?: string | null
           code?: string
           created_at?: string
+          excused_weight?: number
           id?: string
+          late_grace_minutes?: number
+          late_weight?: number
+          left_early_weight?: number
           name?: string
           professor_id?: string
           qr_code_url?: string | null
+          required_attendance_pct?: number
+          room_id?: string | null
           semester?: string | null
+          term_id?: string | null
+          timezone?: string
           updated_at?: string
           year?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "courses_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "courses_term_id_fkey"
+            columns: ["term_id"]
+            isOneToOne: false
+            referencedRelation: "academic_terms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_outbox: {
+        Row: {
+          course_id: string | null
+          created_at: string
+          error: string | null
+          id: string
+          provider_message_id: string | null
+          recipient_email: string
+          recipient_id: string | null
+          sent_at: string | null
+          sent_by: string | null
+          status: Database["public"]["Enums"]["email_status"]
+          subject: string
+          template: string
+          template_id: string | null
+          transport: string | null
+          updated_at: string
+        }
+        Insert: {
+          course_id?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          provider_message_id?: string | null
+          recipient_email: string
+          recipient_id?: string | null
+          sent_at?: string | null
+          sent_by?: string | null
+          status?: Database["public"]["Enums"]["email_status"]
+          subject: string
+          template: string
+          template_id?: string | null
+          transport?: string | null
+          updated_at?: string
+        }
+        Update: {
+          course_id?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          provider_message_id?: string | null
+          recipient_email?: string
+          recipient_id?: string | null
+          sent_at?: string | null
+          sent_by?: string | null
+          status?: Database["public"]["Enums"]["email_status"]
+          subject?: string
+          template?: string
+          template_id?: string | null
+          transport?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_outbox_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_outbox_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_outbox_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "email_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_templates: {
+        Row: {
+          body_html: string | null
+          body_text: string
+          course_id: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          subject: string
+          updated_at: string
+        }
+        Insert: {
+          body_html?: string | null
+          body_text: string
+          course_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          subject: string
+          updated_at?: string
+        }
+        Update: {
+          body_html?: string | null
+          body_text?: string
+          course_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          subject?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_templates_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      excuse_requests: {
+        Row: {
+          attachment_path: string | null
+          category: Database["public"]["Enums"]["excuse_category"]
+          course_id: string
+          created_at: string
+          explanation: string
+          id: string
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          session_id: string
+          status: Database["public"]["Enums"]["excuse_status"]
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          attachment_path?: string | null
+          category: Database["public"]["Enums"]["excuse_category"]
+          course_id: string
+          created_at?: string
+          explanation: string
+          id?: string
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          session_id: string
+          status?: Database["public"]["Enums"]["excuse_status"]
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          attachment_path?: string | null
+          category?: Database["public"]["Enums"]["excuse_category"]
+          course_id?: string
+          created_at?: string
+          explanation?: string
+          id?: string
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          session_id?: string
+          status?: Database["public"]["Enums"]["excuse_status"]
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "excuse_requests_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "excuse_requests_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "class_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "excuse_requests_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
@@ -115,6 +797,124 @@ export type Database = {
         }
         Relationships: []
       }
+      qr_token_redemptions: {
+        Row: {
+          course_id: string
+          expires_at: string
+          nonce: string
+          redeemed_at: string
+          student_id: string
+        }
+        Insert: {
+          course_id: string
+          expires_at: string
+          nonce: string
+          redeemed_at?: string
+          student_id: string
+        }
+        Update: {
+          course_id?: string
+          expires_at?: string
+          nonce?: string
+          redeemed_at?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "qr_token_redemptions_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      role_requests: {
+        Row: {
+          created_at: string
+          id: string
+          requested_role: Database["public"]["Enums"]["app_role"]
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["role_request_status"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          requested_role: Database["public"]["Enums"]["app_role"]
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["role_request_status"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          requested_role?: Database["public"]["Enums"]["app_role"]
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["role_request_status"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "role_requests_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rooms: {
+        Row: {
+          boundary: Json | null
+          building: string | null
+          center_lat: number | null
+          center_lng: number | null
+          created_at: string
+          created_by: string | null
+          geofence_mode: Database["public"]["Enums"]["geofence_mode"]
+          id: string
+          max_accuracy_m: number
+          name: string
+          radius_m: number | null
+          updated_at: string
+        }
+        Insert: {
+          boundary?: Json | null
+          building?: string | null
+          center_lat?: number | null
+          center_lng?: number | null
+          created_at?: string
+          created_by?: string | null
+          geofence_mode?: Database["public"]["Enums"]["geofence_mode"]
+          id?: string
+          max_accuracy_m?: number
+          name: string
+          radius_m?: number | null
+          updated_at?: string
+        }
+        Update: {
+          boundary?: Json | null
+          building?: string | null
+          center_lat?: number | null
+          center_lng?: number | null
+          created_at?: string
+          created_by?: string | null
+          geofence_mode?: Database["public"]["Enums"]["geofence_mode"]
+          id?: string
+          max_accuracy_m?: number
+          name?: string
+          radius_m?: number | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -141,6 +941,112 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      apply_roster_import: {
+        Args: {
+          _course_id: string
+          _remove_missing?: boolean
+          _rows: Json
+        }
+        Returns: {
+          added: number
+          invited: number
+          removed: number
+          skipped: number
+          status: string
+          unchanged: number
+        }[]
+      }
+      attendance_weight: {
+        Args: {
+          _course: Database["public"]["Tables"]["courses"]["Row"]
+          _status: Database["public"]["Enums"]["attendance_status"]
+        }
+        Returns: number
+      }
+      check_in: {
+        Args: {
+          _accuracy?: number
+          _latitude?: number
+          _longitude?: number
+          _scanned_at?: string
+          _token: string
+        }
+        Returns: {
+          attendance_status: Database["public"]["Enums"]["attendance_status"]
+          course_code: string
+          course_id: string
+          course_name: string
+          distance_m: number
+          geofence_status: Database["public"]["Enums"]["geofence_status"]
+          record_id: string
+          session_id: string
+          status: string
+        }[]
+      }
+      course_local_date: {
+        Args: {
+          _at: string
+          _course_id: string
+        }
+        Returns: string
+      }
+      evaluate_geofence: {
+        Args: {
+          _accuracy: number
+          _lat: number
+          _lng: number
+          _room_id: string
+        }
+        Returns: {
+          distance_m: number
+          mode: Database["public"]["Enums"]["geofence_mode"]
+          status: Database["public"]["Enums"]["geofence_status"]
+        }[]
+      }
+      generate_course_sessions: {
+        Args: {
+          _course_id: string
+        }
+        Returns: number
+      }
+      get_session_attendance_summary: {
+        Args: {
+          _course_ids?: string[]
+          _from?: string
+          _to?: string
+        }
+        Returns: {
+          attendance_pct: number
+          course_code: string
+          course_id: string
+          enrolled_count: number
+          present_count: number
+          session_id: string
+          starts_at: string
+        }[]
+      }
+      get_student_attendance_summary: {
+        Args: {
+          _course_ids?: string[]
+          _from?: string
+          _to?: string
+        }
+        Returns: {
+          attendance_pct: number
+          course_code: string
+          course_id: string
+          course_name: string
+          email: string
+          excused_count: number
+          full_name: string
+          late_count: number
+          left_early_count: number
+          required_attendance_pct: number
+          sessions_attended: number
+          sessions_held: number
+          student_id: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -148,9 +1054,128 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_course_archived: {
+        Args: {
+          _course_id: string
+        }
+        Returns: boolean
+      }
+      is_course_staff: {
+        Args: {
+          _course_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_enrolled: {
+        Args: {
+          _course_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_session_open: {
+        Args: {
+          _session_id: string
+        }
+        Returns: boolean
+      }
+      is_valid_timezone: {
+        Args: {
+          _tz: string
+        }
+        Returns: boolean
+      }
+      issue_qr_token: {
+        Args: {
+          _course_id: string
+          _static?: boolean
+          _ttl_seconds?: number
+        }
+        Returns: {
+          expires_at: string
+          token: string
+        }[]
+      }
+      review_excuse_request: {
+        Args: {
+          _approve: boolean
+          _comment?: string
+          _request_id: string
+        }
+        Returns: string
+      }
+      review_role_request: {
+        Args: {
+          _approve: boolean
+          _note?: string
+          _request_id: string
+        }
+        Returns: {
+          created_at: string
+          id: string
+          requested_role: Database["public"]["Enums"]["app_role"]
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["role_request_status"]
+          user_id: string
+        }
+      }
+      set_active_term: {
+        Args: {
+          _term_id: string
+        }
+        Returns: string
+      }
+      set_attendance_status: {
+        Args: {
+          _reason: string
+          _session_id: string
+          _status: Database["public"]["Enums"]["attendance_status"]
+          _student_id: string
+        }
+        Returns: string
+      }
+      set_course_archived: {
+        Args: {
+          _archived: boolean
+          _course_id: string
+        }
+        Returns: string
+      }
+      sign_qr_payload: {
+        Args: {
+          _course_id: string
+          _payload: string
+        }
+        Returns: string
+      }
+      verify_qr_token: {
+        Args: {
+          _at?: string
+          _token: string
+        }
+        Returns: {
+          course_id: string
+          expires_at: string
+          nonce: string
+          rotating: boolean
+          status: string
+        }[]
+      }
     }
     Enums: {
       app_role: "student" | "professor" | "admin"
+      attendance_source: "scan" | "manual"
+      attendance_status: "present" | "late" | "excused" | "absent" | "left_early"
+      email_status: "queued" | "sent" | "failed"
+      excuse_category: "illness" | "family" | "religious" | "university_activity" | "other"
+      excuse_status: "pending" | "approved" | "denied"
+      geofence_mode: "off" | "flag" | "reject"
+      geofence_status: "inside" | "outside" | "low_accuracy" | "no_location" | "not_configured"
+      role_request_status: "pending" | "approved" | "rejected"
+      session_status: "scheduled" | "open" | "closed" | "cancelled"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -279,6 +1304,15 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["student", "professor", "admin"],
+      attendance_source: ["scan", "manual"],
+      attendance_status: ["present", "late", "excused", "absent", "left_early"],
+      email_status: ["queued", "sent", "failed"],
+      excuse_category: ["illness", "family", "religious", "university_activity", "other"],
+      excuse_status: ["pending", "approved", "denied"],
+      geofence_mode: ["off", "flag", "reject"],
+      geofence_status: ["inside", "outside", "low_accuracy", "no_location", "not_configured"],
+      role_request_status: ["pending", "approved", "rejected"],
+      session_status: ["scheduled", "open", "closed", "cancelled"],
     },
   },
 } as const
@@ -0,0 +1,339 @@
+import {
+  addDays,
+  format,
+  isValid,
+  parse,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  subDays,
+  subMonths,
+  subWeeks,
+} from "date-fns";
+import {
+  AttendanceBand,
+  attendanceBand,
+  averageAttendance,
+  FAIR_ATTENDANCE_MARGIN,
+  isAtRisk,
+  StudentAttendanceSummary,
+} from "@/lib/attendance";
+import { Database } from "@/integrations/supabase/types";
+
+export type SessionAttendanceSummary =
+  Database["public"]["Functions"]["get_session_attendance_summary"]["Returns"][number];
+
+export interface QueryCourse {
+  id: string;
+  code: string;
+  name: string;
+}
+
+export interface QueryFilters {
+  courseIds: string[];
+  // at_risk: below each course's own required attendance
+  threshold: { op: "below" | "above"; value: number } | { op: "at_risk" } | null;
+  from: Date | null;
+  to: Date | null;
+  studentName: string | null;
+}
+
+export type ChartType = "bar" | "pie" | "line";
+
+export type QueryIntent =
+  | { kind: "list"; filters: QueryFilters }
+  | { kind: "count"; filters: QueryFilters }
+  | { kind: "average"; filters: QueryFilters }
+  | { kind: "student"; filters: QueryFilters }
+  | { kind: "chart"; chart: ChartType; filters: QueryFilters }
+  | { kind: "unknown"; suggestions: string[] };
+
+export interface QueryAnswer {
+  text: string;
+  table?: { columns: string[]; rows: (string | number)[][] };
+  chart?: { type: ChartType; data: { name: string; value: number; band?: AttendanceBand }[] };
+  suggestions?: string[];
+}
+
+interface ParseContext {
+  courses: QueryCourse[];
+  studentNames: string[];
+  now?: Date;
+}
+
+const DATE_FORMATS = ["yyyy-MM-dd", "d/M/yyyy", "MMM d yyyy", "MMMM d yyyy", "MMM d", "MMMM d"];
+
+const parseDate = (value: string, now: Date): Date | null => {
+  const cleaned = value.replace(/,/g, "").replace(/(\d)(st|nd|rd|th)\b/g, "$1").trim();
+  for (const dateFormat of DATE_FORMATS) {
+    const date = parse(cleaned, dateFormat, now);
+    if (isValid(date)) return date;
+  }
+  return null;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const containsWord = (text: string, word: string) =>
+  new RegExp(`(^|[^a-z0-9])${escapeRegExp(word.toLowerCase())}([^a-z0-9]|$)`).test(text);
+
+const parseDateRange = (text: string, now: Date): Pick<QueryFilters, "from" | "to"> => {
+  const lastN = text.match(/\b(?:last|past)\s+(\d+)\s+(day|week|month)s?\b/);
+  if (lastN) {
+    const amount = Number(lastN[1]);
+    const unit = lastN[2];
+    const from = unit === "day" ? subDays(now, amount) : unit === "week" ? subWeeks(now, amount) : subMonths(now, amount);
+    return { from: startOfDay(from), to: null };
+  }
+
+  if (/\btoday\b/.test(text)) return { from: startOfDay(now), to: null };
+  if (/\byesterday\b/.test(text)) return { from: startOfDay(subDays(now, 1)), to: startOfDay(now) };
+  if (/\bthis week\b/.test(text)) return { from: startOfWeek(now), to: null };
+  if (/\blast week\b/.test(text)) return { from: startOfWeek(subWeeks(now, 1)), to: startOfWeek(now) };
+  if (/\bthis month\b/.test(text)) return { from: startOfMonth(now), to: null };
+  if (/\blast month\b/.test(text)) return { from: startOfMonth(subMonths(now, 1)), to: startOfMonth(now) };
+
+  const between = text.match(/\b(?:between|from)\s+(.+?)\s+(?:and|to|until)\s+(.+?)(?:$|\s+(?:in|for|below|above|under|over)\b)/);
+  if (between) {
+    const from = parseDate(between[1], now);
+    const to = parseDate(between[2], now);
+    if (from && to) return { from: startOfDay(from), to: addDays(startOfDay(to), 1) };
+  }
+
+  const since = text.match(/\b(?:since|after)\s+(.+?)(?:$|\s+(?:in|for|below|above|under|over)\b)/);
+  if (since) {
+    const from = parseDate(since[1], now);
+    if (from) return { from: startOfDay(from), to: null };
+  }
+
+  const before = text.match(/\b(?:before|until)\s+(.+?)(?:$|\s+(?:in|for|below|above|under|over)\b)/);
+  if (before) {
+    const to = parseDate(before[1], now);
+    if (to) return { from: null, to: startOfDay(to) };
+  }
+
+  return { from: null, to: null };
+};
+
+const parseThreshold = (text: string): QueryFilters["threshold"] => {
+  const below = text.match(/(?:below|under|less than|lower than|<)\s*(\d{1,3})\s*%?/);
+  if (below) return { op: "below", value: Number(below[1]) };
+
+  const above = text.match(/(?:above|over|more than|greater than|at least|>=?)\s*(\d{1,3})\s*%?/);
+  if (above) return { op: "above", value: Number(above[1]) };
+
+  if (/\b(low|poor|at risk|failing)\b/.test(text)) return { op: "at_risk" };
+  if (/\bperfect\b/.test(text)) return { op: "above", value: 100 };
+
+  return null;
+};
+
+export function buildSuggestions(courses: QueryCourse[]): string[] {
+  const course = courses[0];
+  return [
+    "List students at risk",
+    "Generate bar chart of average attendance",
+    course ? `Show low attendance in ${course.code}` : "Show low attendance",
+    "Attendance trend over the last 30 days as a line chart",
+    "How many students have perfect attendance?",
+  ];
+}
+
+export function parseAnalyticsQuery(input: string, { courses, studentNames, now = new Date() }: ParseContext): QueryIntent {
+  const text = input.toLowerCase().replace(/\s+/g, " ").trim();
+
+  // "in Computer Science" should match "Introduction to Computer Science"
+  const coursePhrase = text.match(/\bin\s+([a-z0-9 &-]{3,}?)(?:$|\s+(?:below|above|under|over|since|from|between|before|last|this|as)\b)/)?.[1];
+  const courseIds = courses
+    .filter(
+      (course) =>
+        (course.code && containsWord(text, course.code)) ||
+        (course.name && text.includes(course.name.toLowerCase())) ||
+        (course.name && coursePhrase && course.name.toLowerCase().includes(coursePhrase)),
+    )
+    .map((course) => course.id);
+
+  const quotedName = input.match(/["“](.+?)["”]/)?.[1];
+  const studentName =
+    quotedName ||
+    studentNames
+      .filter((name) => name && name.trim().length > 0)
+      .sort((a, b) => b.length - a.length)
+      .find((name) => containsWord(text, name.trim())) ||
+    null;
+
+  const filters: QueryFilters = {
+    courseIds,
+    threshold: parseThreshold(text),
+    studentName,
+    ...parseDateRange(text, now),
+  };
+
+  if (/\b(chart|graph|plot|visuali[sz]e|trend|over time)\b/.test(text)) {
+    const chartMatch = text.match(/\b(bar|pie|line)\b/);
+    const chart: ChartType = chartMatch
+      ? (chartMatch[1] as ChartType)
+      : /\b(trend|over time)\b/.test(text)
+        ? "line"
+        : "bar";
+    return { kind: "chart", chart, filters };
+  }
+
+  if (studentName) return { kind: "student", filters };
+
+  if (/\b(how many|count|number of)\b/.test(text)) return { kind: "count", filters };
+
+  if (/\b(average|avg|mean|overall)\b/.test(text)) return { kind: "average", filters };
+
+  if (/\b(list|show|who|which|students|find|display)\b/.test(text) || filters.threshold) {
+    return { kind: "list", filters };
+  }
+
+  return { kind: "unknown", suggestions: buildSuggestions(courses) };
+}
+
+const matchesThreshold = (row: StudentAttendanceSummary, threshold: QueryFilters["threshold"]) => {
+  if (!threshold) return true;
+  if (row.attendance_pct === null) return false;
+  if (threshold.op === "at_risk") return isAtRisk(row);
+  return threshold.op === "below" ? row.attendance_pct < threshold.value : row.attendance_pct >= threshold.value;
+};
+
+export function describeFilters(filters: QueryFilters, courses: QueryCourse[]): string {
+  const parts: string[] = [];
+  if (filters.courseIds.length > 0) {
+    parts.push(
+      `in ${courses
+        .filter((course) => filters.courseIds.includes(course.id))
+        .map((course) => course.code)
+        .join(", ")}`,
+    );
+  }
+  if (filters.threshold?.op === "at_risk") {
+    parts.push("below the required attendance");
+  } else if (filters.threshold) {
+    parts.push(`${filters.threshold.op === "below" ? "below" : "at or above"} ${filters.threshold.value}%`);
+  }
+  if (filters.from) parts.push(`from ${format(filters.from, "MMM d, yyyy")}`);
+  if (filters.to) parts.push(`until ${format(subDays(filters.to, 1), "MMM d, yyyy")}`);
+  return parts.length > 0 ? ` (${parts.join(", ")})` : "";
+}
+
+const formatPct = (value: number | null) => (value === null ? "—" : `${value}%`);
+
+export function answerAnalyticsQuery(
+  intent: QueryIntent,
+  students: StudentAttendanceSummary[],
+  sessions: SessionAttendanceSummary[],
+  courses: QueryCourse[],
+): QueryAnswer {
+  if (intent.kind === "unknown") {
+    return {
+      text: "I couldn't understand that question. Try one of these:",
+      suggestions: intent.suggestions,
+    };
+  }
+
+  const { filters } = intent;
+  const scope = describeFilters(filters, courses);
+  const inScope = students.filter(
+    (row) =>
+      (filters.courseIds.length === 0 || filters.courseIds.includes(row.course_id)) &&
+      (!filters.studentName || (row.full_name || "").toLowerCase().includes(filters.studentName.toLowerCase())),
+  );
+  const matching = inScope.filter((row) => matchesThreshold(row, filters.threshold));
+  const studentTable = (rows: StudentAttendanceSummary[]) => ({
+    columns: ["Student", "Email", "Course", "Attended", "Attendance"],
+    rows: rows
+      .slice()
+      .sort((a, b) => (a.attendance_pct ?? 101) - (b.attendance_pct ?? 101))
+      .map((row) => [
+        row.full_name || row.email,
+        row.email,
+        row.course_code,
+        `${row.sessions_attended}/${row.sessions_held}`,
+        formatPct(row.attendance_pct),
+      ]),
+  });
+
+  switch (intent.kind) {
+    case "list":
+      return matching.length === 0
+        ? { text: `No students match${scope}.` }
+        : { text: `${matching.length} student record(s)${scope}:`, table: studentTable(matching) };
+
+    case "student":
+      return matching.length === 0
+        ? { text: `I couldn't find attendance for "${filters.studentName}"${scope}.` }
+        : { text: `Attendance for ${filters.studentName}${scope}:`, table: studentTable(matching) };
+
+    case "count": {
+      const uniqueStudents = new Set(matching.map((row) => row.student_id)).size;
+      return { text: `${uniqueStudents} student(s)${scope}.` };
+    }
+
+    case "average": {
+      const perCourse = courses
+        .filter((course) => filters.courseIds.length === 0 || filters.courseIds.includes(course.id))
+        .map((course) => ({
+          course,
+          average: averageAttendance(matching.filter((row) => row.course_id === course.id)),
+        }));
+      return {
+        text: `Average attendance${scope} is ${formatPct(averageAttendance(matching))}.`,
+        table: {
+          columns: ["Course", "Average attendance"],
+          rows: perCourse.map(({ course, average }) => [course.code, formatPct(average)]),
+        },
+      };
+    }
+
+    case "chart": {
+      if (intent.chart === "line") {
+        const points = sessions
+          .filter((session) => filters.courseIds.length === 0 || filters.courseIds.includes(session.course_id))
+          .filter((session) => session.attendance_pct !== null)
+          .map((session) => ({
+            name: `${format(new Date(session.starts_at), "MMM d")} ${session.course_code}`,
+            value: Number(session.attendance_pct),
+          }));
+        return points.length === 0
+          ? { text: `No held sessions${scope} to chart yet.` }
+          : { text: `Turnout per session${scope}:`, chart: { type: "line", data: points } };
+      }
+
+      if (intent.chart === "pie") {
+        // Banded against each student's own course requirement
+        const bands: { name: string; value: number; band: AttendanceBand }[] = [
+          { name: "Meets requirement", value: 0, band: "good" },
+          { name: `Up to ${FAIR_ATTENDANCE_MARGIN} points below`, value: 0, band: "fair" },
+          { name: `More than ${FAIR_ATTENDANCE_MARGIN} points below`, value: 0, band: "poor" },
+        ];
+        matching
+          .filter((row) => row.attendance_pct !== null)
+          .forEach((row) => {
+            const band = attendanceBand(Number(row.attendance_pct), Number(row.required_attendance_pct));
+            bands.find((entry) => entry.band === band).value++;
+          });
+        return bands.every((band) => band.value === 0)
+          ? { text: `No attendance data${scope} to chart yet.` }
+          : { text: `Students by attendance band${scope}:`, chart: { type: "pie", data: bands } };
+      }
+
+      const data = courses
+        .filter((course) => filters.courseIds.length === 0 || filters.courseIds.includes(course.id))
+        .map((course) => {
+          const rows = matching.filter((row) => row.course_id === course.id);
+          const average = averageAttendance(rows);
+          return {
+            name: course.code,
+            value: average ?? 0,
+            band: average === null ? undefined : attendanceBand(average, Number(rows[0].required_attendance_pct)),
+          };
+        });
+      return data.length === 0
+        ? { text: `No courses${scope} to chart.` }
+        : { text: `Average attendance by course${scope}:`, chart: { type: "bar", data } };
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import { Database, Tables } from "@/integrations/supabase/types";
+import { z } from "zod";
+
+export type StudentAttendanceSummary =
+  Database["public"]["Functions"]["get_student_attendance_summary"]["Returns"][number];
+
+export const LOW_ATTENDANCE_THRESHOLD = 75;
+
+export const averageAttendance = (rows: StudentAttendanceSummary[]) => {
+  const withSessions = rows.filter((row) => row.attendance_pct !== null);
+  if (withSessions.length === 0) return null;
+  return Math.round(withSessions.reduce((sum, row) => sum + Number(row.attendance_pct), 0) / withSessions.length);
+};
+
+export type AttendanceStatus = Database["public"]["Enums"]["attendance_status"];
+
+export const ATTENDANCE_STATUSES: AttendanceStatus[] = ["present", "late", "left_early", "excused", "absent"];
+
+export const attendanceStatusLabels: Record<AttendanceStatus, string> = {
+  present: "Present",
+  late: "Late",
+  excused: "Excused",
+  absent: "Absent",
+  left_early: "Left early",
+};
+
+export const attendanceStatusBadgeVariants: Record<
+  AttendanceStatus,
+  "default" | "secondary" | "outline" | "destructive"
+> = {
+  present: "default",
+  late: "secondary",
+  excused: "outline",
+  absent: "destructive",
+  left_early: "secondary",
+};
+
+// Per-course rules for how a session counts towards the attendance percentage
+export type AttendanceRules = Pick<
+  Tables<"courses">,
+  "late_grace_minutes" | "late_weight" | "excused_weight" | "left_early_weight" | "required_attendance_pct"
+>;
+
+export const DEFAULT_ATTENDANCE_RULES: AttendanceRules = {
+  late_grace_minutes: 10,
+  late_weight: 0.5,
+  excused_weight: 1,
+  left_early_weight: 0.5,
+  required_attendance_pct: LOW_ATTENDANCE_THRESHOLD,
+};
+
+// Weights are stored as fractions of a full session, entered as 0-1
+const weight = (label: string) =>
+  z.coerce.number().min(0, `${label} weight must be between 0 and 1`).max(1, `${label} weight must be between 0 and 1`);
+
+export const attendanceRulesSchema = z.object({
+  late_grace_minutes: z.coerce
+    .number()
+    .int("Grace period must be whole minutes")
+    .min(0, "Grace period can't be negative")
+    .max(240, "Grace period can be at most 240 minutes"),
+  late_weight: weight("Late"),
+  excused_weight: weight("Excused"),
+  left_early_weight: weight("Left early"),
+  required_attendance_pct: z.coerce
+    .number()
+    .min(0, "Required attendance must be between 0 and 100%")
+    .max(100, "Required attendance must be between 0 and 100%"),
+});
+
+export const describeAttendanceRules = (rules: AttendanceRules) =>
+  `Late after ${rules.late_grace_minutes} min · late counts ${Math.round(Number(rules.late_weight) * 100)}%, ` +
+  `left early ${Math.round(Number(rules.left_early_weight) * 100)}%, ` +
+  `excused ${Math.round(Number(rules.excused_weight) * 100)}% · ${rules.required_attendance_pct}% required`;
+
+// Below the course's required percentage, once at least one session has been held
+export const isAtRisk = (summary: Pick<StudentAttendanceSummary, "attendance_pct" | "required_attendance_pct">) =>
+  summary.attendance_pct !== null && Number(summary.attendance_pct) < Number(summary.required_attendance_pct);
+
+export type AttendanceBand = "good" | "fair" | "poor";
+
+// Points below the required percentage that still count as fair
+export const FAIR_ATTENDANCE_MARGIN = 15;
+
+// Good at or above the course's required percentage, fair within
+// FAIR_ATTENDANCE_MARGIN points below it, poor further down
+export const attendanceBand = (pct: number, required: number): AttendanceBand => {
+  if (pct >= required) return "good";
+  return pct >= required - FAIR_ATTENDANCE_MARGIN ? "fair" : "poor";
+};
+
+// Chart fills per band, and for a course with no held sessions yet
+export const attendanceBandFills: Record<AttendanceBand, string> = {
+  good: "#22c55e",
+  fair: "#eab308",
+  poor: "#ef4444",
+};
+export const NO_BAND_FILL = "#94a3b8";
+
+// Result codes returned by the set_attendance_status RPC
+export type SetAttendanceResult = "ok" | "unchanged" | "session_not_found" | "not_enrolled" | "reason_required";
+
+export const setAttendanceErrorMessages: Record<Exclude<SetAttendanceResult, "ok">, string> = {
+  unchanged: "The student already has this status.",
+  session_not_found: "This session no longer exists.",
+  not_enrolled: "This student is not on the course roster.",
+  reason_required: "Enter a reason for the change.",
+};
+
+// True for records created or changed by staff rather than by a scan
+export const isManuallyEdited = (record: Pick<Tables<"attendance_records">, "source" | "edited_at">) =>
+  record.source === "manual" || record.edited_at !== null;
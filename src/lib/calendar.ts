@@ -0,0 +1,82 @@
+import { Tables } from "@/integrations/supabase/types";
+import {
+  attendanceBand,
+  AttendanceStatus,
+  DEFAULT_ATTENDANCE_RULES,
+  FAIR_ATTENDANCE_MARGIN,
+} from "@/lib/attendance";
+import { endOfMonth, endOfWeek, startOfMonth, startOfWeek } from "date-fns";
+
+export type CalendarView = "month" | "week";
+
+// Students see their own outcome, professors see how many turned up
+export type CalendarTone = "attended" | "missed" | "excused" | "upcoming" | "good" | "fair" | "poor";
+
+export interface CalendarSession {
+  id: string;
+  courseCode: string;
+  courseName: string;
+  startsAt: Date;
+  endsAt: Date;
+  room: string | null;
+  tone: CalendarTone;
+  detail: string;
+  href?: string;
+}
+
+export const calendarToneLabels: Record<CalendarTone, string> = {
+  attended: "Attended",
+  missed: "Missed",
+  excused: "Excused",
+  upcoming: "Upcoming",
+  good: "Meets requirement",
+  fair: `Up to ${FAIR_ATTENDANCE_MARGIN} points below`,
+  poor: `More than ${FAIR_ATTENDANCE_MARGIN} points below`,
+};
+
+export const calendarToneClasses: Record<CalendarTone, string> = {
+  attended: "bg-green-500",
+  missed: "bg-red-500",
+  excused: "bg-blue-500",
+  upcoming: "bg-muted-foreground/40",
+  good: "bg-green-500",
+  fair: "bg-yellow-500",
+  poor: "bg-red-500",
+};
+
+export const STUDENT_CALENDAR_TONES: CalendarTone[] = ["attended", "missed", "excused", "upcoming"];
+export const PROFESSOR_CALENDAR_TONES: CalendarTone[] = ["good", "fair", "poor", "upcoming"];
+
+// Weeks start on Monday to match the university timetable
+export const visibleRange = (view: CalendarView, cursor: Date) =>
+  view === "month"
+    ? {
+        from: startOfWeek(startOfMonth(cursor), { weekStartsOn: 1 }),
+        to: endOfWeek(endOfMonth(cursor), { weekStartsOn: 1 }),
+      }
+    : { from: startOfWeek(cursor, { weekStartsOn: 1 }), to: endOfWeek(cursor, { weekStartsOn: 1 }) };
+
+const isUpcoming = (session: Pick<Tables<"class_sessions">, "status" | "starts_at">) =>
+  session.status === "scheduled" || new Date(session.starts_at) > new Date();
+
+// A session with no record counts as missed once it has started
+export const studentSessionTone = (
+  session: Pick<Tables<"class_sessions">, "status" | "starts_at">,
+  status: AttendanceStatus | undefined,
+): CalendarTone => {
+  if (status === "excused") return "excused";
+  if (status && status !== "absent") return "attended";
+  // Still possible to check in while the session is open
+  if (session.status === "open" || isUpcoming(session)) return "upcoming";
+  return "missed";
+};
+
+// Banded against the course's required attendance, like the analytics charts
+export const turnoutTone = (
+  session: Pick<Tables<"class_sessions">, "status" | "starts_at">,
+  attendancePct: number | null | undefined,
+  requiredPct: number = DEFAULT_ATTENDANCE_RULES.required_attendance_pct,
+): CalendarTone => {
+  if (isUpcoming(session) || attendancePct === null || attendancePct === undefined) return "upcoming";
+  return attendanceBand(attendancePct, requiredPct);
+};
@@ -0,0 +1,88 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database, Tables } from "@/integrations/supabase/types";
+import { qrTokenErrorMessages, QrTokenStatus } from "@/lib/qr-token";
+import { FLAGGED_GEOFENCE_STATUSES } from "@/lib/geofence";
+
+// Result codes returned by the check_in RPC
+export type CheckInStatus =
+  | QrTokenStatus
+  | "duplicate"
+  | "not_enrolled"
+  | "no_open_session"
+  | "out_of_range"
+  | "low_accuracy"
+  | "no_location"
+  | "stale";
+
+export type CheckInResult = Omit<Database["public"]["Functions"]["check_in"]["Returns"][number], "status"> & {
+  status: CheckInStatus;
+};
+
+export interface CheckInLocation {
+  lat: number;
+  lng: number;
+  accuracy: number;
+}
+
+// Check-ins staff should look at: outside the geofence or with poor location,
+// and every one submitted from the offline queue, since its scan time was
+// reported by the student's device
+export const needsReview = (record: Pick<Tables<"attendance_records">, "geofence_status" | "synced_at">) =>
+  record.synced_at !== null ||
+  (!!record.geofence_status && FLAGGED_GEOFENCE_STATUSES.includes(record.geofence_status));
+
+// The same rule as a PostgREST or() filter
+export const NEEDS_REVIEW_FILTER = `synced_at.not.is.null,geofence_status.in.(${FLAGGED_GEOFENCE_STATUSES.join(",")})`;
+
+export const checkInErrorMessages: Record<
+  Exclude<CheckInStatus, "ok" | "duplicate">,
+  { title: string; description: string }
+> = {
+  ...qrTokenErrorMessages,
+  not_enrolled: {
+    title: "Not enrolled",
+    description: "You are not on the roster for this course. Ask your professor to add you.",
+  },
+  no_open_session: {
+    title: "Check-in is closed",
+    description: "There is no open check-in window for this course right now.",
+  },
+  out_of_range: {
+    title: "Too far from the classroom",
+    description: "Your location is outside this room's check-in area.",
+  },
+  low_accuracy: {
+    title: "Location too imprecise",
+    description: "Your GPS accuracy is too low. Move near a window or turn on precise location and try again.",
+  },
+  no_location: {
+    title: "Location required",
+    description: "This class requires location access to check in. Enable it and scan again.",
+  },
+  stale: {
+    title: "Check-in too old",
+    description: "This offline check-in did not reach the server within 2 minutes of scanning. Scan the code again.",
+  },
+};
+
+// Checks the current user in with a scanned token. All validation happens in
+// the check_in function; the returned status says what happened. Pass scannedAt
+// for check-ins submitted from the offline queue.
+export async function submitCheckIn(
+  token: string,
+  location: CheckInLocation | null,
+  scannedAt?: Date,
+): Promise<CheckInResult> {
+  const { data, error } = await supabase
+    .rpc("check_in", {
+      _token: token.trim(),
+      _latitude: location?.lat,
+      _longitude: location?.lng,
+      _accuracy: location?.accuracy,
+      _scanned_at: scannedAt?.toISOString(),
+    })
+    .single();
+
+  if (error) throw error;
+  return data as CheckInResult;
+}
@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { attendanceRulesSchema } from "@/lib/attendance";
+
+export const courseSchema = z
+  .object({
+    name: z.string().min(1, "Course name is required"),
+    code: z.string().min(1, "Course code is required"),
+    timezone: z.string().trim().min(1, "Timezone is required"),
+  })
+  .merge(attendanceRulesSchema);
+
+// Reads the course form shared by the create and edit pages
+export const parseCourseForm = (formData: FormData) =>
+  courseSchema.parse({
+    name: formData.get("name"),
+    code: formData.get("code"),
+    timezone: formData.get("timezone"),
+    late_grace_minutes: formData.get("late_grace_minutes"),
+    late_weight: formData.get("late_weight"),
+    excused_weight: formData.get("excused_weight"),
+    left_early_weight: formData.get("left_early_weight"),
+    required_attendance_pct: formData.get("required_attendance_pct"),
+  });
+
+// Result codes returned by the set_course_archived RPC
+export type SetCourseArchivedResult = "ok" | "not_found";
@@ -0,0 +1,70 @@
+import { StudentAttendanceSummary } from "@/lib/attendance";
+
+export const MERGE_FIELDS = [
+  { key: "student_name", description: "Student's full name" },
+  { key: "course_code", description: "Course code, e.g. CS101" },
+  { key: "course_name", description: "Course name" },
+  { key: "attendance_pct", description: "Current attendance percentage" },
+  { key: "missed_sessions", description: "Number of sessions missed" },
+] as const;
+
+export type MergeFieldKey = (typeof MERGE_FIELDS)[number]["key"];
+export type MergeFields = Record<MergeFieldKey, string>;
+
+export interface TemplateContent {
+  subject: string;
+  body_text: string;
+  body_html: string | null;
+}
+
+// Mirrors the built-in template in supabase/functions/_shared/mail/templates.ts
+export const DEFAULT_WARNING_TEMPLATE: TemplateContent = {
+  subject: "Attendance warning for {{course_code}}",
+  body_text: [
+    "Hi {{student_name}},",
+    "",
+    "Your attendance in {{course_name}} ({{course_code}}) is currently {{attendance_pct}}%,",
+    "and you have missed {{missed_sessions}} session(s).",
+    "",
+    "Please make sure to attend upcoming classes or contact your professor if you have any questions.",
+  ].join("\n"),
+  body_html: null,
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+export function renderMergeFields(template: string, fields: MergeFields, html = false): string {
+  return template.replace(/\{\{\s*([a-z_]+)\s*\}\}/g, (match, key: string) => {
+    // Own keys only, so {{constructor}} or {{__proto__}} stay literal
+    if (!Object.prototype.hasOwnProperty.call(fields, key)) return match;
+    const value = fields[key as MergeFieldKey];
+    return html ? escapeHtml(value) : value;
+  });
+}
+
+export function renderTemplate(template: TemplateContent, fields: MergeFields) {
+  return {
+    subject: renderMergeFields(template.subject, fields),
+    text: renderMergeFields(template.body_text, fields),
+    html: template.body_html ? renderMergeFields(template.body_html, fields, true) : null,
+  };
+}
+
+export const unknownMergeFields = (template: string) =>
+  Array.from(template.matchAll(/\{\{\s*([a-z_]+)\s*\}\}/g))
+    .map((match) => match[1])
+    .filter((key) => !MERGE_FIELDS.some((field) => field.key === key));
+
+export const mergeFieldsFromSummary = (summary: StudentAttendanceSummary): MergeFields => ({
+  student_name: summary.full_name || summary.email,
+  course_code: summary.course_code,
+  course_name: summary.course_name,
+  attendance_pct: String(summary.attendance_pct ?? 0),
+  missed_sessions: String(summary.sessions_held - summary.sessions_attended),
+});
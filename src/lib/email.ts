@@ -0,0 +1,29 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface WarningRecipient {
+  student_id: string;
+  course_id: string;
+}
+
+export interface EmailSendResult extends WarningRecipient {
+  email: string | null;
+  outbox_id: string | null;
+  status: "sent" | "failed" | "skipped";
+  error: string | null;
+}
+
+// Sends low-attendance warnings through the mail edge function. Every attempt
+// is recorded in email_outbox with its delivery status. Without a templateId
+// the built-in warning template is used.
+export async function sendAttendanceWarnings(
+  recipients: WarningRecipient[],
+  templateId: string | null = null,
+): Promise<EmailSendResult[]> {
+  const { data, error } = await supabase.functions.invoke<{ results: EmailSendResult[] }>(
+    "send-attendance-warnings",
+    { body: { recipients, template_id: templateId } },
+  );
+
+  if (error) throw error;
+  return data?.results ?? [];
+}
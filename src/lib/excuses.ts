@@ -0,0 +1,80 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import { setAttendanceErrorMessages, SetAttendanceResult } from "@/lib/attendance";
+
+export type ExcuseCategory = Database["public"]["Enums"]["excuse_category"];
+export type ExcuseStatus = Database["public"]["Enums"]["excuse_status"];
+
+export const EXCUSE_DOCUMENTS_BUCKET = "excuse-documents";
+
+// Matches the bucket's file_size_limit and allowed_mime_types
+export const MAX_EXCUSE_DOCUMENT_BYTES = 10 * 1024 * 1024;
+export const EXCUSE_DOCUMENT_TYPES = ["application/pdf", "image/jpeg", "image/png", "image/heic", "image/webp"];
+
+export const excuseCategoryLabels: Record<ExcuseCategory, string> = {
+  illness: "Illness or medical",
+  family: "Family emergency",
+  religious: "Religious observance",
+  university_activity: "University activity",
+  other: "Other",
+};
+
+export const excuseStatusLabels: Record<ExcuseStatus, string> = {
+  pending: "Pending review",
+  approved: "Approved",
+  denied: "Denied",
+};
+
+export const excuseStatusBadgeVariants: Record<ExcuseStatus, "default" | "secondary" | "destructive"> = {
+  pending: "secondary",
+  approved: "default",
+  denied: "destructive",
+};
+
+// Result codes returned by the review_excuse_request RPC
+export type ReviewExcuseResult =
+  | "ok"
+  | "not_found"
+  | "already_reviewed"
+  | "comment_required"
+  | Exclude<SetAttendanceResult, "ok" | "unchanged">;
+
+export const reviewExcuseErrorMessages: Record<Exclude<ReviewExcuseResult, "ok">, string> = {
+  ...setAttendanceErrorMessages,
+  not_found: "This request no longer exists.",
+  already_reviewed: "This request has already been reviewed.",
+  comment_required: "Add a comment explaining why the request is denied.",
+};
+
+// Documents live under the student's own folder, which the storage policies require
+export async function uploadExcuseDocument(userId: string, file: File): Promise<string> {
+  const safeName = file.name.replace(/[^\w.-]+/g, "_");
+  const path = `${userId}/${crypto.randomUUID()}-${safeName}`;
+
+  const { error } = await supabase.storage
+    .from(EXCUSE_DOCUMENTS_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false });
+
+  if (error) throw error;
+  return path;
+}
+
+// The bucket is private, so documents are opened through a short-lived link.
+// The tab is opened before the link is fetched, while the click still counts as
+// a user gesture; popup blockers drop window.open calls made after an await.
+export async function openExcuseDocument(path: string) {
+  const tab = window.open("", "_blank");
+  if (tab) tab.opener = null;
+
+  const { data, error } = await supabase.storage.from(EXCUSE_DOCUMENTS_BUCKET).createSignedUrl(path, 60);
+  if (error) {
+    tab?.close();
+    throw error;
+  }
+
+  if (tab) {
+    tab.location.href = data.signedUrl;
+  } else {
+    window.open(data.signedUrl, "_blank", "noopener");
+  }
+}
@@ -0,0 +1,56 @@
+import { Database } from "@/integrations/supabase/types";
+
+export type GeofenceStatus = Database["public"]["Enums"]["geofence_status"];
+export type GeofenceMode = Database["public"]["Enums"]["geofence_mode"];
+
+// Statuses a professor should review; "inside" and "not_configured" are fine
+export const FLAGGED_GEOFENCE_STATUSES: GeofenceStatus[] = ["outside", "low_accuracy", "no_location"];
+
+export const geofenceStatusLabels: Record<GeofenceStatus, string> = {
+  inside: "Inside room",
+  outside: "Outside room",
+  low_accuracy: "Low GPS accuracy",
+  no_location: "No location",
+  not_configured: "No geofence",
+};
+
+export const geofenceModeLabels: Record<GeofenceMode, string> = {
+  off: "Off (record location only)",
+  flag: "Flag check-ins outside the fence",
+  reject: "Reject check-ins outside the fence",
+};
+
+// Parses a polygon entered as JSON [[lat, lng], ...]. Returns an error string
+// for anything the database check constraint would refuse.
+export function parseBoundary(input: string): { boundary: [number, number][] } | { error: string } {
+  let value: unknown;
+  try {
+    value = JSON.parse(input);
+  } catch {
+    return { error: "Boundary must be valid JSON, e.g. [[51.5, -0.12], [51.5, -0.11], [51.49, -0.11]]" };
+  }
+
+  if (!Array.isArray(value) || value.length < 3) {
+    return { error: "Boundary needs at least three [lat, lng] points" };
+  }
+
+  for (const point of value) {
+    if (
+      !Array.isArray(point) ||
+      point.length !== 2 ||
+      typeof point[0] !== "number" ||
+      typeof point[1] !== "number" ||
+      Math.abs(point[0]) > 90 ||
+      Math.abs(point[1]) > 180
+    ) {
+      return { error: "Every boundary point must be a [lat, lng] pair of numbers" };
+    }
+  }
+
+  return { boundary: value as [number, number][] };
+}
+
+export function formatMetres(value: number | null): string {
+  if (value === null) return "—";
+  return value >= 1000 ? `${(value / 1000).toFixed(1)} km` : `${Math.round(value)} m`;
+}
@@ -0,0 +1,145 @@
+import { CheckInLocation, CheckInStatus, checkInErrorMessages, submitCheckIn } from "@/lib/check-in";
+
+// Check-ins captured while offline (or when the request failed on the way),
+// kept in IndexedDB until they can be submitted.
+
+export type QueuedCheckInState = "pending" | "synced" | "rejected";
+
+export interface QueuedCheckIn {
+  id: string;
+  user_id: string;
+  token: string;
+  scanned_at: string;
+  location: CheckInLocation | null;
+  state: QueuedCheckInState;
+  result_status: CheckInStatus | null;
+  course_name: string | null;
+  message: string | null;
+  attempts: number;
+  updated_at: string;
+}
+
+const DB_NAME = "attendtrack";
+const DB_VERSION = 1;
+const STORE = "check_in_queue";
+
+// Fired on window whenever the queue changes so open views can refresh
+export const QUEUE_CHANGED_EVENT = "attendtrack:check-in-queue";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: "id" });
+      store.createIndex("user_id", "user_id");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+const notifyChanged = () => window.dispatchEvent(new Event(QUEUE_CHANGED_EVENT));
+
+async function putQueuedCheckIn(item: QueuedCheckIn) {
+  await withStore("readwrite", (store) => store.put(item));
+  notifyChanged();
+}
+
+export async function enqueueCheckIn(
+  userId: string,
+  token: string,
+  scannedAt: Date,
+  location: CheckInLocation | null,
+): Promise<QueuedCheckIn> {
+  const item: QueuedCheckIn = {
+    id: crypto.randomUUID(),
+    user_id: userId,
+    token: token.trim(),
+    scanned_at: scannedAt.toISOString(),
+    location,
+    state: "pending",
+    result_status: null,
+    course_name: null,
+    message: null,
+    attempts: 0,
+    updated_at: new Date().toISOString(),
+  };
+  await putQueuedCheckIn(item);
+  return item;
+}
+
+export async function listQueuedCheckIns(userId: string): Promise<QueuedCheckIn[]> {
+  const items = await withStore<QueuedCheckIn[]>("readonly", (store) => store.index("user_id").getAll(userId));
+  return items.sort((a, b) => b.scanned_at.localeCompare(a.scanned_at));
+}
+
+export async function removeQueuedCheckIn(id: string) {
+  await withStore("readwrite", (store) => store.delete(id));
+  notifyChanged();
+}
+
+// Connectivity failures leave a check-in queued; anything the server answered is final
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  const message = (error as { message?: string } | null)?.message ?? "";
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+}
+
+let syncing: Promise<void> | null = null;
+
+// Submits every pending check-in for the user, oldest first. The server judges
+// each one at its scanned_at, so a token that was valid when scanned still counts.
+export function syncQueuedCheckIns(userId: string): Promise<void> {
+  if (syncing) return syncing;
+
+  syncing = (async () => {
+    const pending = (await listQueuedCheckIns(userId)).filter((item) => item.state === "pending").reverse();
+
+    for (const item of pending) {
+      try {
+        const result = await submitCheckIn(item.token, item.location, new Date(item.scanned_at));
+        const accepted = result.status === "ok" || result.status === "duplicate";
+
+        await putQueuedCheckIn({
+          ...item,
+          state: accepted ? "synced" : "rejected",
+          result_status: result.status,
+          course_name: result.course_name,
+          message: accepted ? null : checkInErrorMessages[result.status].description,
+          attempts: item.attempts + 1,
+          updated_at: new Date().toISOString(),
+        });
+      } catch (error) {
+        if (isNetworkError(error)) break;
+
+        await putQueuedCheckIn({
+          ...item,
+          state: "rejected",
+          message: (error as Error).message,
+          attempts: item.attempts + 1,
+          updated_at: new Date().toISOString(),
+        });
+      }
+    }
+  })().finally(() => {
+    syncing = null;
+  });
+
+  return syncing;
+}
@@ -0,0 +1,39 @@
+export type QrTokenStatus =
+  | "ok"
+  | "malformed"
+  | "invalid_signature"
+  | "expired"
+  | "replayed"
+  | "course_not_found";
+
+export const QR_TOKEN_PREFIX = "AT1.";
+
+// Seconds between live QR rotations. Tokens stay valid a little longer than
+// this so a student who scans just before a rotation still gets in.
+export const QR_ROTATION_SECONDS = 20;
+export const QR_TOKEN_TTL_SECONDS = 45;
+
+export const isSignedQrToken = (value: string) => value.trim().startsWith(QR_TOKEN_PREFIX);
+
+export const qrTokenErrorMessages: Record<Exclude<QrTokenStatus, "ok">, { title: string; description: string }> = {
+  malformed: {
+    title: "Invalid QR Code",
+    description: "This is not an AttendTrack check-in code. Ask your professor to display the current code.",
+  },
+  invalid_signature: {
+    title: "QR Code rejected",
+    description: "This QR code failed verification and may have been altered.",
+  },
+  expired: {
+    title: "QR Code expired",
+    description: "This code has already rotated. Scan the code currently displayed in class.",
+  },
+  replayed: {
+    title: "QR Code already used",
+    description: "You've already used this code. Scan the code currently displayed in class.",
+  },
+  course_not_found: {
+    title: "Course not found",
+    description: "The scanned QR code references a course that doesn't exist.",
+  },
+};
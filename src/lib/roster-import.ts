@@ -0,0 +1,118 @@
+import { z } from "zod";
+import { parseCsv } from "@/lib/csv";
+
+export interface RosterRow {
+  line: number;
+  studentNumber: string;
+  fullName: string;
+  email: string;
+  section: string;
+  errors: string[];
+}
+
+export type RosterChange = "add" | "invite" | "unchanged" | "remove";
+
+export interface RosterDiffEntry {
+  email: string;
+  fullName: string;
+  section: string;
+  change: RosterChange;
+}
+
+// Status codes returned by the apply_roster_import RPC
+export type RosterImportStatus = "ok" | "archived";
+
+export interface CurrentRosterEntry {
+  email: string;
+  fullName: string;
+}
+
+const HEADER_ALIASES: Record<keyof Omit<RosterRow, "line" | "errors">, string[]> = {
+  studentNumber: ["student id", "student_id", "studentid", "id", "student number"],
+  fullName: ["name", "full name", "full_name", "student name"],
+  email: ["email", "e-mail", "email address"],
+  section: ["section", "sec"],
+};
+
+const emailSchema = z.string().email();
+
+export function parseRosterCsv(text: string): { rows: RosterRow[]; error: string | null } {
+  const [header, ...lines] = parseCsv(text);
+
+  if (!header) {
+    return { rows: [], error: "The file is empty." };
+  }
+
+  const normalized = header.map((h) => h.trim().toLowerCase());
+  const columnIndex = (key: keyof typeof HEADER_ALIASES) =>
+    normalized.findIndex((h) => HEADER_ALIASES[key].includes(h));
+
+  const columns = {
+    studentNumber: columnIndex("studentNumber"),
+    fullName: columnIndex("fullName"),
+    email: columnIndex("email"),
+    section: columnIndex("section"),
+  };
+
+  if (columns.email === -1) {
+    return { rows: [], error: "The file must have an email column." };
+  }
+
+  const seen = new Set<string>();
+  const rows = lines.map((values, index) => {
+    const value = (column: number) => (column === -1 ? "" : (values[column] ?? "").trim());
+    const row: RosterRow = {
+      line: index + 2,
+      studentNumber: value(columns.studentNumber),
+      fullName: value(columns.fullName),
+      email: value(columns.email).toLowerCase(),
+      section: value(columns.section),
+      errors: [],
+    };
+
+    if (!row.email) {
+      row.errors.push("Missing email");
+    } else if (!emailSchema.safeParse(row.email).success) {
+      row.errors.push("Invalid email");
+    } else if (seen.has(row.email)) {
+      row.errors.push("Duplicate email");
+    }
+    seen.add(row.email);
+
+    return row;
+  });
+
+  return { rows, error: null };
+}
+
+// Compares valid import rows against the current roster. Emails without an
+// account become invitations instead of enrollments.
+export function diffRoster(
+  rows: RosterRow[],
+  current: CurrentRosterEntry[],
+  knownEmails: Set<string>,
+): RosterDiffEntry[] {
+  const currentEmails = new Set(current.map((entry) => entry.email.toLowerCase()));
+  const importedEmails = new Set<string>();
+  const diff: RosterDiffEntry[] = [];
+
+  rows
+    .filter((row) => row.errors.length === 0)
+    .forEach((row) => {
+      importedEmails.add(row.email);
+      diff.push({
+        email: row.email,
+        fullName: row.fullName,
+        section: row.section,
+        change: currentEmails.has(row.email) ? "unchanged" : knownEmails.has(row.email) ? "add" : "invite",
+      });
+    });
+
+  current
+    .filter((entry) => !importedEmails.has(entry.email.toLowerCase()))
+    .forEach((entry) => {
+      diff.push({ email: entry.email, fullName: entry.fullName, section: "", change: "remove" });
+    });
+
+  return diff;
+}
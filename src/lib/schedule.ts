@@ -0,0 +1,111 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { AcademicTerm } from "@/lib/terms";
+import { z } from "zod";
+
+export type CourseSchedule = Tables<"course_schedules">;
+
+// ISO weekdays, as stored in course_schedules.days_of_week
+export const WEEKDAYS = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 7, label: "Sun" },
+];
+
+export interface ScheduleDraft {
+  days_of_week: number[];
+  start_time: string;
+  end_time: string;
+  term_starts_on: string;
+  term_ends_on: string;
+  excluded_dates: string[];
+  check_in_window_minutes: number | string;
+}
+
+export const EMPTY_SCHEDULE: ScheduleDraft = {
+  days_of_week: [],
+  start_time: "10:00",
+  end_time: "11:15",
+  term_starts_on: "",
+  term_ends_on: "",
+  excluded_dates: [],
+  check_in_window_minutes: 15,
+};
+
+const date = (label: string) => z.string().regex(/^\d{4}-\d{2}-\d{2}$/, `${label} is required`);
+
+export const scheduleSchema = z
+  .object({
+    days_of_week: z.array(z.number().int().min(1).max(7)).min(1, "Pick at least one meeting day"),
+    start_time: z.string().regex(/^\d{2}:\d{2}$/, "Start time is required"),
+    end_time: z.string().regex(/^\d{2}:\d{2}$/, "End time is required"),
+    term_starts_on: date("Term start date"),
+    term_ends_on: date("Term end date"),
+    excluded_dates: z.array(date("Holiday date")),
+    check_in_window_minutes: z.coerce
+      .number()
+      .int("Check-in window must be whole minutes")
+      .min(1, "Check-in window must be at least 1 minute")
+      .max(480, "Check-in window can be at most 480 minutes"),
+  })
+  .refine((schedule) => schedule.end_time > schedule.start_time, {
+    message: "Classes must end after they start",
+  })
+  .refine((schedule) => schedule.term_ends_on >= schedule.term_starts_on, {
+    message: "The term must end after it starts",
+  });
+
+// Postgres returns TIME as HH:MM:SS; time inputs want HH:MM
+export const toScheduleDraft = (schedule: CourseSchedule): ScheduleDraft => ({
+  days_of_week: schedule.days_of_week,
+  start_time: schedule.start_time.slice(0, 5),
+  end_time: schedule.end_time.slice(0, 5),
+  term_starts_on: schedule.term_starts_on,
+  term_ends_on: schedule.term_ends_on,
+  excluded_dates: schedule.excluded_dates,
+  check_in_window_minutes: schedule.check_in_window_minutes,
+});
+
+export const describeSchedule = (schedule: Pick<ScheduleDraft, "days_of_week" | "start_time" | "end_time">) =>
+  `${WEEKDAYS.filter((day) => schedule.days_of_week.includes(day.value))
+    .map((day) => day.label)
+    .join(", ")} · ${schedule.start_time.slice(0, 5)}–${schedule.end_time.slice(0, 5)}`;
+
+// Saves the pattern and regenerates upcoming sessions. Returns how many
+// upcoming sessions the course now has.
+export async function saveCourseSchedule(courseId: string, draft: ScheduleDraft, roomId: string | null) {
+  const schedule = scheduleSchema.parse(draft);
+
+  const { error } = await supabase.from("course_schedules").upsert(
+    {
+      course_id: courseId,
+      room_id: roomId,
+      days_of_week: [...schedule.days_of_week].sort((a, b) => a - b),
+      start_time: schedule.start_time,
+      end_time: schedule.end_time,
+      term_starts_on: schedule.term_starts_on,
+      term_ends_on: schedule.term_ends_on,
+      excluded_dates: [...schedule.excluded_dates].sort(),
+      check_in_window_minutes: schedule.check_in_window_minutes,
+    },
+    { onConflict: "course_id" },
+  );
+  if (error) throw error;
+
+  const { data, error: generateError } = await supabase.rpc("generate_course_sessions", { _course_id: courseId });
+  if (generateError) throw generateError;
+  return data ?? 0;
+}
+
+// A term's dates and holidays, used to prefill a course's schedule
+export const scheduleDatesFromTerm = (
+  term: Pick<AcademicTerm, "starts_on" | "ends_on" | "holidays">,
+): Pick<ScheduleDraft, "term_starts_on" | "term_ends_on" | "excluded_dates"> => ({
+  term_starts_on: term.starts_on,
+  term_ends_on: term.ends_on,
+  excluded_dates: [...term.holidays].sort(),
+});
@@ -0,0 +1,37 @@
+// Registers /sw.js (emitted by the production build only) and reports when a
+// new version has been installed and is waiting to take over.
+export function registerServiceWorker(onUpdateReady: (applyUpdate: () => void) => void) {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+  let reloading = false;
+  navigator.serviceWorker.addEventListener("controllerchange", () => {
+    if (reloading) return;
+    reloading = true;
+    window.location.reload();
+  });
+
+  const notify = (worker: ServiceWorker) => {
+    onUpdateReady(() => worker.postMessage({ type: "SKIP_WAITING" }));
+  };
+
+  navigator.serviceWorker
+    .register("/sw.js", { updateViaCache: "none" })
+    .then((registration) => {
+      // A previous visit may already have downloaded an update
+      if (registration.waiting && navigator.serviceWorker.controller) notify(registration.waiting);
+
+      registration.addEventListener("updatefound", () => {
+        const worker = registration.installing;
+        worker?.addEventListener("statechange", () => {
+          // With no controller this is the first install, not an update
+          if (worker.state === "installed" && navigator.serviceWorker.controller) notify(worker);
+        });
+      });
+
+      // Installed apps stay open for days; check for a new build when brought back
+      document.addEventListener("visibilitychange", () => {
+        if (document.visibilityState === "visible") registration.update().catch(() => undefined);
+      });
+    })
+    .catch((error) => console.error("Service worker registration failed:", error));
+}
@@ -0,0 +1,32 @@
+import { Tables } from "@/integrations/supabase/types";
+import { z } from "zod";
+
+export type AcademicTerm = Tables<"academic_terms">;
+
+// Select value for "every term", alongside term ids
+export const ALL_TERMS = "all";
+
+// Result codes returned by the set_active_term RPC
+export type SetActiveTermResult = "ok" | "not_found";
+
+const date = (label: string) => z.string().regex(/^\d{4}-\d{2}-\d{2}$/, `${label} is required`);
+
+export const termSchema = z
+  .object({
+    name: z.string().trim().min(1, "Term name is required").max(100, "Term name must be at most 100 characters"),
+    starts_on: date("Start date"),
+    ends_on: date("End date"),
+    holidays: z.array(date("Holiday date")),
+  })
+  .refine((term) => term.ends_on >= term.starts_on, { message: "The term must end after it starts" });
+
+// Label for a course's term, falling back to the legacy free-text fields
+export const courseTermLabel = (
+  course: Pick<Tables<"courses">, "term_id" | "semester" | "year">,
+  terms: Pick<AcademicTerm, "id" | "name">[],
+) => {
+  const term = terms.find((t) => t.id === course.term_id);
+  if (term) return term.name;
+  const legacy = [course.semester, course.year].filter(Boolean).join(" ");
+  return legacy || "No term";
+};
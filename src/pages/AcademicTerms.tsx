@@ -0,0 +1,364 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useNavigate } from "react-router-dom";
+import { useToast } from "@/hooks/use-toast";
+import { useAcademicTerms } from "@/hooks/use-academic-terms";
+import HolidayDatesField from "@/components/HolidayDatesField";
+import { format, parseISO } from "date-fns";
+import { AcademicTerm, SetActiveTermResult, termSchema } from "@/lib/terms";
+import { QrCode, ArrowLeft, CalendarRange, Pencil, Plus, Trash2 } from "lucide-react";
+import { z } from "zod";
+
+interface TermDraft {
+  name: string;
+  starts_on: string;
+  ends_on: string;
+  holidays: string[];
+}
+
+const EMPTY_TERM: TermDraft = { name: "", starts_on: "", ends_on: "", holidays: [] };
+
+type UnassignedCourse = Pick<Tables<"courses">, "id" | "code" | "name" | "semester" | "year">;
+
+const formatDate = (date: string) => format(parseISO(date), "MMM d, yyyy");
+
+// Admin management of academic terms, including assigning courses that still
+// only have the legacy free-text semester/year
+const AcademicTerms = () => {
+  const { terms, reload } = useAcademicTerms();
+  const [draft, setDraft] = useState<TermDraft>(EMPTY_TERM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [unassigned, setUnassigned] = useState<UnassignedCourse[]>([]);
+  const [saving, setSaving] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const loadUnassigned = async () => {
+    const { data, error } = await supabase
+      .from("courses")
+      .select("id, code, name, semester, year")
+      .is("term_id", null)
+      .order("code", { ascending: true });
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading courses",
+        description: error.message,
+      });
+    } else {
+      setUnassigned(data || []);
+    }
+  };
+
+  useEffect(() => {
+    loadUnassigned();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const startEditing = (term: AcademicTerm) => {
+    setEditingId(term.id);
+    setDraft({ name: term.name, starts_on: term.starts_on, ends_on: term.ends_on, holidays: term.holidays });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setDraft(EMPTY_TERM);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const data = termSchema.parse(draft);
+      const values = {
+        name: data.name,
+        starts_on: data.starts_on,
+        ends_on: data.ends_on,
+        holidays: [...data.holidays].sort(),
+      };
+
+      const { error } = editingId
+        ? await supabase.from("academic_terms").update(values).eq("id", editingId)
+        : await supabase.from("academic_terms").insert(values);
+
+      if (error) {
+        throw error.code === "23505" ? new Error(`A term called "${data.name}" already exists.`) : error;
+      }
+
+      toast({
+        title: editingId ? "Term updated" : "Term created",
+        description: `${data.name} runs ${formatDate(data.starts_on)} to ${formatDate(data.ends_on)}.`,
+      });
+      resetForm();
+      reload();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to save term",
+        description: error instanceof z.ZodError ? error.errors[0].message : (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMakeActive = async (term: AcademicTerm) => {
+    const { data, error } = await supabase.rpc("set_active_term", { _term_id: term.id });
+    const result = data as SetActiveTermResult | null;
+
+    if (error || result !== "ok") {
+      toast({
+        variant: "destructive",
+        title: "Failed to change the active term",
+        description: error?.message || "This term no longer exists.",
+      });
+    } else {
+      toast({
+        title: "Active term changed",
+        description: `Dashboards now open on ${term.name}.`,
+      });
+      reload();
+    }
+  };
+
+  const handleDelete = async (term: AcademicTerm) => {
+    const { error } = await supabase.from("academic_terms").delete().eq("id", term.id);
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to delete term",
+        description: error.message,
+      });
+    } else {
+      if (editingId === term.id) resetForm();
+      reload();
+      loadUnassigned();
+    }
+  };
+
+  const handleAssign = async (course: UnassignedCourse, termId: string) => {
+    const { error } = await supabase.from("courses").update({ term_id: termId }).eq("id", course.id);
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to assign term",
+        description: error.message,
+      });
+    } else {
+      setUnassigned((current) => current.filter((c) => c.id !== course.id));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-secondary/30">
+      <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur shadow-soft">
+        <div className="container flex h-16 items-center justify-between px-4">
+          <div className="flex items-center gap-2 font-bold text-xl">
+            <QrCode className="w-6 h-6 text-primary" />
+            <span>AttendTrack</span>
+          </div>
+          <Button variant="ghost" onClick={() => navigate("/admin")}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </div>
+      </header>
+
+      <main className="container py-8 px-4">
+        <div className="max-w-4xl mx-auto space-y-8">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Academic Terms</h1>
+            <p className="text-muted-foreground">
+              Courses are filed under a term. The active term is what dashboards show by default.
+            </p>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                {editingId ? <Pencil className="w-5 h-5" /> : <Plus className="w-5 h-5" />}
+                {editingId ? "Edit Term" : "Add Term"}
+              </CardTitle>
+              <CardDescription>Holidays are skipped when courses in this term generate sessions</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="term-name">Name</Label>
+                  <Input
+                    id="term-name"
+                    placeholder="e.g. Fall 2026"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    required
+                    disabled={saving}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="term-starts">Starts</Label>
+                    <Input
+                      id="term-starts"
+                      type="date"
+                      value={draft.starts_on}
+                      max={draft.ends_on || undefined}
+                      onChange={(e) => setDraft({ ...draft, starts_on: e.target.value })}
+                      required
+                      disabled={saving}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="term-ends">Ends</Label>
+                    <Input
+                      id="term-ends"
+                      type="date"
+                      value={draft.ends_on}
+                      min={draft.starts_on || undefined}
+                      onChange={(e) => setDraft({ ...draft, ends_on: e.target.value })}
+                      required
+                      disabled={saving}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="term-holiday">Holidays</Label>
+                  <HolidayDatesField
+                    id="term-holiday"
+                    value={draft.holidays}
+                    onChange={(holidays) => setDraft({ ...draft, holidays })}
+                    min={draft.starts_on}
+                    max={draft.ends_on}
+                    disabled={saving}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button type="submit" disabled={saving}>
+                    {saving ? "Saving..." : editingId ? "Save Term" : "Add Term"}
+                  </Button>
+                  {editingId && (
+                    <Button type="button" variant="outline" onClick={resetForm} disabled={saving}>
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarRange className="w-5 h-5" />
+                Terms ({terms.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {terms.length === 0 ? (
+                <p className="text-muted-foreground text-center py-8">No terms yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Dates</TableHead>
+                      <TableHead>Holidays</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {terms.map((term) => (
+                      <TableRow key={term.id}>
+                        <TableCell className="font-medium">
+                          {term.name}
+                          {term.is_active && <Badge className="ml-2">Active</Badge>}
+                        </TableCell>
+                        <TableCell>
+                          {formatDate(term.starts_on)} – {formatDate(term.ends_on)}
+                        </TableCell>
+                        <TableCell>{term.holidays.length}</TableCell>
+                        <TableCell className="text-right space-x-1">
+                          {!term.is_active && (
+                            <Button variant="ghost" size="sm" onClick={() => handleMakeActive(term)}>
+                              Make active
+                            </Button>
+                          )}
+                          <Button variant="ghost" size="sm" onClick={() => startEditing(term)} title="Edit">
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(term)} title="Delete">
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {unassigned.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Courses Without a Term ({unassigned.length})</CardTitle>
+                <CardDescription>
+                  These courses only have a legacy free-text semester that couldn't be matched automatically
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Course</TableHead>
+                      <TableHead>Legacy semester</TableHead>
+                      <TableHead className="w-56">Term</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {unassigned.map((course) => (
+                      <TableRow key={course.id}>
+                        <TableCell>
+                          <p className="font-medium">{course.code}</p>
+                          <p className="text-xs text-muted-foreground">{course.name}</p>
+                        </TableCell>
+                        <TableCell>{[course.semester, course.year].filter(Boolean).join(" ") || "—"}</TableCell>
+                        <TableCell>
+                          <Select onValueChange={(termId) => handleAssign(course, termId)}>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Assign a term" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {terms.map((term) => (
+                                <SelectItem key={term.id} value={term.id}>
+                                  {term.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default AcademicTerms;
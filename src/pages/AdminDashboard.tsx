@@ -1,33 +1,32 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
-import { User } from "@supabase/supabase-js";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
-import { QrCode, Users, BarChart3, LogOut, Mail } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { QrCode, Users, BarChart3, LogOut, Mail, FileText, MapPin, CalendarRange } from "lucide-react";
+import ChatAnalytics from "@/components/ChatAnalytics";
+import RoleRequestQueue from "@/components/RoleRequestQueue";
+import AdminCourseList, { AdminCourse } from "@/components/AdminCourseList";
 
 const AdminDashboard = () => {
-  const [user, setUser] = useState<User | null>(null);
+  const { signOut } = useAuth();
   const [stats, setStats] = useState({
     totalStudents: 0,
     totalProfessors: 0,
     totalCourses: 0,
     totalAttendance: 0,
   });
+  const [courses, setCourses] = useState<AdminCourse[]>([]);
+  const [chatAnalyticsOpen, setChatAnalyticsOpen] = useState(false);
   const navigate = useNavigate();
   const { toast } = useToast();
 
   useEffect(() => {
-    supabase.auth.getUser().then(({ data: { user } }) => {
-      if (!user) {
-        navigate("/auth");
-      } else {
-        setUser(user);
-        loadStats();
-      }
-    });
-  }, [navigate]);
+    loadStats();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
   const loadStats = async () => {
     // Load students
@@ -45,7 +44,8 @@ const AdminDashboard = () => {
     // Load courses
     const { count: courseCount } = await supabase
       .from("courses")
-      .select("*", { count: "exact", head: true });
+      .select("*", { count: "exact", head: true })
+      .is("archived_at", null);
 
     // Load attendance records
     const { count: attendanceCount } = await supabase
@@ -58,10 +58,25 @@ const AdminDashboard = () => {
       totalCourses: courseCount || 0,
       totalAttendance: attendanceCount || 0,
     });
+
+    const { data: courseData, error: courseError } = await supabase
+      .from("courses")
+      .select("id, name, code, term_id, semester, year, archived_at")
+      .order("code", { ascending: true });
+
+    if (courseError) {
+      toast({
+        variant: "destructive",
+        title: "Error loading courses",
+        description: courseError.message,
+      });
+    } else {
+      setCourses(courseData || []);
+    }
   };
 
   const handleSignOut = async () => {
-    await supabase.auth.signOut();
+    await signOut();
     navigate("/");
   };
 
@@ -116,6 +131,10 @@ const AdminDashboard = () => {
             </Card>
           </div>
 
+          <RoleRequestQueue onReviewed={loadStats} />
+
+          <AdminCourseList courses={courses} onDeleted={loadStats} />
+
           <div className="grid md:grid-cols-2 gap-6">
             <Card>
               <CardHeader>
@@ -133,7 +152,7 @@ const AdminDashboard = () => {
                   <li>• "Show low attendance in Computer Science"</li>
                   <li>• "Generate bar chart of average attendance"</li>
                 </ul>
-                <Button className="w-full" variant="gradient">
+                <Button className="w-full" variant="gradient" onClick={() => setChatAnalyticsOpen(true)}>
                   Open Chat Interface
                 </Button>
               </CardContent>
@@ -159,6 +178,18 @@ const AdminDashboard = () => {
                   <Mail className="w-4 h-4 mr-2" />
                   Send Email
                 </Button>
+                <Button variant="outline" className="w-full" onClick={() => navigate("/admin/email-templates")}>
+                  <FileText className="w-4 h-4 mr-2" />
+                  Email Templates
+                </Button>
+                <Button variant="outline" className="w-full" onClick={() => navigate("/admin/rooms")}>
+                  <MapPin className="w-4 h-4 mr-2" />
+                  Rooms &amp; Geofences
+                </Button>
+                <Button variant="outline" className="w-full" onClick={() => navigate("/admin/terms")}>
+                  <CalendarRange className="w-4 h-4 mr-2" />
+                  Academic Terms
+                </Button>
               </CardContent>
             </Card>
           </div>
@@ -189,6 +220,12 @@ const AdminDashboard = () => {
           </Card>
         </div>
       </main>
+
+      <ChatAnalytics
+        open={chatAnalyticsOpen}
+        onOpenChange={setChatAnalyticsOpen}
+        courses={courses}
+      />
     </div>
   );
 };
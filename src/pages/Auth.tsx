@@ -1,6 +1,5 @@
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
-import { User, Session } from "@supabase/supabase-js";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -8,9 +7,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { useToast } from "@/hooks/use-toast";
-import { useNavigate } from "react-router-dom";
+import { useLocation, useNavigate } from "react-router-dom";
+import { homePathForRoles, useAuth } from "@/hooks/use-auth";
 import { z } from "zod";
-import { QrCode } from "lucide-react";
+import { QrCode, Clock } from "lucide-react";
+import { Tables } from "@/integrations/supabase/types";
 
 const signUpSchema = z.object({
   email: z.string().email("Invalid email address"),
@@ -27,55 +28,31 @@ const signInSchema = z.object({
 });
 
 const Auth = () => {
-  const [user, setUser] = useState<User | null>(null);
-  const [session, setSession] = useState<Session | null>(null);
+  const { user, roles, loading, signOut } = useAuth();
+  const [pendingRole, setPendingRole] = useState<Tables<"role_requests">["requested_role"] | null>(null);
   const { toast } = useToast();
   const navigate = useNavigate();
+  const location = useLocation();
 
   useEffect(() => {
-    // Set up auth state listener FIRST
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      (event, session) => {
-        setSession(session);
-        setUser(session?.user ?? null);
-        
-        if (session?.user) {
-          // Defer navigation to prevent deadlock
-          setTimeout(() => {
-            checkUserRoleAndRedirect(session.user.id);
-          }, 0);
-        }
-      }
-    );
-
-    // THEN check for existing session
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setSession(session);
-      setUser(session?.user ?? null);
-      
-      if (session?.user) {
-        checkUserRoleAndRedirect(session.user.id);
-      }
-    });
-
-    return () => subscription.unsubscribe();
-  }, []);
-
-  const checkUserRoleAndRedirect = async (userId: string) => {
-    const { data: roles } = await supabase
-      .from("user_roles")
-      .select("role")
-      .eq("user_id", userId)
-      .single();
+    if (loading || !user) return;
 
-    if (roles) {
-      const redirectPath = 
-        roles.role === "student" ? "/student" :
-        roles.role === "professor" ? "/professor" :
-        "/admin";
-      navigate(redirectPath);
+    const homePath = homePathForRoles(roles);
+    if (homePath) {
+      // Return to the page the guard sent us from, if there was one
+      navigate((location.state as { from?: string } | null)?.from ?? homePath, { replace: true });
+      return;
     }
-  };
+
+    // No role yet means a professor/admin request is waiting for approval
+    supabase
+      .from("role_requests")
+      .select("requested_role")
+      .eq("user_id", user.id)
+      .eq("status", "pending")
+      .maybeSingle()
+      .then(({ data }) => setPendingRole(data?.requested_role ?? null));
+  }, [loading, user, roles, navigate, location.state]);
 
   const handleSignUp = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -98,6 +75,8 @@ const Auth = () => {
           emailRedirectTo: redirectUrl,
           data: {
             full_name: data.fullName,
+            // Only a request: the role itself is granted server-side
+            requested_role: data.role,
           },
         },
       });
@@ -105,19 +84,12 @@ const Auth = () => {
       if (signUpError) throw signUpError;
 
       if (authData.user) {
-        // Insert role
-        const { error: roleError } = await supabase
-          .from("user_roles")
-          .insert({
-            user_id: authData.user.id,
-            role: data.role,
-          });
-
-        if (roleError) throw roleError;
-
         toast({
           title: "Account created!",
-          description: "You can now sign in to your account.",
+          description:
+            data.role === "student"
+              ? "You can now sign in to your account."
+              : `Your ${data.role} access request has been sent to an administrator for approval.`,
         });
       }
     } catch (error: any) {
@@ -159,6 +131,35 @@ const Auth = () => {
     }
   };
 
+  const handleSignOut = async () => {
+    await signOut();
+    setPendingRole(null);
+  };
+
+  if (user && pendingRole) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-secondary/30 p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="w-5 h-5 text-primary" />
+              Awaiting approval
+            </CardTitle>
+            <CardDescription>
+              Your {pendingRole === "admin" ? "Dean/Admin" : "Professor"} access request is waiting for an
+              administrator. You'll be able to sign in once it has been reviewed.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" className="w-full" onClick={handleSignOut}>
+              Sign Out
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   if (user) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-secondary/30">
@@ -262,13 +263,13 @@ const Auth = () => {
                     <div className="flex items-center space-x-2">
                       <RadioGroupItem value="professor" id="professor" />
                       <Label htmlFor="professor" className="cursor-pointer font-normal">
-                        Professor
+                        Professor <span className="text-muted-foreground">(requires approval)</span>
                       </Label>
                     </div>
                     <div className="flex items-center space-x-2">
                       <RadioGroupItem value="admin" id="admin" />
                       <Label htmlFor="admin" className="cursor-pointer font-normal">
-                        Dean/Admin
+                        Dean/Admin <span className="text-muted-foreground">(requires approval)</span>
                       </Label>
                     </div>
                   </RadioGroup>
@@ -0,0 +1,423 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { useToast } from "@/hooks/use-toast";
+import { QrCode, ArrowLeft, PencilLine, History } from "lucide-react";
+import {
+  ATTENDANCE_STATUSES,
+  AttendanceStatus,
+  attendanceStatusLabels,
+  describeAttendanceRules,
+  isManuallyEdited,
+  SetAttendanceResult,
+  setAttendanceErrorMessages,
+} from "@/lib/attendance";
+import { z } from "zod";
+
+const NOT_RECORDED = "none";
+
+const reasonSchema = z.string().trim().min(3, "Enter a reason for the change").max(500);
+
+type Enrollment = Pick<Tables<"course_enrollments">, "student_id" | "student_number"> & {
+  profiles: Pick<Tables<"profiles">, "email" | "full_name"> | null;
+};
+
+interface PendingChange {
+  studentId: string;
+  studentName: string;
+  from: AttendanceStatus | null;
+  to: AttendanceStatus;
+}
+
+// Per-session attendance grid where course staff can correct a student's
+// status. Every change needs a reason and is kept in attendance_changes.
+const CourseAttendance = () => {
+  const { courseId } = useParams<{ courseId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [course, setCourse] = useState<Tables<"courses"> | null>(null);
+  const [sessions, setSessions] = useState<Tables<"class_sessions">[]>([]);
+  const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
+  const [records, setRecords] = useState<Record<string, Tables<"attendance_records">>>({});
+  const [changes, setChanges] = useState<Tables<"attendance_changes">[]>([]);
+  const [editors, setEditors] = useState<Record<string, string>>({});
+  const [pending, setPending] = useState<PendingChange | null>(null);
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const sessionId = searchParams.get("session") ?? sessions[0]?.id ?? null;
+  const archived = !!course?.archived_at;
+
+  useEffect(() => {
+    loadCourse();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [courseId]);
+
+  useEffect(() => {
+    if (sessionId) loadSessionAttendance(sessionId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessionId]);
+
+  const loadCourse = async () => {
+    const [courseResult, sessionsResult, rosterResult] = await Promise.all([
+      supabase.from("courses").select("*").eq("id", courseId).maybeSingle(),
+      supabase
+        .from("class_sessions")
+        .select("*")
+        .eq("course_id", courseId)
+        .in("status", ["open", "closed"])
+        .order("starts_at", { ascending: false }),
+      supabase
+        .from("course_enrollments")
+        .select("student_id, student_number, profiles:student_id ( email, full_name )")
+        .eq("course_id", courseId),
+    ]);
+
+    const error = courseResult.error || sessionsResult.error || rosterResult.error;
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading attendance",
+        description: error.message,
+      });
+      return;
+    }
+
+    setCourse(courseResult.data);
+    setSessions(sessionsResult.data || []);
+    const displayName = (enrollment: Enrollment) => enrollment.profiles?.full_name || enrollment.profiles?.email || "";
+    setEnrollments(
+      ((rosterResult.data || []) as Enrollment[]).sort((a, b) => displayName(a).localeCompare(displayName(b))),
+    );
+  };
+
+  const loadSessionAttendance = async (id: string) => {
+    const [recordsResult, changesResult] = await Promise.all([
+      supabase.from("attendance_records").select("*").eq("session_id", id),
+      supabase
+        .from("attendance_changes")
+        .select("*")
+        .eq("session_id", id)
+        .order("changed_at", { ascending: false }),
+    ]);
+
+    if (recordsResult.error || changesResult.error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading session attendance",
+        description: (recordsResult.error || changesResult.error).message,
+      });
+      return;
+    }
+
+    setRecords(Object.fromEntries((recordsResult.data || []).map((record) => [record.student_id, record])));
+    setChanges(changesResult.data || []);
+
+    const editorIds = Array.from(
+      new Set((changesResult.data || []).map((change) => change.changed_by).filter((id): id is string => !!id)),
+    );
+    if (editorIds.length > 0) {
+      const { data: profiles } = await supabase.from("profiles").select("id, full_name, email").in("id", editorIds);
+      setEditors(
+        Object.fromEntries((profiles || []).map((profile) => [profile.id, profile.full_name || profile.email])),
+      );
+    }
+  };
+
+  const requestChange = (enrollment: Enrollment, to: AttendanceStatus) => {
+    setReason("");
+    setPending({
+      studentId: enrollment.student_id,
+      studentName: enrollment.profiles?.full_name || enrollment.profiles?.email || "this student",
+      from: records[enrollment.student_id]?.status ?? null,
+      to,
+    });
+  };
+
+  const handleSaveChange = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!pending || !sessionId) return;
+    setSaving(true);
+
+    try {
+      const validReason = reasonSchema.parse(reason);
+      const { data, error } = await supabase.rpc("set_attendance_status", {
+        _session_id: sessionId,
+        _student_id: pending.studentId,
+        _status: pending.to,
+        _reason: validReason,
+      });
+
+      if (error) throw error;
+
+      const result = data as SetAttendanceResult;
+      if (result !== "ok") throw new Error(setAttendanceErrorMessages[result]);
+
+      toast({
+        title: "Attendance updated",
+        description: `${pending.studentName} is now marked ${attendanceStatusLabels[pending.to].toLowerCase()}.`,
+      });
+      setPending(null);
+      loadSessionAttendance(sessionId);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to update attendance",
+        description:
+          error instanceof z.ZodError ? error.errors[0].message : (error as Error).message || "Please try again.",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const studentName = (studentId: string) => {
+    const enrollment = enrollments.find((e) => e.student_id === studentId);
+    return enrollment?.profiles?.full_name || enrollment?.profiles?.email || "Unknown student";
+  };
+
+  return (
+    <div className="min-h-screen bg-secondary/30">
+      <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur shadow-soft">
+        <div className="container flex h-16 items-center justify-between px-4">
+          <div className="flex items-center gap-2 font-bold text-xl">
+            <QrCode className="w-6 h-6 text-primary" />
+            <span>AttendTrack</span>
+          </div>
+          <Button variant="ghost" onClick={() => navigate("/professor")}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </div>
+      </header>
+
+      <main className="container py-8 px-4">
+        <div className="max-w-4xl mx-auto space-y-8">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">
+              Attendance
+              {archived && (
+                <Badge variant="secondary" className="ml-3 align-middle">
+                  Archived
+                </Badge>
+              )}
+            </h1>
+            <p className="text-muted-foreground">
+              {course ? `${course.code} · ${course.name}` : "Loading course..."}
+            </p>
+            {course && <p className="text-sm text-muted-foreground mt-1">{describeAttendanceRules(course)}</p>}
+          </div>
+
+          {sessions.length === 0 ? (
+            <Card>
+              <CardContent className="py-8">
+                <p className="text-muted-foreground text-center">
+                  No sessions yet. Start a session from the dashboard to take attendance.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <Card>
+                <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                  <div className="space-y-1.5">
+                    <CardTitle>Session</CardTitle>
+                    <CardDescription>
+                      {archived
+                        ? "This course is archived, so its attendance can't be changed"
+                        : "Change a status to record a manual correction"}
+                    </CardDescription>
+                  </div>
+                  <Select value={sessionId ?? undefined} onValueChange={(value) => setSearchParams({ session: value })}>
+                    <SelectTrigger className="w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sessions.map((session) => (
+                        <SelectItem key={session.id} value={session.id}>
+                          {new Date(session.starts_at).toLocaleString()}
+                          {session.status === "open" ? " (open)" : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </CardHeader>
+                <CardContent>
+                  {enrollments.length === 0 ? (
+                    <p className="text-muted-foreground text-center py-8">No students enrolled.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Student</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>Recorded</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {enrollments.map((enrollment) => {
+                          const record = records[enrollment.student_id];
+                          const edited = record && isManuallyEdited(record);
+                          return (
+                            <TableRow
+                              key={enrollment.student_id}
+                              className={edited ? "bg-amber-50 dark:bg-amber-950/30" : ""}
+                            >
+                              <TableCell>
+                                <p className="font-medium">{enrollment.profiles?.full_name || "—"}</p>
+                                <p className="text-xs text-muted-foreground">
+                                  {enrollment.profiles?.email}
+                                  {enrollment.student_number ? ` · ${enrollment.student_number}` : ""}
+                                </p>
+                              </TableCell>
+                              <TableCell>
+                                <Select
+                                  value={record?.status ?? NOT_RECORDED}
+                                  onValueChange={(value) => requestChange(enrollment, value as AttendanceStatus)}
+                                  disabled={archived}
+                                >
+                                  <SelectTrigger className="w-36">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {!record && (
+                                      <SelectItem value={NOT_RECORDED} disabled>
+                                        Not recorded
+                                      </SelectItem>
+                                    )}
+                                    {ATTENDANCE_STATUSES.map((status) => (
+                                      <SelectItem key={status} value={status}>
+                                        {attendanceStatusLabels[status]}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </TableCell>
+                              <TableCell>
+                                {!record ? (
+                                  <span className="text-sm text-muted-foreground">No check-in</span>
+                                ) : edited ? (
+                                  <div className="space-y-1">
+                                    <Badge
+                                      variant="outline"
+                                      className="border-amber-500 text-amber-700 dark:text-amber-400"
+                                    >
+                                      <PencilLine className="w-3 h-3 mr-1" />
+                                      {record.source === "manual" ? "Added manually" : "Edited"}
+                                    </Badge>
+                                    {record.edit_reason && (
+                                      <p className="text-xs text-muted-foreground">{record.edit_reason}</p>
+                                    )}
+                                  </div>
+                                ) : (
+                                  <div className="space-y-1">
+                                    <span className="text-sm">
+                                      Scanned {new Date(record.checked_in_at).toLocaleTimeString()}
+                                    </span>
+                                    {record.synced_at && (
+                                      <Badge variant="outline" className="ml-2">
+                                        Queued offline · review
+                                      </Badge>
+                                    )}
+                                  </div>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <History className="w-5 h-5" />
+                    Change History
+                  </CardTitle>
+                  <CardDescription>Manual changes to this session's attendance</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {changes.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">No manual changes.</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {changes.map((change) => (
+                        <div key={change.id} className="p-3 rounded-lg border bg-card text-sm">
+                          <p>
+                            <span className="font-medium">{studentName(change.student_id)}</span>:{" "}
+                            {change.previous_status ? attendanceStatusLabels[change.previous_status] : "Not recorded"} →{" "}
+                            {attendanceStatusLabels[change.new_status]}
+                          </p>
+                          <p className="text-muted-foreground">{change.reason}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {change.changed_by ? editors[change.changed_by] || "Staff" : "Deleted user"} ·{" "}
+                            {new Date(change.changed_at).toLocaleString()}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+
+      <Dialog open={!!pending} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Change attendance</DialogTitle>
+            <DialogDescription>
+              Mark {pending?.studentName} as {pending ? attendanceStatusLabels[pending.to].toLowerCase() : ""}
+              {pending?.from ? ` (currently ${attendanceStatusLabels[pending.from].toLowerCase()})` : ""}.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSaveChange} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="change-reason">Reason</Label>
+              <Textarea
+                id="change-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Forgot phone, confirmed present in class"
+                required
+                disabled={saving}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setPending(null)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : "Save Change"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CourseAttendance;
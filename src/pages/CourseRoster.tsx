@@ -0,0 +1,321 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useNavigate, useParams } from "react-router-dom";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { QrCode, ArrowLeft, UserPlus, Trash2, Users, Archive } from "lucide-react";
+import { z } from "zod";
+
+const addStudentSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Invalid email address"),
+});
+
+type Enrollment = Tables<"course_enrollments"> & {
+  profiles: Pick<Tables<"profiles">, "email" | "full_name"> | null;
+};
+
+const CourseRoster = () => {
+  const { courseId } = useParams<{ courseId: string }>();
+  const { user } = useAuth();
+  const [course, setCourse] = useState<Tables<"courses"> | null>(null);
+  const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
+  const [invitations, setInvitations] = useState<Tables<"course_invitations">[]>([]);
+  const [adding, setAdding] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const archived = !!course?.archived_at;
+
+  const loadRoster = async () => {
+    const [
+      { data: courseData, error: courseError },
+      { data: enrollmentData, error: enrollmentError },
+      { data: invitationData, error: invitationError },
+    ] = await Promise.all([
+      supabase.from("courses").select("*").eq("id", courseId).single(),
+      supabase
+        .from("course_enrollments")
+        .select(`
+          *,
+          profiles:student_id (
+            email,
+            full_name
+          )
+        `)
+        .eq("course_id", courseId)
+        .order("enrolled_at", { ascending: true }),
+      supabase
+        .from("course_invitations")
+        .select("*")
+        .eq("course_id", courseId)
+        .is("accepted_at", null)
+        .order("email", { ascending: true }),
+    ]);
+
+    const error = courseError || enrollmentError || invitationError;
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading roster",
+        description: error.message,
+      });
+      return;
+    }
+
+    setCourse(courseData);
+    setEnrollments(enrollmentData || []);
+    setInvitations(invitationData || []);
+  };
+
+  useEffect(() => {
+    loadRoster();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [courseId]);
+
+  const handleAddStudent = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    setAdding(true);
+
+    try {
+      const { email } = addStudentSchema.parse({ email: formData.get("email") });
+
+      const { data: profile, error: profileError } = await supabase
+        .from("profiles")
+        .select("id, email, full_name")
+        // Emails are stored as typed at signup; match them case-insensitively
+        .ilike("email", email.replace(/[\\%_]/g, "\\$&"))
+        .maybeSingle();
+
+      if (profileError) throw profileError;
+      if (!profile) {
+        throw new Error(`No account found for ${email}. The student must sign up first.`);
+      }
+
+      if (enrollments.some((enrollment) => enrollment.student_id === profile.id)) {
+        throw new Error(`${email} is already enrolled in this course.`);
+      }
+
+      const { error } = await supabase.from("course_enrollments").insert({
+        course_id: courseId,
+        student_id: profile.id,
+        enrolled_by: user?.id,
+      });
+
+      if (error) throw error;
+
+      form.reset();
+      toast({
+        title: "Student added",
+        description: `${profile.full_name || profile.email} has been enrolled.`,
+      });
+      loadRoster();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to add student",
+        description:
+          error instanceof z.ZodError ? error.errors[0].message : (error as Error).message || "Please try again.",
+      });
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRemoveStudent = async (enrollment: Enrollment) => {
+    const { error } = await supabase.from("course_enrollments").delete().eq("id", enrollment.id);
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to remove student",
+        description: error.message,
+      });
+    } else {
+      setEnrollments((current) => current.filter((e) => e.id !== enrollment.id));
+      toast({
+        title: "Student removed",
+        description: `${enrollment.profiles?.full_name || enrollment.profiles?.email} is no longer enrolled.`,
+      });
+    }
+  };
+
+  const handleCancelInvitation = async (invitation: Tables<"course_invitations">) => {
+    const { error } = await supabase.from("course_invitations").delete().eq("id", invitation.id);
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to cancel invitation",
+        description: error.message,
+      });
+    } else {
+      setInvitations((current) => current.filter((i) => i.id !== invitation.id));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-secondary/30">
+      <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur shadow-soft">
+        <div className="container flex h-16 items-center justify-between px-4">
+          <div className="flex items-center gap-2 font-bold text-xl">
+            <QrCode className="w-6 h-6 text-primary" />
+            <span>AttendTrack</span>
+          </div>
+          <Button variant="ghost" onClick={() => navigate("/professor")}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </div>
+      </header>
+
+      <main className="container py-8 px-4">
+        <div className="max-w-4xl mx-auto space-y-8">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Roster</h1>
+            <p className="text-muted-foreground">
+              {course ? `${course.name} (${course.code})` : "Loading course..."}
+            </p>
+          </div>
+
+          {archived && (
+            <Alert>
+              <Archive className="h-4 w-4" />
+              <AlertTitle>This course is archived</AlertTitle>
+              <AlertDescription>Its roster is read-only. Restore the course to add or remove students.</AlertDescription>
+            </Alert>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Add Student</CardTitle>
+              <CardDescription>Enroll a student by the email they signed up with</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleAddStudent} className="flex items-end gap-4">
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor="email">Student Email</Label>
+                  <Input
+                    id="email"
+                    name="email"
+                    type="email"
+                    placeholder="student@example.com"
+                    required
+                    disabled={adding || archived}
+                  />
+                </div>
+                <Button type="submit" disabled={adding || archived}>
+                  <UserPlus className="w-4 h-4 mr-2" />
+                  {adding ? "Adding..." : "Add"}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Enrolled Students ({enrollments.length})</CardTitle>
+              <CardDescription>Only enrolled students can check in to this course</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {enrollments.length === 0 ? (
+                <div className="text-center py-12 space-y-4">
+                  <Users className="w-12 h-12 mx-auto text-muted-foreground" />
+                  <p className="text-muted-foreground">No students enrolled yet.</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Student ID</TableHead>
+                      <TableHead>Section</TableHead>
+                      <TableHead>Enrolled</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {enrollments.map((enrollment) => (
+                      <TableRow key={enrollment.id}>
+                        <TableCell className="font-medium">{enrollment.profiles?.full_name || "—"}</TableCell>
+                        <TableCell className="text-muted-foreground">{enrollment.profiles?.email}</TableCell>
+                        <TableCell className="text-muted-foreground">{enrollment.student_number || "—"}</TableCell>
+                        <TableCell className="text-muted-foreground">{enrollment.section || "—"}</TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {new Date(enrollment.enrolled_at).toLocaleDateString()}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRemoveStudent(enrollment)}
+                            disabled={archived}
+                          >
+                            <Trash2 className="w-4 h-4 mr-2" />
+                            Remove
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {invitations.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Pending Invitations ({invitations.length})</CardTitle>
+                <CardDescription>These students will be enrolled automatically when they sign up</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Section</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {invitations.map((invitation) => (
+                      <TableRow key={invitation.id}>
+                        <TableCell className="font-medium">{invitation.full_name || "—"}</TableCell>
+                        <TableCell className="text-muted-foreground">{invitation.email}</TableCell>
+                        <TableCell className="text-muted-foreground">{invitation.section || "—"}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleCancelInvitation(invitation)}
+                            disabled={archived}
+                          >
+                            <Trash2 className="w-4 h-4 mr-2" />
+                            Cancel
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default CourseRoster;
@@ -0,0 +1,427 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useToast } from "@/hooks/use-toast";
+import { format, startOfDay } from "date-fns";
+import ScheduleFields from "@/components/ScheduleFields";
+import { EMPTY_SCHEDULE, saveCourseSchedule, ScheduleDraft, scheduleDatesFromTerm, toScheduleDraft } from "@/lib/schedule";
+import { QrCode, ArrowLeft, Save, CalendarClock } from "lucide-react";
+import { z } from "zod";
+
+const COURSE_ROOM = "course";
+
+const sessionStatusBadges: Record<
+  Tables<"class_sessions">["status"],
+  { label: string; variant: "default" | "secondary" | "outline" | "destructive" }
+> = {
+  scheduled: { label: "Scheduled", variant: "outline" },
+  open: { label: "Open", variant: "default" },
+  closed: { label: "Held", variant: "secondary" },
+  cancelled: { label: "Cancelled", variant: "destructive" },
+};
+
+const rescheduleSchema = z
+  .object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Pick a date"),
+    start: z.string().regex(/^\d{2}:\d{2}$/, "Start time is required"),
+    end: z.string().regex(/^\d{2}:\d{2}$/, "End time is required"),
+  })
+  .refine((session) => session.end > session.start, { message: "The session must end after it starts" });
+
+// Weekly meeting pattern for a course, and the sessions generated from it
+const CourseSchedule = () => {
+  const { courseId } = useParams<{ courseId: string }>();
+  const [course, setCourse] = useState<Tables<"courses"> | null>(null);
+  const [schedule, setSchedule] = useState<ScheduleDraft>(EMPTY_SCHEDULE);
+  const [hasSchedule, setHasSchedule] = useState(false);
+  const [roomId, setRoomId] = useState(COURSE_ROOM);
+  const [rooms, setRooms] = useState<Pick<Tables<"rooms">, "id" | "name" | "building">[]>([]);
+  const [sessions, setSessions] = useState<Tables<"class_sessions">[]>([]);
+  const [moving, setMoving] = useState<Tables<"class_sessions"> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadSchedule();
+    loadSessions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [courseId]);
+
+  const loadSchedule = async () => {
+    const [courseResult, scheduleResult, roomsResult] = await Promise.all([
+      supabase.from("courses").select("*").eq("id", courseId).maybeSingle(),
+      supabase.from("course_schedules").select("*").eq("course_id", courseId).maybeSingle(),
+      supabase.from("rooms").select("id, name, building").order("name", { ascending: true }),
+    ]);
+
+    if (courseResult.error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading course",
+        description: courseResult.error.message,
+      });
+    }
+
+    setCourse(courseResult.data);
+    setRooms(roomsResult.data || []);
+    if (scheduleResult.data) {
+      setSchedule(toScheduleDraft(scheduleResult.data));
+      setRoomId(scheduleResult.data.room_id ?? COURSE_ROOM);
+      setHasSchedule(true);
+    } else if (courseResult.data?.term_id) {
+      // A new pattern starts from the course's term dates and holidays
+      const { data: term } = await supabase
+        .from("academic_terms")
+        .select("starts_on, ends_on, holidays")
+        .eq("id", courseResult.data.term_id)
+        .maybeSingle();
+      if (term) setSchedule({ ...EMPTY_SCHEDULE, ...scheduleDatesFromTerm(term) });
+    }
+    setLoading(false);
+  };
+
+  const loadSessions = async () => {
+    const { data, error } = await supabase
+      .from("class_sessions")
+      .select("*")
+      .eq("course_id", courseId)
+      .gte("starts_at", startOfDay(new Date()).toISOString())
+      .order("starts_at", { ascending: true });
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading sessions",
+        description: error.message,
+      });
+    } else {
+      setSessions(data || []);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+
+    try {
+      const upcoming = await saveCourseSchedule(courseId, schedule, roomId === COURSE_ROOM ? null : roomId);
+      setHasSchedule(true);
+      toast({
+        title: "Schedule saved",
+        description: `${course?.code} has ${upcoming} upcoming ${upcoming === 1 ? "session" : "sessions"}.`,
+      });
+      loadSessions();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to save schedule",
+        description:
+          error instanceof z.ZodError ? error.errors[0].message : (error as Error).message || "Please try again.",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateSession = async (
+    session: Tables<"class_sessions">,
+    changes: Partial<Tables<"class_sessions">>,
+    failure: string,
+  ) => {
+    const { data, error } = await supabase
+      .from("class_sessions")
+      .update(changes)
+      .eq("id", session.id)
+      .select()
+      .single();
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: failure,
+        description: error.message,
+      });
+      return false;
+    }
+
+    setSessions((current) =>
+      current.map((s) => (s.id === data.id ? data : s)).sort((a, b) => a.starts_at.localeCompare(b.starts_at)),
+    );
+    return true;
+  };
+
+  const handleMove = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!moving) return;
+
+    const formData = new FormData(e.currentTarget);
+
+    try {
+      const data = rescheduleSchema.parse({
+        date: formData.get("date"),
+        start: formData.get("start"),
+        end: formData.get("end"),
+      });
+
+      const startsAt = new Date(`${data.date}T${data.start}`);
+      const endsAt = new Date(`${data.date}T${data.end}`);
+      // Keep the session's check-in window length, moved along with it
+      const windowMs =
+        moving.check_in_opens_at && moving.check_in_closes_at
+          ? new Date(moving.check_in_closes_at).getTime() - new Date(moving.check_in_opens_at).getTime()
+          : 15 * 60_000;
+
+      const moved = await updateSession(
+        moving,
+        {
+          starts_at: startsAt.toISOString(),
+          ends_at: endsAt.toISOString(),
+          check_in_opens_at: startsAt.toISOString(),
+          check_in_closes_at: new Date(startsAt.getTime() + windowMs).toISOString(),
+          rescheduled_from: moving.rescheduled_from ?? moving.starts_at,
+        },
+        "Failed to move session",
+      );
+
+      if (moved) {
+        toast({
+          title: "Session moved",
+          description: `Now on ${format(startsAt, "EEE, MMM d 'at' h:mm a")}.`,
+        });
+        setMoving(null);
+      }
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to move session",
+        description: error instanceof z.ZodError ? error.errors[0].message : (error as Error).message,
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-secondary/30">
+      <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur shadow-soft">
+        <div className="container flex h-16 items-center justify-between px-4">
+          <div className="flex items-center gap-2 font-bold text-xl">
+            <QrCode className="w-6 h-6 text-primary" />
+            <span>AttendTrack</span>
+          </div>
+          <Button variant="ghost" onClick={() => navigate("/professor")}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </div>
+      </header>
+
+      <main className="container py-8 px-4">
+        <div className="max-w-4xl mx-auto space-y-8">
+          {loading ? (
+            <p className="text-muted-foreground text-center py-8">Loading...</p>
+          ) : !course ? (
+            <p className="text-muted-foreground text-center py-8">Course not found.</p>
+          ) : (
+            <>
+              <div>
+                <h1 className="text-3xl font-bold mb-2">
+                  {course.code} · {course.name}
+                </h1>
+                <p className="text-muted-foreground">Meeting schedule</p>
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Weekly Pattern</CardTitle>
+                  <CardDescription>
+                    Times are in {course.timezone}. Saving regenerates upcoming sessions; sessions you've opened,
+                    cancelled or moved are kept.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <ScheduleFields value={schedule} onChange={setSchedule} disabled={saving} />
+                  <div className="space-y-2">
+                    <Label>Room</Label>
+                    <Select value={roomId} onValueChange={setRoomId} disabled={saving}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={COURSE_ROOM}>Course room</SelectItem>
+                        {rooms.map((room) => (
+                          <SelectItem key={room.id} value={room.id}>
+                            {room.name}
+                            {room.building ? ` · ${room.building}` : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button onClick={handleSave} disabled={saving}>
+                    <Save className="w-4 h-4 mr-2" />
+                    {saving ? "Saving..." : hasSchedule ? "Save and Regenerate" : "Save and Generate Sessions"}
+                  </Button>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Upcoming Sessions ({sessions.filter((s) => s.status !== "cancelled").length})</CardTitle>
+                  <CardDescription>Cancel or move a single session without changing the pattern</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {sessions.length === 0 ? (
+                    <p className="text-muted-foreground text-center py-8">No upcoming sessions.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Time</TableHead>
+                          <TableHead>Room</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead className="text-right">Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {sessions.map((session) => (
+                          <TableRow key={session.id} className={session.status === "cancelled" ? "opacity-60" : ""}>
+                            <TableCell>{format(new Date(session.starts_at), "EEE, MMM d")}</TableCell>
+                            <TableCell>
+                              {format(new Date(session.starts_at), "h:mm a")}–
+                              {format(new Date(session.ends_at), "h:mm a")}
+                            </TableCell>
+                            <TableCell>{session.room || "—"}</TableCell>
+                            <TableCell className="space-x-1">
+                              <Badge variant={sessionStatusBadges[session.status].variant}>
+                                {sessionStatusBadges[session.status].label}
+                              </Badge>
+                              {session.rescheduled_from && (
+                                <Badge
+                                  variant="outline"
+                                  title={`Originally ${format(new Date(session.rescheduled_from), "EEE, MMM d 'at' h:mm a")}`}
+                                >
+                                  Moved
+                                </Badge>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right space-x-1">
+                              {session.status === "scheduled" && (
+                                <>
+                                  <Button variant="ghost" size="sm" onClick={() => setMoving(session)}>
+                                    Move
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() =>
+                                      updateSession(session, { status: "cancelled" }, "Failed to cancel session")
+                                    }
+                                  >
+                                    Cancel
+                                  </Button>
+                                </>
+                              )}
+                              {session.status === "cancelled" && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() =>
+                                    updateSession(session, { status: "scheduled" }, "Failed to restore session")
+                                  }
+                                >
+                                  Restore
+                                </Button>
+                              )}
+                              {(session.status === "open" || session.status === "closed") && (
+                                <Button variant="ghost" size="sm" asChild>
+                                  <Link to={`/professor/session/${session.id}`}>View</Link>
+                                </Button>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+
+      <Dialog open={moving !== null} onOpenChange={(open) => !open && setMoving(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <CalendarClock className="w-5 h-5" />
+              Move session
+            </DialogTitle>
+            <DialogDescription>
+              {moving && `Currently ${format(new Date(moving.starts_at), "EEE, MMM d 'at' h:mm a")}.`} The rest of
+              the schedule stays as it is.
+            </DialogDescription>
+          </DialogHeader>
+          {moving && (
+            <form onSubmit={handleMove} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="move-date">Date</Label>
+                <Input
+                  id="move-date"
+                  name="date"
+                  type="date"
+                  defaultValue={format(new Date(moving.starts_at), "yyyy-MM-dd")}
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="move-start">Starts</Label>
+                  <Input
+                    id="move-start"
+                    name="start"
+                    type="time"
+                    defaultValue={format(new Date(moving.starts_at), "HH:mm")}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="move-end">Ends</Label>
+                  <Input
+                    id="move-end"
+                    name="end"
+                    type="time"
+                    defaultValue={format(new Date(moving.ends_at), "HH:mm")}
+                    required
+                  />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button type="submit">Move Session</Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CourseSchedule;
@@ -1,37 +1,58 @@
-import { useState, useEffect } from "react";
+import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
-import { User } from "@supabase/supabase-js";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tables } from "@/integrations/supabase/types";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { QrCode, ArrowLeft, Save } from "lucide-react";
 import { z } from "zod";
+import { DEFAULT_ATTENDANCE_RULES } from "@/lib/attendance";
+import { parseCourseForm } from "@/lib/courses";
+import { EMPTY_SCHEDULE, saveCourseSchedule, ScheduleDraft, scheduleDatesFromTerm, scheduleSchema } from "@/lib/schedule";
+import { useAcademicTerms } from "@/hooks/use-academic-terms";
+import ScheduleFields from "@/components/ScheduleFields";
+import AttendanceRulesFields from "@/components/AttendanceRulesFields";
 
-const courseSchema = z.object({
-  name: z.string().min(1, "Course name is required"),
-  code: z.string().min(1, "Course code is required"),
-  semester: z.string().optional(),
-  year: z.string().optional(),
-});
+const NO_ROOM = "none";
+const NO_TERM = "none";
 
 const CreateCourse = () => {
-  const [user, setUser] = useState<User | null>(null);
+  const { user } = useAuth();
   const [loading, setLoading] = useState(false);
+  const [rooms, setRooms] = useState<Pick<Tables<"rooms">, "id" | "name" | "building">[]>([]);
+  const [roomId, setRoomId] = useState<string>(NO_ROOM);
+  const [meetsWeekly, setMeetsWeekly] = useState(false);
+  const [schedule, setSchedule] = useState<ScheduleDraft>(EMPTY_SCHEDULE);
+  const { terms, activeTerm, loading: termsLoading } = useAcademicTerms();
+  const [termId, setTermId] = useState<string | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
 
   useEffect(() => {
-    supabase.auth.getUser().then(({ data: { user } }) => {
-      if (!user) {
-        navigate("/auth");
-      } else {
-        setUser(user);
-      }
-    });
-  }, [navigate]);
+    supabase
+      .from("rooms")
+      .select("id, name, building")
+      .order("name", { ascending: true })
+      .then(({ data }) => setRooms(data || []));
+  }, []);
+
+  // New courses go into the active term unless the professor picks another
+  const selectTerm = (id: string) => {
+    setTermId(id);
+    const term = terms.find((t) => t.id === id);
+    if (term) setSchedule((current) => ({ ...current, ...scheduleDatesFromTerm(term) }));
+  };
+
+  useEffect(() => {
+    if (!termsLoading && termId === null) selectTerm(activeTerm?.id ?? NO_TERM);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [termsLoading]);
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -40,28 +61,37 @@ const CreateCourse = () => {
     const formData = new FormData(e.currentTarget);
     
     try {
-      const data = courseSchema.parse({
-        name: formData.get("name"),
-        code: formData.get("code"),
-        semester: formData.get("semester") || undefined,
-        year: formData.get("year") || undefined,
-      });
+      const data = parseCourseForm(formData);
+      // Checked up front so a bad schedule doesn't leave a half-created course
+      if (meetsWeekly) scheduleSchema.parse(schedule);
 
-      const { error } = await supabase
+      const { data: course, error } = await supabase
         .from("courses")
         .insert({
           name: data.name,
           code: data.code,
           professor_id: user?.id,
-          semester: data.semester || null,
-          year: data.year ? parseInt(data.year) : null,
-        });
+          term_id: termId && termId !== NO_TERM ? termId : null,
+          room_id: roomId === NO_ROOM ? null : roomId,
+          timezone: data.timezone,
+          late_grace_minutes: data.late_grace_minutes,
+          late_weight: data.late_weight,
+          excused_weight: data.excused_weight,
+          left_early_weight: data.left_early_weight,
+          required_attendance_pct: data.required_attendance_pct,
+        })
+        .select("id")
+        .single();
 
       if (error) throw error;
 
+      const sessionCount = meetsWeekly ? await saveCourseSchedule(course.id, schedule, null) : 0;
+
       toast({
         title: "Course created!",
-        description: `${data.name} has been successfully created.`,
+        description: meetsWeekly
+          ? `${data.name} has been created with ${sessionCount} scheduled sessions.`
+          : `${data.name} has been successfully created.`,
       });
 
       navigate("/professor");
@@ -70,7 +100,10 @@ const CreateCourse = () => {
       toast({
         variant: "destructive",
         title: "Failed to create course",
-        description: error.message || "Please check your input and try again.",
+        description:
+          error instanceof z.ZodError
+            ? error.errors[0].message
+            : error.message || "Please check your input and try again.",
       });
     } finally {
       setLoading(false);
@@ -127,32 +160,79 @@ const CreateCourse = () => {
                   />
                 </div>
 
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="semester">Semester</Label>
-                    <Input
-                      id="semester"
-                      name="semester"
-                      type="text"
-                      placeholder="e.g., Fall, Spring"
-                      disabled={loading}
-                    />
-                  </div>
+                <div className="space-y-2">
+                  <Label>Term</Label>
+                  <Select value={termId ?? NO_TERM} onValueChange={selectTerm} disabled={loading || termsLoading}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_TERM}>No term</SelectItem>
+                      {terms.map((term) => (
+                        <SelectItem key={term.id} value={term.id}>
+                          {term.name}
+                          {term.is_active ? " (current)" : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    The weekly schedule starts from this term's dates and holidays.
+                  </p>
+                </div>
 
-                  <div className="space-y-2">
-                    <Label htmlFor="year">Year</Label>
+                <div className="space-y-2">
+                  <Label htmlFor="timezone">Timezone *</Label>
                   <Input
-                    id="year"
-                    name="year"
-                    type="number"
-                    placeholder="e.g., 2024"
-                    min="2000"
-                    max="2100"
+                    id="timezone"
+                    name="timezone"
+                    type="text"
+                    defaultValue={Intl.DateTimeFormat().resolvedOptions().timeZone}
+                    placeholder="e.g., America/New_York"
+                    required
                     disabled={loading}
                   />
+                  <p className="text-xs text-muted-foreground">
+                    Used to decide which day a check-in belongs to.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Room</Label>
+                  <Select value={roomId} onValueChange={setRoomId} disabled={loading}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_ROOM}>No room (location is not checked)</SelectItem>
+                      {rooms.map((room) => (
+                        <SelectItem key={room.id} value={room.id}>
+                          {room.name}
+                          {room.building ? ` · ${room.building}` : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Check-ins are compared against this room's geofence unless a session picks another room.
+                  </p>
+                </div>
+
+                <div className="space-y-4 rounded-lg border p-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <p className="font-medium">Weekly schedule</p>
+                      <p className="text-xs text-muted-foreground">
+                        Generate every session for the term. You can cancel or move single sessions later.
+                      </p>
+                    </div>
+                    <Switch checked={meetsWeekly} onCheckedChange={setMeetsWeekly} disabled={loading} />
                   </div>
+                  {meetsWeekly && <ScheduleFields value={schedule} onChange={setSchedule} disabled={loading} />}
                 </div>
 
+                <AttendanceRulesFields defaults={DEFAULT_ATTENDANCE_RULES} disabled={loading} />
+
                 <div className="flex gap-4 pt-4">
                   <Button
                     type="button"
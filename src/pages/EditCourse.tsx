@@ -0,0 +1,336 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useNavigate, useParams } from "react-router-dom";
+import { useToast } from "@/hooks/use-toast";
+import { useAcademicTerms } from "@/hooks/use-academic-terms";
+import AttendanceRulesFields from "@/components/AttendanceRulesFields";
+import { parseCourseForm, SetCourseArchivedResult } from "@/lib/courses";
+import { QrCode, ArrowLeft, Save, Archive, ArchiveRestore } from "lucide-react";
+import { z } from "zod";
+
+const NO_ROOM = "none";
+const NO_TERM = "none";
+
+const EditCourse = () => {
+  const { courseId } = useParams<{ courseId: string }>();
+  const [course, setCourse] = useState<Tables<"courses"> | null>(null);
+  const [rooms, setRooms] = useState<Pick<Tables<"rooms">, "id" | "name" | "building">[]>([]);
+  const [roomId, setRoomId] = useState<string>(NO_ROOM);
+  const [termId, setTermId] = useState<string>(NO_TERM);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { terms } = useAcademicTerms();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const archived = !!course?.archived_at;
+
+  useEffect(() => {
+    loadCourse();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [courseId]);
+
+  const loadCourse = async () => {
+    const [courseResult, roomsResult] = await Promise.all([
+      supabase.from("courses").select("*").eq("id", courseId).maybeSingle(),
+      supabase.from("rooms").select("id, name, building").order("name", { ascending: true }),
+    ]);
+
+    if (courseResult.error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading course",
+        description: courseResult.error.message,
+      });
+    }
+
+    setCourse(courseResult.data);
+    setRooms(roomsResult.data || []);
+    setRoomId(courseResult.data?.room_id ?? NO_ROOM);
+    setTermId(courseResult.data?.term_id ?? NO_TERM);
+    setLoading(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const data = parseCourseForm(new FormData(e.currentTarget));
+
+      const { error } = await supabase
+        .from("courses")
+        .update({
+          name: data.name,
+          code: data.code,
+          term_id: termId === NO_TERM ? null : termId,
+          room_id: roomId === NO_ROOM ? null : roomId,
+          timezone: data.timezone,
+          late_grace_minutes: data.late_grace_minutes,
+          late_weight: data.late_weight,
+          excused_weight: data.excused_weight,
+          left_early_weight: data.left_early_weight,
+          required_attendance_pct: data.required_attendance_pct,
+        })
+        .eq("id", courseId);
+
+      if (error) throw error;
+
+      toast({
+        title: "Course updated",
+        description: `${data.name} has been saved.`,
+      });
+      navigate("/professor");
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to update course",
+        description: error instanceof z.ZodError ? error.errors[0].message : (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setArchived = async (value: boolean) => {
+    setSaving(true);
+    const { data, error } = await supabase.rpc("set_course_archived", { _course_id: courseId, _archived: value });
+    const result = data as SetCourseArchivedResult | null;
+    setSaving(false);
+
+    if (error || result !== "ok") {
+      toast({
+        variant: "destructive",
+        title: value ? "Failed to archive course" : "Failed to restore course",
+        description: error?.message || "This course no longer exists.",
+      });
+      return;
+    }
+
+    if (value) {
+      toast({
+        title: "Course archived",
+        description: `${course?.code} is hidden from your active courses. Its attendance history is kept.`,
+      });
+      navigate("/professor");
+    } else {
+      toast({
+        title: "Course restored",
+        description: `${course?.code} is back in your active courses.`,
+      });
+      loadCourse();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-secondary/30">
+      <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur shadow-soft">
+        <div className="container flex h-16 items-center justify-between px-4">
+          <div className="flex items-center gap-2 font-bold text-xl">
+            <QrCode className="w-6 h-6 text-primary" />
+            <span>AttendTrack</span>
+          </div>
+          <Button variant="ghost" onClick={() => navigate("/professor")}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </div>
+      </header>
+
+      <main className="container py-8 px-4">
+        <div className="max-w-2xl mx-auto space-y-8">
+          {loading ? (
+            <p className="text-muted-foreground text-center py-8">Loading course...</p>
+          ) : !course ? (
+            <p className="text-muted-foreground text-center py-8">Course not found.</p>
+          ) : (
+            <>
+              {archived && (
+                <Alert>
+                  <Archive className="h-4 w-4" />
+                  <AlertTitle>This course is archived</AlertTitle>
+                  <AlertDescription className="space-y-3">
+                    <p>
+                      Its sessions and attendance are read-only. Restore it to make changes or take attendance
+                      again.
+                    </p>
+                    <Button variant="outline" size="sm" onClick={() => setArchived(false)} disabled={saving}>
+                      <ArchiveRestore className="w-4 h-4 mr-2" />
+                      Restore Course
+                    </Button>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Edit Course</CardTitle>
+                  <CardDescription>
+                    {course.code} · {course.name}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={handleSubmit} className="space-y-6">
+                    <div className="space-y-2">
+                      <Label htmlFor="name">Course Name *</Label>
+                      <Input
+                        id="name"
+                        name="name"
+                        type="text"
+                        defaultValue={course.name}
+                        required
+                        disabled={saving || archived}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="code">Course Code *</Label>
+                      <Input
+                        id="code"
+                        name="code"
+                        type="text"
+                        defaultValue={course.code}
+                        required
+                        disabled={saving || archived}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label>Term</Label>
+                      <Select value={termId} onValueChange={setTermId} disabled={saving || archived}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_TERM}>No term</SelectItem>
+                          {terms.map((term) => (
+                            <SelectItem key={term.id} value={term.id}>
+                              {term.name}
+                              {term.is_active ? " (current)" : ""}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="timezone">Timezone *</Label>
+                      <Input
+                        id="timezone"
+                        name="timezone"
+                        type="text"
+                        defaultValue={course.timezone}
+                        required
+                        disabled={saving || archived}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label>Room</Label>
+                      <Select value={roomId} onValueChange={setRoomId} disabled={saving || archived}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_ROOM}>No room (location is not checked)</SelectItem>
+                          {rooms.map((room) => (
+                            <SelectItem key={room.id} value={room.id}>
+                              {room.name}
+                              {room.building ? ` · ${room.building}` : ""}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <AttendanceRulesFields defaults={course} disabled={saving || archived} />
+                    <p className="text-xs text-muted-foreground -mt-4">
+                      Changing the rules recalculates attendance percentages for past sessions too.
+                    </p>
+
+                    <div className="flex gap-4 pt-4">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => navigate("/professor")}
+                        disabled={saving}
+                        className="flex-1"
+                      >
+                        Cancel
+                      </Button>
+                      <Button type="submit" disabled={saving || archived} className="flex-1">
+                        {saving ? (
+                          "Saving..."
+                        ) : (
+                          <>
+                            <Save className="w-4 h-4 mr-2" />
+                            Save Changes
+                          </>
+                        )}
+                      </Button>
+                    </div>
+                  </form>
+                </CardContent>
+              </Card>
+
+              {!archived && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Archive Course</CardTitle>
+                    <CardDescription>
+                      Hide this course from your active courses once it has finished. Open sessions are closed,
+                      upcoming ones are removed, and its attendance history becomes read-only.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="outline" disabled={saving}>
+                          <Archive className="w-4 h-4 mr-2" />
+                          Archive Course
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Archive {course.code}?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Students can no longer check in and attendance can't be changed until the course is
+                            restored. Nothing is deleted.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => setArchived(true)}>Archive</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </CardContent>
+                </Card>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default EditCourse;
@@ -0,0 +1,393 @@
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useNavigate, useParams } from "react-router-dom";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { QrCode, ArrowLeft, Plus, Save, Trash2, FileText } from "lucide-react";
+import { StudentAttendanceSummary } from "@/lib/attendance";
+import {
+  DEFAULT_WARNING_TEMPLATE,
+  MERGE_FIELDS,
+  mergeFieldsFromSummary,
+  renderTemplate,
+  unknownMergeFields,
+} from "@/lib/email-templates";
+import { z } from "zod";
+
+const templateSchema = z.object({
+  name: z.string().trim().min(1, "Template name is required"),
+  subject: z.string().trim().min(1, "Subject is required"),
+  body_text: z.string().trim().min(1, "Plain-text body is required"),
+  body_html: z.string().optional(),
+});
+
+type Template = Tables<"email_templates">;
+type Draft = Pick<Template, "name" | "subject" | "body_text"> & { id: string | null; body_html: string };
+type EditableField = "subject" | "body_text" | "body_html";
+
+const emptyDraft = (): Draft => ({
+  id: null,
+  name: "",
+  subject: DEFAULT_WARNING_TEMPLATE.subject,
+  body_text: DEFAULT_WARNING_TEMPLATE.body_text,
+  body_html: "",
+});
+
+const EmailTemplates = () => {
+  const { courseId } = useParams<{ courseId?: string }>();
+  const institution = !courseId;
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [course, setCourse] = useState<Tables<"courses"> | null>(null);
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  const [students, setStudents] = useState<StudentAttendanceSummary[]>([]);
+  const [previewStudentKey, setPreviewStudentKey] = useState<string>("");
+  const [saving, setSaving] = useState(false);
+  const lastField = useRef<{ field: EditableField; position: number }>({ field: "body_text", position: 0 });
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const backPath = institution ? "/admin" : "/professor";
+
+  const loadTemplates = async () => {
+    let query = supabase.from("email_templates").select("*").order("name", { ascending: true });
+    query = institution ? query.is("course_id", null) : query.eq("course_id", courseId);
+
+    const { data, error } = await query;
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading templates",
+        description: error.message,
+      });
+    } else {
+      setTemplates(data || []);
+    }
+  };
+
+  useEffect(() => {
+    loadTemplates();
+
+    if (courseId) {
+      supabase
+        .from("courses")
+        .select("*")
+        .eq("id", courseId)
+        .single()
+        .then(({ data }) => setCourse(data));
+    }
+
+    // Real students to preview the merge fields against
+    supabase
+      .rpc("get_student_attendance_summary", courseId ? { _course_ids: [courseId] } : {})
+      .then(({ data }) => {
+        setStudents(data || []);
+        if (data?.[0]) setPreviewStudentKey(`${data[0].course_id}-${data[0].student_id}`);
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [courseId]);
+
+  const updateDraft = (field: keyof Draft, value: string) => {
+    setDraft((current) => ({ ...current, [field]: value }));
+  };
+
+  const rememberCursor = (field: EditableField) => (e: React.SyntheticEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    lastField.current = { field, position: e.currentTarget.selectionStart ?? e.currentTarget.value.length };
+  };
+
+  const insertMergeField = (key: string) => {
+    const { field, position } = lastField.current;
+    const token = `{{${key}}}`;
+    setDraft((current) => {
+      const value = current[field];
+      return { ...current, [field]: value.slice(0, position) + token + value.slice(position) };
+    });
+    lastField.current = { field, position: position + token.length };
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+
+    try {
+      const data = templateSchema.parse(draft);
+      const unknown = unknownMergeFields(`${data.subject} ${data.body_text} ${data.body_html ?? ""}`);
+      if (unknown.length > 0) {
+        throw new Error(`Unknown merge field(s): ${unknown.map((key) => `{{${key}}}`).join(", ")}`);
+      }
+
+      const values = {
+        name: data.name,
+        subject: data.subject,
+        body_text: data.body_text,
+        body_html: data.body_html?.trim() ? data.body_html : null,
+      };
+
+      const { data: saved, error } = draft.id
+        ? await supabase.from("email_templates").update(values).eq("id", draft.id).select().single()
+        : await supabase
+            .from("email_templates")
+            .insert({ ...values, course_id: courseId ?? null, created_by: user?.id })
+            .select()
+            .single();
+
+      if (error) throw error;
+
+      setDraft({ ...saved, body_html: saved.body_html ?? "" });
+      toast({
+        title: "Template saved",
+        description: `${saved.name} is ready to use for warning emails.`,
+      });
+      loadTemplates();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to save template",
+        description:
+          error instanceof z.ZodError ? error.errors[0].message : (error as Error).message || "Please try again.",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft.id) return;
+
+    const { error } = await supabase.from("email_templates").delete().eq("id", draft.id);
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to delete template",
+        description: error.message,
+      });
+    } else {
+      setDraft(emptyDraft());
+      loadTemplates();
+    }
+  };
+
+  const previewStudent = students.find((s) => `${s.course_id}-${s.student_id}` === previewStudentKey);
+  const preview = previewStudent
+    ? renderTemplate(
+        { subject: draft.subject, body_text: draft.body_text, body_html: draft.body_html || null },
+        mergeFieldsFromSummary(previewStudent),
+      )
+    : null;
+
+  return (
+    <div className="min-h-screen bg-secondary/30">
+      <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur shadow-soft">
+        <div className="container flex h-16 items-center justify-between px-4">
+          <div className="flex items-center gap-2 font-bold text-xl">
+            <QrCode className="w-6 h-6 text-primary" />
+            <span>AttendTrack</span>
+          </div>
+          <Button variant="ghost" onClick={() => navigate(backPath)}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </div>
+      </header>
+
+      <main className="container py-8 px-4">
+        <div className="max-w-6xl mx-auto space-y-8">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Email Templates</h1>
+            <p className="text-muted-foreground">
+              {institution
+                ? "Institution-wide defaults available to every professor"
+                : course
+                  ? `Warning emails for ${course.name} (${course.code})`
+                  : "Loading course..."}
+            </p>
+          </div>
+
+          <div className="grid lg:grid-cols-3 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Templates</CardTitle>
+                <CardDescription>Select a template to edit</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <Button variant="outline" className="w-full" onClick={() => setDraft(emptyDraft())}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  New Template
+                </Button>
+                {templates.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-4">No templates yet.</p>
+                ) : (
+                  templates.map((template) => (
+                    <button
+                      key={template.id}
+                      type="button"
+                      onClick={() => setDraft({ ...template, body_html: template.body_html ?? "" })}
+                      className={`w-full text-left p-3 rounded-lg border transition-colors hover:bg-accent/50 ${
+                        draft.id === template.id ? "border-primary bg-accent/30" : ""
+                      }`}
+                    >
+                      <p className="font-medium flex items-center gap-2">
+                        <FileText className="w-4 h-4" />
+                        {template.name}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">{template.subject}</p>
+                    </button>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>{draft.id ? "Edit Template" : "New Template"}</CardTitle>
+                <CardDescription>Click a merge field to insert it at the cursor</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  {MERGE_FIELDS.map((field) => (
+                    <Badge
+                      key={field.key}
+                      variant="outline"
+                      className="cursor-pointer"
+                      title={field.description}
+                      onClick={() => insertMergeField(field.key)}
+                    >
+                      {`{{${field.key}}}`}
+                    </Badge>
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="template-name">Name</Label>
+                  <Input
+                    id="template-name"
+                    value={draft.name}
+                    onChange={(e) => updateDraft("name", e.target.value)}
+                    placeholder="e.g., First warning"
+                    disabled={saving}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-subject">Subject</Label>
+                  <Input
+                    id="template-subject"
+                    value={draft.subject}
+                    onChange={(e) => updateDraft("subject", e.target.value)}
+                    onSelect={rememberCursor("subject")}
+                    disabled={saving}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-text">Plain-text body</Label>
+                  <Textarea
+                    id="template-text"
+                    rows={8}
+                    value={draft.body_text}
+                    onChange={(e) => updateDraft("body_text", e.target.value)}
+                    onSelect={rememberCursor("body_text")}
+                    disabled={saving}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-html">HTML body (optional)</Label>
+                  <Textarea
+                    id="template-html"
+                    rows={6}
+                    className="font-mono text-xs"
+                    value={draft.body_html}
+                    onChange={(e) => updateDraft("body_html", e.target.value)}
+                    onSelect={rememberCursor("body_html")}
+                    placeholder="<p>Hi {{student_name}},</p>"
+                    disabled={saving}
+                  />
+                </div>
+
+                <div className="flex gap-2">
+                  <Button onClick={handleSave} disabled={saving} className="flex-1">
+                    <Save className="w-4 h-4 mr-2" />
+                    {saving ? "Saving..." : "Save Template"}
+                  </Button>
+                  {draft.id && (
+                    <Button variant="outline" onClick={handleDelete} disabled={saving}>
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Delete
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <CardTitle>Live Preview</CardTitle>
+                  <CardDescription>Rendered with a real student's attendance</CardDescription>
+                </div>
+                <Select value={previewStudentKey} onValueChange={setPreviewStudentKey}>
+                  <SelectTrigger className="w-72">
+                    <SelectValue placeholder="Choose a student" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {students.map((student) => (
+                      <SelectItem
+                        key={`${student.course_id}-${student.student_id}`}
+                        value={`${student.course_id}-${student.student_id}`}
+                      >
+                        {student.full_name || student.email} · {student.course_code}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {!preview ? (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  Enroll students in a course to preview templates against real data.
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  <p className="text-sm">
+                    <span className="font-medium">Subject:</span> {preview.subject}
+                  </p>
+                  <Tabs defaultValue="text">
+                    <TabsList>
+                      <TabsTrigger value="text">Plain text</TabsTrigger>
+                      <TabsTrigger value="html" disabled={!preview.html}>
+                        HTML
+                      </TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="text">
+                      <pre className="whitespace-pre-wrap text-sm p-4 rounded-lg border bg-background">{preview.text}</pre>
+                    </TabsContent>
+                    <TabsContent value="html">
+                      {preview.html && (
+                        <iframe
+                          title="HTML preview"
+                          sandbox=""
+                          srcDoc={preview.html}
+                          className="w-full h-64 rounded-lg border bg-white"
+                        />
+                      )}
+                    </TabsContent>
+                  </Tabs>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default EmailTemplates;
@@ -0,0 +1,21 @@
+import { Link } from "react-router-dom";
+import { homePathForRoles, useAuth } from "@/hooks/use-auth";
+
+const Forbidden = () => {
+  const { roles } = useAuth();
+  const homePath = homePathForRoles(roles) ?? "/";
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-100">
+      <div className="text-center">
+        <h1 className="mb-4 text-4xl font-bold">403</h1>
+        <p className="mb-4 text-xl text-gray-600">You don't have access to this page</p>
+        <Link to={homePath} className="text-blue-500 underline hover:text-blue-700">
+          Go to your dashboard
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default Forbidden;
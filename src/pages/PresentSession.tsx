@@ -0,0 +1,211 @@
+import { useEffect, useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useNavigate, useParams } from "react-router-dom";
+import { useToast } from "@/hooks/use-toast";
+import { useRotatingQrToken } from "@/hooks/use-rotating-qr-token";
+import { useWakeLock } from "@/hooks/use-wake-lock";
+import { useLiveAttendance } from "@/hooks/use-live-attendance";
+import { QR_ROTATION_SECONDS } from "@/lib/qr-token";
+import { X, Maximize, Minimize, Users, RefreshCw } from "lucide-react";
+
+// How often the session is re-read to notice it being closed or extended
+const SESSION_REFRESH_MS = 5000;
+
+type PresentedSession = Tables<"class_sessions"> & {
+  courses: Pick<Tables<"courses">, "id" | "code" | "name"> | null;
+};
+
+// Full-screen projector view of a session's live QR code, without the
+// dashboard chrome. Meant to be opened on the lecture hall display.
+const PresentSession = () => {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const [session, setSession] = useState<PresentedSession | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(() => Date.now());
+  const [fullscreen, setFullscreen] = useState(!!document.fullscreenElement);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const opensAt = session?.check_in_opens_at ? new Date(session.check_in_opens_at).getTime() : null;
+  const closesAt = session?.check_in_closes_at ? new Date(session.check_in_closes_at).getTime() : null;
+  const windowOpen =
+    session?.status === "open" && (opensAt === null || opensAt <= now) && (closesAt === null || now < closesAt);
+
+  const live = useRotatingQrToken(session?.course_id ?? "", windowOpen);
+  const wakeLock = useWakeLock(!!session);
+  const { records, enrolled } = useLiveAttendance(sessionId, session?.course_id);
+
+  useEffect(() => {
+    loadSession();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessionId]);
+
+  const loadSession = async () => {
+    const { data, error } = await supabase
+      .from("class_sessions")
+      .select("*, courses:course_id ( id, code, name )")
+      .eq("id", sessionId)
+      .maybeSingle();
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading session",
+        description: error.message,
+      });
+    } else {
+      setSession(data as PresentedSession | null);
+    }
+    setLoading(false);
+  };
+
+  // Re-check the window every second so the code disappears the moment it closes
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!session) return;
+
+    // Pick up the session being closed or extended from the dashboard
+    const refreshSession = async () => {
+      const { data: latest } = await supabase
+        .from("class_sessions")
+        .select("status, check_in_closes_at")
+        .eq("id", session.id)
+        .maybeSingle();
+
+      if (
+        latest &&
+        (latest.status !== session.status || latest.check_in_closes_at !== session.check_in_closes_at)
+      ) {
+        setSession({ ...session, ...latest });
+      }
+    };
+
+    const timer = window.setInterval(refreshSession, SESSION_REFRESH_MS);
+    return () => window.clearInterval(timer);
+  }, [session]);
+
+  useEffect(() => {
+    const onChange = () => setFullscreen(!!document.fullscreenElement);
+    document.addEventListener("fullscreenchange", onChange);
+    return () => document.removeEventListener("fullscreenchange", onChange);
+  }, []);
+
+  const toggleFullscreen = async () => {
+    try {
+      if (document.fullscreenElement) {
+        await document.exitFullscreen();
+      } else {
+        await document.documentElement.requestFullscreen();
+      }
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Full screen unavailable",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const handleExit = async () => {
+    if (document.fullscreenElement) await document.exitFullscreen().catch(() => undefined);
+    navigate("/professor");
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-4 bg-background">
+        <p className="text-xl text-muted-foreground">Session not found</p>
+        <Button variant="outline" onClick={() => navigate("/professor")}>
+          Back to Dashboard
+        </Button>
+      </div>
+    );
+  }
+
+  const closedMessage =
+    session.status !== "open"
+      ? "This session has been closed"
+      : opensAt !== null && now < opensAt
+        ? `Check-in opens at ${new Date(opensAt).toLocaleTimeString()}`
+        : "Check-in is closed";
+
+  return (
+    <div className="flex min-h-screen flex-col bg-background">
+      <header className="flex items-start justify-between gap-4 px-8 pt-6">
+        <div>
+          <h1 className="text-5xl font-bold tracking-tight">{session.courses?.code}</h1>
+          <p className="mt-1 text-2xl text-muted-foreground">{session.courses?.name}</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="ghost" size="icon" onClick={toggleFullscreen} title="Toggle full screen">
+            {fullscreen ? <Minimize className="w-5 h-5" /> : <Maximize className="w-5 h-5" />}
+          </Button>
+          <Button variant="ghost" size="icon" onClick={handleExit} title="Exit presenter mode">
+            <X className="w-5 h-5" />
+          </Button>
+        </div>
+      </header>
+
+      <main className="flex flex-1 flex-col items-center justify-center gap-8 px-8 py-6 lg:flex-row lg:gap-16">
+        <div className="flex aspect-square w-[min(70vh,90vw)] items-center justify-center rounded-2xl bg-white p-4 shadow-soft">
+          {windowOpen && live.token ? (
+            <QRCodeSVG value={live.token} size={512} level="M" style={{ width: "100%", height: "100%" }} />
+          ) : (
+            <p className="px-8 text-center text-3xl font-medium text-gray-500">
+              {windowOpen ? live.error || "Generating QR code..." : closedMessage}
+            </p>
+          )}
+        </div>
+
+        <div className="flex w-full max-w-sm flex-col gap-10">
+          <div>
+            <p className="flex items-center gap-3 text-2xl text-muted-foreground">
+              <Users className="w-7 h-7" />
+              Checked in
+            </p>
+            <p className="text-8xl font-bold tabular-nums">{records.filter((record) => record.status !== "absent").length}</p>
+            {enrolled > 0 && <p className="text-2xl text-muted-foreground">of {enrolled} enrolled</p>}
+          </div>
+
+          {windowOpen && (
+            <div className="space-y-3">
+              <p className="flex items-center gap-3 text-2xl text-muted-foreground">
+                <RefreshCw className="w-6 h-6" />
+                New code in <span className="font-semibold tabular-nums text-foreground">{live.secondsLeft}s</span>
+              </p>
+              <Progress value={(live.secondsLeft / QR_ROTATION_SECONDS) * 100} className="h-3" />
+              {closesAt !== null && (
+                <p className="text-lg text-muted-foreground">
+                  Check-in closes at {new Date(closesAt).toLocaleTimeString()}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+
+      <footer className="px-8 pb-4 text-sm text-muted-foreground">
+        Scan with the AttendTrack app to check in
+        {wakeLock.supported && !wakeLock.active && " · Screen may sleep: keep this tab in the foreground"}
+      </footer>
+    </div>
+  );
+};
+
+export default PresentSession;
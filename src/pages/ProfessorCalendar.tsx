@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { useNavigate } from "react-router-dom";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import SessionCalendar from "@/components/SessionCalendar";
+import { CalendarSession, PROFESSOR_CALENDAR_TONES, turnoutTone } from "@/lib/calendar";
+import { QrCode, ArrowLeft } from "lucide-react";
+
+type TaughtSession = Tables<"class_sessions"> & {
+  courses: Pick<Tables<"courses">, "code" | "name" | "required_attendance_pct"> | null;
+};
+
+// Professor's sessions across their courses, coloured by turnout
+const ProfessorCalendar = () => {
+  const { user } = useAuth();
+  const [sessions, setSessions] = useState<CalendarSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const loadSessions = async (from: Date, to: Date) => {
+    setLoading(true);
+
+    const { data: courses } = await supabase.from("courses").select("id").eq("professor_id", user.id);
+    const courseIds = (courses || []).map((course) => course.id);
+
+    const [sessionsResult, summaryResult] = await Promise.all([
+      supabase
+        .from("class_sessions")
+        .select("*, courses:course_id ( code, name, required_attendance_pct )")
+        .in("course_id", courseIds)
+        .neq("status", "cancelled")
+        .gte("starts_at", from.toISOString())
+        .lte("starts_at", to.toISOString()),
+      supabase.rpc("get_session_attendance_summary", {
+        _course_ids: courseIds,
+        _from: from.toISOString(),
+        _to: to.toISOString(),
+      }),
+    ]);
+
+    if (sessionsResult.error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading sessions",
+        description: sessionsResult.error.message,
+      });
+    } else {
+      const turnout = new Map((summaryResult.data || []).map((summary) => [summary.session_id, summary]));
+
+      setSessions(
+        ((sessionsResult.data || []) as TaughtSession[]).map((session) => {
+          const summary = turnout.get(session.id);
+          const tone = turnoutTone(session, summary?.attendance_pct, session.courses?.required_attendance_pct);
+          return {
+            id: session.id,
+            courseCode: session.courses?.code ?? "",
+            courseName: session.courses?.name ?? "",
+            startsAt: new Date(session.starts_at),
+            endsAt: new Date(session.ends_at),
+            room: session.room,
+            tone,
+            detail:
+              tone === "upcoming" || !summary
+                ? "Upcoming"
+                : `${summary.present_count}/${summary.enrolled_count} present · ${summary.attendance_pct}%`,
+            href: `/professor/session/${session.id}`,
+          };
+        }),
+      );
+    }
+    setLoading(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-secondary/30">
+      <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur shadow-soft">
+        <div className="container flex h-16 items-center justify-between px-4">
+          <div className="flex items-center gap-2 font-bold text-xl">
+            <QrCode className="w-6 h-6 text-primary" />
+            <span>AttendTrack</span>
+          </div>
+          <Button variant="ghost" onClick={() => navigate("/professor")}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </div>
+      </header>
+
+      <main className="container py-8 px-4">
+        <div className="max-w-4xl mx-auto space-y-8">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Teaching Calendar</h1>
+            <p className="text-muted-foreground">Every session across your courses, coloured by turnout</p>
+          </div>
+
+          <SessionCalendar
+            sessions={sessions}
+            tones={PROFESSOR_CALENDAR_TONES}
+            loading={loading}
+            onRangeChange={loadSessions}
+          />
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ProfessorCalendar;
@@ -1,18 +1,27 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
-import { User } from "@supabase/supabase-js";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useNavigate, useLocation } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
-import { QrCode, Users, BookOpen, LogOut, Plus } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { QrCode, Users, BookOpen, LogOut, Plus, FileText, MapPin, ClipboardCheck, CalendarDays, CalendarClock, Pencil, ArchiveRestore } from "lucide-react";
 import QRCodeGenerator from "@/components/QRCodeGenerator";
+import ClassSessionControls from "@/components/ClassSessionControls";
+import RosterImportDialog from "@/components/RosterImportDialog";
 import ChatAnalytics from "@/components/ChatAnalytics";
+import FlaggedCheckIns from "@/components/FlaggedCheckIns";
+import ExcuseReviewQueue from "@/components/ExcuseReviewQueue";
+import TermSwitcher from "@/components/TermSwitcher";
+import { useTermFilter } from "@/hooks/use-academic-terms";
+import { ALL_TERMS, courseTermLabel } from "@/lib/terms";
+import { SetCourseArchivedResult } from "@/lib/courses";
 
 const ProfessorDashboard = () => {
-  const [user, setUser] = useState<User | null>(null);
+  const { user, signOut } = useAuth();
   const [courses, setCourses] = useState<any[]>([]);
   const [chatAnalyticsOpen, setChatAnalyticsOpen] = useState(false);
+  const { terms, termId, setTermId } = useTermFilter();
   const navigate = useNavigate();
   const location = useLocation();
   const { toast } = useToast();
@@ -35,17 +44,6 @@ const ProfessorDashboard = () => {
     }
   };
 
-  useEffect(() => {
-    supabase.auth.getUser().then(({ data: { user } }) => {
-      if (!user) {
-        navigate("/auth");
-      } else {
-        setUser(user);
-        loadCourses(user.id);
-      }
-    });
-  }, [navigate]);
-
   // Reload courses when returning to this page (e.g., from create course)
   useEffect(() => {
     if (user && location.pathname === "/professor") {
@@ -54,8 +52,33 @@ const ProfessorDashboard = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [location.pathname, user]);
 
+  // Archived courses keep their history but drop out of the active list
+  const activeCourses = courses.filter((course) => !course.archived_at);
+  const archivedCourses = courses.filter((course) => course.archived_at);
+  const termCourses =
+    termId === ALL_TERMS ? activeCourses : activeCourses.filter((course) => course.term_id === termId);
+
+  const handleRestore = async (course: (typeof courses)[number]) => {
+    const { data, error } = await supabase.rpc("set_course_archived", { _course_id: course.id, _archived: false });
+    const result = data as SetCourseArchivedResult | null;
+
+    if (error || result !== "ok") {
+      toast({
+        variant: "destructive",
+        title: "Failed to restore course",
+        description: error?.message || "This course no longer exists.",
+      });
+    } else {
+      toast({
+        title: "Course restored",
+        description: `${course.code} is back in your active courses.`,
+      });
+      if (user) loadCourses(user.id);
+    }
+  };
+
   const handleSignOut = async () => {
-    await supabase.auth.signOut();
+    await signOut();
     navigate("/");
   };
 
@@ -83,16 +106,27 @@ const ProfessorDashboard = () => {
                 Welcome back, {user?.user_metadata?.full_name || user?.email}
               </p>
             </div>
-            <Button onClick={() => navigate("/professor/create-course")}>
-              <Plus className="w-4 h-4 mr-2" />
-              Create Course
-            </Button>
+            <div className="flex gap-2">
+              <TermSwitcher terms={terms} value={termId} onChange={setTermId} />
+              <Button variant="outline" onClick={() => navigate("/professor/calendar")}>
+                <CalendarDays className="w-4 h-4 mr-2" />
+                Calendar
+              </Button>
+              <Button variant="outline" onClick={() => navigate("/professor/rooms")}>
+                <MapPin className="w-4 h-4 mr-2" />
+                Rooms
+              </Button>
+              <Button onClick={() => navigate("/professor/create-course")}>
+                <Plus className="w-4 h-4 mr-2" />
+                Create Course
+              </Button>
+            </div>
           </div>
 
           <div className="grid md:grid-cols-3 gap-6">
             <Card>
               <CardHeader>
-                <CardTitle className="text-2xl">{courses.length}</CardTitle>
+                <CardTitle className="text-2xl">{termCourses.length}</CardTitle>
                 <CardDescription>Active Courses</CardDescription>
               </CardHeader>
             </Card>
@@ -139,11 +173,13 @@ const ProfessorDashboard = () => {
               <CardDescription>Manage your courses and generate QR codes</CardDescription>
             </CardHeader>
             <CardContent>
-              {courses.length === 0 ? (
+              {termCourses.length === 0 ? (
                 <div className="text-center py-12 space-y-4">
                   <BookOpen className="w-12 h-12 mx-auto text-muted-foreground" />
                   <p className="text-muted-foreground">
-                    No courses yet. Create your first course to get started!
+                    {activeCourses.length === 0
+                      ? "No courses yet. Create your first course to get started!"
+                      : "No courses in this term."}
                   </p>
                   <Button onClick={() => navigate("/professor/create-course")}>
                     <Plus className="w-4 h-4 mr-2" />
@@ -152,7 +188,7 @@ const ProfessorDashboard = () => {
                 </div>
               ) : (
                 <div className="grid md:grid-cols-2 gap-4">
-                  {courses.map((course) => (
+                  {termCourses.map((course) => (
                     <Card key={course.id}>
                       <CardHeader>
                         <CardTitle>{course.name}</CardTitle>
@@ -161,10 +197,55 @@ const ProfessorDashboard = () => {
                       <CardContent>
                         <div className="space-y-4">
                           <div className="space-y-2 text-sm text-muted-foreground">
-                            <p>Semester: {course.semester || "N/A"}</p>
-                            <p>Year: {course.year || "N/A"}</p>
+                            <p>Term: {courseTermLabel(course, terms)}</p>
                           </div>
-                          <div className="pt-2 border-t">
+                          <div className="pt-2 border-t space-y-2">
+                            <Button
+                              variant="outline"
+                              className="w-full"
+                              onClick={() => navigate(`/professor/courses/${course.id}/edit`)}
+                            >
+                              <Pencil className="w-4 h-4 mr-2" />
+                              Edit Course
+                            </Button>
+                            <ClassSessionControls
+                              courseId={course.id}
+                              courseCode={course.code}
+                              defaultRoomId={course.room_id}
+                            />
+                            <Button
+                              variant="outline"
+                              className="w-full"
+                              onClick={() => navigate(`/professor/courses/${course.id}/attendance`)}
+                            >
+                              <ClipboardCheck className="w-4 h-4 mr-2" />
+                              Attendance
+                            </Button>
+                            <Button
+                              variant="outline"
+                              className="w-full"
+                              onClick={() => navigate(`/professor/courses/${course.id}/schedule`)}
+                            >
+                              <CalendarClock className="w-4 h-4 mr-2" />
+                              Schedule
+                            </Button>
+                            <Button
+                              variant="outline"
+                              className="w-full"
+                              onClick={() => navigate(`/professor/courses/${course.id}/roster`)}
+                            >
+                              <Users className="w-4 h-4 mr-2" />
+                              Manage Roster
+                            </Button>
+                            <Button
+                              variant="outline"
+                              className="w-full"
+                              onClick={() => navigate(`/professor/courses/${course.id}/templates`)}
+                            >
+                              <FileText className="w-4 h-4 mr-2" />
+                              Email Templates
+                            </Button>
+                            <RosterImportDialog courseId={course.id} courseCode={course.code} />
                             <QRCodeGenerator
                               courseId={course.id}
                               courseName={course.name}
@@ -179,6 +260,50 @@ const ProfessorDashboard = () => {
               )}
             </CardContent>
           </Card>
+
+          {archivedCourses.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Archived Courses</CardTitle>
+                <CardDescription>Attendance history is kept read-only until a course is restored</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  {archivedCourses.map((course) => (
+                    <div
+                      key={course.id}
+                      className="flex items-center justify-between gap-4 p-3 rounded-lg border bg-card"
+                    >
+                      <div>
+                        <p className="font-medium">
+                          {course.code} · {course.name}
+                        </p>
+                        <p className="text-xs text-muted-foreground">{courseTermLabel(course, terms)}</p>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => navigate(`/professor/courses/${course.id}/attendance`)}
+                        >
+                          <ClipboardCheck className="w-4 h-4 mr-2" />
+                          Attendance
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => handleRestore(course)}>
+                          <ArchiveRestore className="w-4 h-4 mr-2" />
+                          Restore
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <ExcuseReviewQueue courseIds={activeCourses.map((course) => course.id)} />
+
+          <FlaggedCheckIns courseIds={activeCourses.map((course) => course.id)} />
         </div>
       </main>
 
@@ -0,0 +1,341 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { useLocation, useNavigate } from "react-router-dom";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { QrCode, ArrowLeft, MapPin, Plus, Trash2, Crosshair } from "lucide-react";
+import { GeofenceMode, geofenceModeLabels, parseBoundary } from "@/lib/geofence";
+import { z } from "zod";
+
+const roomSchema = z.object({
+  name: z.string().trim().min(1, "Room name is required"),
+  building: z.string().trim().optional(),
+  maxAccuracy: z.coerce.number().positive("Accuracy threshold must be greater than 0"),
+});
+
+const circleSchema = z.object({
+  centerLat: z.coerce.number().min(-90).max(90),
+  centerLng: z.coerce.number().min(-180).max(180),
+  radius: z.coerce.number().positive("Radius must be greater than 0"),
+});
+
+const Rooms = () => {
+  const { user } = useAuth();
+  const [rooms, setRooms] = useState<Tables<"rooms">[]>([]);
+  const [shape, setShape] = useState<"circle" | "polygon">("circle");
+  const [mode, setMode] = useState<GeofenceMode>("flag");
+  const [center, setCenter] = useState({ lat: "", lng: "" });
+  const [saving, setSaving] = useState(false);
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { toast } = useToast();
+  const backPath = location.pathname.startsWith("/admin") ? "/admin" : "/professor";
+
+  const loadRooms = async () => {
+    const { data, error } = await supabase.from("rooms").select("*").order("name", { ascending: true });
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading rooms",
+        description: error.message,
+      });
+    } else {
+      setRooms(data || []);
+    }
+  };
+
+  useEffect(() => {
+    loadRooms();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const fillCurrentLocation = () => {
+    navigator.geolocation?.getCurrentPosition(
+      (position) => {
+        setCenter({
+          lat: position.coords.latitude.toFixed(6),
+          lng: position.coords.longitude.toFixed(6),
+        });
+      },
+      () => {
+        toast({
+          variant: "destructive",
+          title: "Location access denied",
+          description: "Enter the coordinates manually instead.",
+        });
+      },
+      { enableHighAccuracy: true },
+    );
+  };
+
+  const handleCreateRoom = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    setSaving(true);
+
+    try {
+      const data = roomSchema.parse({
+        name: formData.get("name"),
+        building: formData.get("building") || undefined,
+        maxAccuracy: formData.get("maxAccuracy"),
+      });
+
+      let fence: Partial<Tables<"rooms">>;
+      if (shape === "circle") {
+        const circle = circleSchema.parse({
+          centerLat: center.lat,
+          centerLng: center.lng,
+          radius: formData.get("radius"),
+        });
+        fence = { center_lat: circle.centerLat, center_lng: circle.centerLng, radius_m: circle.radius };
+      } else {
+        const parsed = parseBoundary(String(formData.get("boundary") || ""));
+        if ("error" in parsed) throw new Error(parsed.error);
+        fence = { boundary: parsed.boundary };
+      }
+
+      const { error } = await supabase.from("rooms").insert({
+        ...fence,
+        name: data.name,
+        building: data.building || null,
+        max_accuracy_m: data.maxAccuracy,
+        geofence_mode: mode,
+        created_by: user?.id,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Room created",
+        description: `${data.name} can now be linked to courses and sessions.`,
+      });
+      form.reset();
+      setCenter({ lat: "", lng: "" });
+      loadRooms();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to create room",
+        description: error instanceof z.ZodError ? error.errors[0].message : (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteRoom = async (room: Tables<"rooms">) => {
+    const { error } = await supabase.from("rooms").delete().eq("id", room.id);
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to delete room",
+        description: error.message,
+      });
+    } else {
+      setRooms((current) => current.filter((r) => r.id !== room.id));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-secondary/30">
+      <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur shadow-soft">
+        <div className="container flex h-16 items-center justify-between px-4">
+          <div className="flex items-center gap-2 font-bold text-xl">
+            <QrCode className="w-6 h-6 text-primary" />
+            <span>AttendTrack</span>
+          </div>
+          <Button variant="ghost" onClick={() => navigate(backPath)}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </div>
+      </header>
+
+      <main className="container py-8 px-4">
+        <div className="max-w-4xl mx-auto space-y-8">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Rooms</h1>
+            <p className="text-muted-foreground">Where classes meet, used to check that students are really there</p>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Add Room</CardTitle>
+              <CardDescription>Define the room as a circle around a point or as a polygon</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleCreateRoom} className="space-y-4">
+                <div className="grid md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="name">Room Name *</Label>
+                    <Input id="name" name="name" placeholder="e.g., Room 204" required disabled={saving} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="building">Building</Label>
+                    <Input id="building" name="building" placeholder="e.g., Science Hall" disabled={saving} />
+                  </div>
+                </div>
+
+                <Tabs value={shape} onValueChange={(value) => setShape(value as "circle" | "polygon")}>
+                  <TabsList>
+                    <TabsTrigger value="circle">Center + radius</TabsTrigger>
+                    <TabsTrigger value="polygon">Polygon</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="circle" className="space-y-4">
+                    <div className="grid md:grid-cols-3 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="centerLat">Latitude</Label>
+                        <Input
+                          id="centerLat"
+                          value={center.lat}
+                          onChange={(e) => setCenter((c) => ({ ...c, lat: e.target.value }))}
+                          placeholder="51.507351"
+                          disabled={saving}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="centerLng">Longitude</Label>
+                        <Input
+                          id="centerLng"
+                          value={center.lng}
+                          onChange={(e) => setCenter((c) => ({ ...c, lng: e.target.value }))}
+                          placeholder="-0.127758"
+                          disabled={saving}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="radius">Radius (m)</Label>
+                        <Input id="radius" name="radius" type="number" min="1" defaultValue={50} disabled={saving} />
+                      </div>
+                    </div>
+                    <Button type="button" variant="outline" onClick={fillCurrentLocation} disabled={saving}>
+                      <Crosshair className="w-4 h-4 mr-2" />
+                      Use My Current Location
+                    </Button>
+                  </TabsContent>
+                  <TabsContent value="polygon" className="space-y-2">
+                    <Label htmlFor="boundary">Boundary points</Label>
+                    <Textarea
+                      id="boundary"
+                      name="boundary"
+                      rows={4}
+                      className="font-mono text-xs"
+                      placeholder="[[51.5075, -0.1280], [51.5075, -0.1275], [51.5072, -0.1275], [51.5072, -0.1280]]"
+                      disabled={saving}
+                    />
+                    <p className="text-xs text-muted-foreground">A JSON list of [latitude, longitude] corners.</p>
+                  </TabsContent>
+                </Tabs>
+
+                <div className="grid md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="maxAccuracy">Max GPS accuracy (m)</Label>
+                    <Input
+                      id="maxAccuracy"
+                      name="maxAccuracy"
+                      type="number"
+                      min="1"
+                      defaultValue={100}
+                      disabled={saving}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>When a check-in is outside</Label>
+                    <Select value={mode} onValueChange={(value) => setMode(value as GeofenceMode)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(geofenceModeLabels) as GeofenceMode[]).map((value) => (
+                          <SelectItem key={value} value={value}>
+                            {geofenceModeLabels[value]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <Button type="submit" disabled={saving}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  {saving ? "Saving..." : "Add Room"}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>All Rooms ({rooms.length})</CardTitle>
+              <CardDescription>Link a room to a course or to individual sessions</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {rooms.length === 0 ? (
+                <div className="text-center py-12 space-y-4">
+                  <MapPin className="w-12 h-12 mx-auto text-muted-foreground" />
+                  <p className="text-muted-foreground">No rooms yet.</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Room</TableHead>
+                      <TableHead>Fence</TableHead>
+                      <TableHead>Max accuracy</TableHead>
+                      <TableHead>Mode</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rooms.map((room) => (
+                      <TableRow key={room.id}>
+                        <TableCell className="font-medium">
+                          {room.name}
+                          {room.building && <span className="text-muted-foreground"> · {room.building}</span>}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {room.boundary
+                            ? `Polygon (${(room.boundary as unknown[]).length} points)`
+                            : `${room.radius_m} m around ${room.center_lat}, ${room.center_lng}`}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{room.max_accuracy_m} m</TableCell>
+                        <TableCell>
+                          <Badge variant={room.geofence_mode === "reject" ? "destructive" : "secondary"}>
+                            {room.geofence_mode}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {(room.created_by === user?.id || backPath === "/admin") && (
+                            <Button variant="ghost" size="sm" onClick={() => handleDeleteRoom(room)}>
+                              <Trash2 className="w-4 h-4 mr-2" />
+                              Delete
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Rooms;
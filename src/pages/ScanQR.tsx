@@ -1,30 +1,33 @@
 import { useEffect, useState, useRef } from "react";
-import { supabase } from "@/integrations/supabase/client";
-import { User } from "@supabase/supabase-js";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useOfflineCheckIns } from "@/hooks/use-offline-check-ins";
 import { QrCode, ArrowLeft, MapPin } from "lucide-react";
 import { Html5Qrcode } from "html5-qrcode";
+import { isSignedQrToken } from "@/lib/qr-token";
+import { checkInErrorMessages, submitCheckIn } from "@/lib/check-in";
+import { enqueueCheckIn, isNetworkError } from "@/lib/offline-queue";
+import { FLAGGED_GEOFENCE_STATUSES, formatMetres, geofenceStatusLabels } from "@/lib/geofence";
+import { attendanceStatusLabels } from "@/lib/attendance";
+
+// html5-qrcode reports the same code on every frame; ignore repeats within this window
+const SCAN_DEBOUNCE_MS = 3000;
 
 const ScanQR = () => {
-  const [user, setUser] = useState<User | null>(null);
+  const { user } = useAuth();
+  const { items: queuedCheckIns } = useOfflineCheckIns(user?.id);
   const [scanning, setScanning] = useState(false);
   const [location, setLocation] = useState<{ lat: number; lng: number; accuracy: number } | null>(null);
   const scannerRef = useRef<Html5Qrcode | null>(null);
+  const checkInInFlight = useRef(false);
+  const lastScan = useRef<{ token: string; at: number } | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
 
   useEffect(() => {
-    supabase.auth.getUser().then(({ data: { user } }) => {
-      if (!user) {
-        navigate("/auth");
-      } else {
-        setUser(user);
-      }
-    });
-
     // Get user location
     if (navigator.geolocation) {
       navigator.geolocation.getCurrentPosition(
@@ -42,7 +45,9 @@ const ScanQR = () => {
             title: "Location access denied",
             description: "Please enable location access to verify attendance",
           });
-        }
+        },
+        // Rooms reject fixes worse than their accuracy threshold, so ask for GPS
+        { enableHighAccuracy: true, maximumAge: 0 }
       );
     }
 
@@ -63,6 +68,11 @@ const ScanQR = () => {
           qrbox: { width: 250, height: 250 },
         },
         (decodedText) => {
+          const now = Date.now();
+          if (checkInInFlight.current) return;
+          if (lastScan.current?.token === decodedText && now - lastScan.current.at < SCAN_DEBOUNCE_MS) return;
+
+          lastScan.current = { token: decodedText, at: now };
           handleQRCodeScanned(decodedText);
         },
         (errorMessage) => {
@@ -95,97 +105,88 @@ const ScanQR = () => {
     }
   };
 
+  const queueCheckIn = async (qrData: string, scannedAt: Date) => {
+    await enqueueCheckIn(user.id, qrData, scannedAt, location);
+    stopScanning();
+    toast({
+      title: "Saved offline",
+      description: "You're not connected right now. Your check-in will be retried automatically, but it only counts if it gets through within 2 minutes.",
+    });
+    setTimeout(() => {
+      navigate("/student");
+    }, 2000);
+  };
+
   const handleQRCodeScanned = async (qrData: string) => {
-    try {
-      // Parse QR code data (expected format: JSON with course_id)
-      let courseData;
-      try {
-        courseData = JSON.parse(qrData);
-      } catch {
-        // If not JSON, try to extract course ID from URL or plain text
-        courseData = { course_id: qrData };
-      }
+    checkInInFlight.current = true;
+    // Captured before any network call so a queued check-in keeps its real time
+    const scannedAt = new Date();
 
-      const courseId = courseData.course_id || courseData.id;
-      
-      if (!courseId) {
+    try {
+      if (!isSignedQrToken(qrData)) {
         toast({
           variant: "destructive",
           title: "Invalid QR Code",
-          description: "The scanned QR code does not contain valid course information.",
+          description: "This code is not a signed AttendTrack check-in code. Ask your professor to display a new one.",
         });
         stopScanning();
         return;
       }
 
-      // Verify course exists
-      const { data: course, error: courseError } = await supabase
-        .from("courses")
-        .select("id, name, code")
-        .eq("id", courseId)
-        .single();
+      if (!navigator.onLine) {
+        await queueCheckIn(qrData, scannedAt);
+        return;
+      }
+
+      // Token, enrollment, session window, duplicates and location are all checked server-side
+      const result = await submitCheckIn(qrData, location);
+      stopScanning();
 
-      if (courseError || !course) {
+      if (result.status === "duplicate") {
         toast({
-          variant: "destructive",
-          title: "Course not found",
-          description: "The scanned QR code references a course that doesn't exist.",
+          title: "Already checked in",
+          description: `You're already marked present for this session of ${result.course_name}.`,
         });
-        stopScanning();
         return;
       }
 
-      // Check if already checked in today
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const tomorrow = new Date(today);
-      tomorrow.setDate(tomorrow.getDate() + 1);
-
-      const { data: existingRecord } = await supabase
-        .from("attendance_records")
-        .select("id")
-        .eq("student_id", user?.id)
-        .eq("course_id", courseId)
-        .gte("checked_in_at", today.toISOString())
-        .lt("checked_in_at", tomorrow.toISOString())
-        .single();
-
-      if (existingRecord) {
+      if (result.status !== "ok") {
+        const message = checkInErrorMessages[result.status];
         toast({
           variant: "destructive",
-          title: "Already checked in",
-          description: `You've already checked in to ${course.name} today.`,
+          title: message.title,
+          description:
+            result.status === "out_of_range" && result.distance_m !== null
+              ? `${message.description} You appear to be ${formatMetres(result.distance_m)} away.`
+              : message.description,
         });
-        stopScanning();
         return;
       }
 
-      // Create attendance record
-      const { error: insertError } = await supabase
-        .from("attendance_records")
-        .insert({
-          student_id: user?.id,
-          course_id: courseId,
-          latitude: location?.lat || null,
-          longitude: location?.lng || null,
-          location_accuracy: location?.accuracy || null,
-        });
+      const statusLabel = attendanceStatusLabels[result.attendance_status ?? "present"].toLowerCase();
 
-      if (insertError) {
-        throw insertError;
+      if (FLAGGED_GEOFENCE_STATUSES.includes(result.geofence_status)) {
+        toast({
+          title: "Checked in, flagged for review",
+          description: `You're marked ${statusLabel} for ${result.course_name}, but your professor will review it: ${geofenceStatusLabels[result.geofence_status].toLowerCase()}.`,
+        });
+      } else {
+        toast({
+          title: "Check-in successful!",
+          description: `You've been marked ${statusLabel} for ${result.course_name} (${result.course_code}).`,
+        });
       }
 
-      stopScanning();
-      toast({
-        title: "Check-in successful!",
-        description: `You've been marked present for ${course.name} (${course.code}).`,
-      });
-
       // Navigate back to dashboard after a short delay
       setTimeout(() => {
         navigate("/student");
       }, 2000);
     } catch (error: any) {
+      if (isNetworkError(error)) {
+        await queueCheckIn(qrData, scannedAt);
+        return;
+      }
+
       console.error("Error processing QR code:", error);
       toast({
         variant: "destructive",
@@ -193,6 +194,8 @@ const ScanQR = () => {
         description: error.message || "An error occurred while processing your check-in.",
       });
       stopScanning();
+    } finally {
+      checkInInFlight.current = false;
     }
   };
 
@@ -227,7 +230,7 @@ const ScanQR = () => {
                 {location ? (
                   <span className="flex items-center gap-2 text-green-600">
                     <MapPin className="w-4 h-4" />
-                    Location verified
+                    Location ready (±{Math.round(location.accuracy)} m)
                   </span>
                 ) : (
                   "Requesting location access..."
@@ -260,6 +263,12 @@ const ScanQR = () => {
               <p className="text-sm text-muted-foreground text-center">
                 Make sure you're in a well-lit area and hold your device steady
               </p>
+              {queuedCheckIns.some((item) => item.state === "pending") && (
+                <p className="text-sm text-muted-foreground text-center">
+                  {queuedCheckIns.filter((item) => item.state === "pending").length} offline check-in(s) waiting to
+                  sync
+                </p>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -0,0 +1,221 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useToast } from "@/hooks/use-toast";
+import { LiveConnection, useLiveAttendance } from "@/hooks/use-live-attendance";
+import { formatMetres, geofenceStatusLabels } from "@/lib/geofence";
+import { needsReview } from "@/lib/check-in";
+import { attendanceStatusBadgeVariants, attendanceStatusLabels, isManuallyEdited } from "@/lib/attendance";
+import { QrCode, ArrowLeft, MonitorPlay, Radio, RefreshCw, ClipboardCheck } from "lucide-react";
+
+type LiveSession = Tables<"class_sessions"> & {
+  courses: Pick<Tables<"courses">, "code" | "name"> | null;
+};
+
+const connectionLabels: Record<LiveConnection, string> = {
+  connecting: "Connecting...",
+  live: "Live",
+  reconnecting: "Reconnecting...",
+};
+
+// Professor's view of a single session: check-ins appear as students scan
+const SessionLive = () => {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const [session, setSession] = useState<LiveSession | null>(null);
+  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { records, students, enrolled, connection, refresh } = useLiveAttendance(sessionId, session?.course_id);
+
+  useEffect(() => {
+    loadSession();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessionId]);
+
+  const loadSession = async () => {
+    const { data, error } = await supabase
+      .from("class_sessions")
+      .select("*, courses:course_id ( code, name )")
+      .eq("id", sessionId)
+      .maybeSingle();
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading session",
+        description: error.message,
+      });
+    } else {
+      setSession(data as LiveSession | null);
+    }
+    setLoading(false);
+  };
+
+  const presentCount = records.filter((record) => record.status !== "absent").length;
+  const flaggedCount = records.filter(needsReview).length;
+
+  return (
+    <div className="min-h-screen bg-secondary/30">
+      <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur shadow-soft">
+        <div className="container flex h-16 items-center justify-between px-4">
+          <div className="flex items-center gap-2 font-bold text-xl">
+            <QrCode className="w-6 h-6 text-primary" />
+            <span>AttendTrack</span>
+          </div>
+          <Button variant="ghost" onClick={() => navigate("/professor")}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </div>
+      </header>
+
+      <main className="container py-8 px-4">
+        <div className="max-w-4xl mx-auto space-y-8">
+          {loading ? (
+            <p className="text-muted-foreground text-center py-8">Loading...</p>
+          ) : !session ? (
+            <p className="text-muted-foreground text-center py-8">Session not found.</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div>
+                  <h1 className="text-3xl font-bold mb-2">
+                    {session.courses?.code} · {session.courses?.name}
+                  </h1>
+                  <p className="text-muted-foreground">
+                    {new Date(session.starts_at).toLocaleString()}
+                    {session.room ? ` · ${session.room}` : ""}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" asChild>
+                    <Link to={`/professor/courses/${session.course_id}/attendance?session=${session.id}`}>
+                      <ClipboardCheck className="w-4 h-4 mr-2" />
+                      Edit Attendance
+                    </Link>
+                  </Button>
+                  {session.status === "open" && (
+                    <Button variant="outline" asChild>
+                      <Link to={`/professor/session/${session.id}/present`} target="_blank" rel="noopener">
+                        <MonitorPlay className="w-4 h-4 mr-2" />
+                        Present
+                      </Link>
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              <div className="grid md:grid-cols-3 gap-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-2xl">
+                      {presentCount}
+                      {enrolled > 0 && <span className="text-muted-foreground font-normal"> / {enrolled}</span>}
+                    </CardTitle>
+                    <CardDescription>Present / Enrolled</CardDescription>
+                  </CardHeader>
+                </Card>
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-2xl">{flaggedCount}</CardTitle>
+                    <CardDescription>Flagged check-ins</CardDescription>
+                  </CardHeader>
+                </Card>
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-2xl">{session.status === "open" ? "Open" : "Closed"}</CardTitle>
+                    <CardDescription>
+                      {session.check_in_closes_at
+                        ? `Check-in until ${new Date(session.check_in_closes_at).toLocaleTimeString()}`
+                        : "Session status"}
+                    </CardDescription>
+                  </CardHeader>
+                </Card>
+              </div>
+
+              <Card>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div className="space-y-1.5">
+                    <CardTitle>Check-ins</CardTitle>
+                    <CardDescription>Newest first, updated as students scan</CardDescription>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={connection === "live" ? "default" : "secondary"}>
+                      <Radio className={`w-3 h-3 mr-1 ${connection === "live" ? "animate-pulse" : ""}`} />
+                      {connectionLabels[connection]}
+                    </Badge>
+                    <Button variant="ghost" size="icon" onClick={refresh} title="Refresh">
+                      <RefreshCw className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {records.length === 0 ? (
+                    <p className="text-muted-foreground text-center py-8">No check-ins yet.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Student</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>Time</TableHead>
+                          <TableHead>Location</TableHead>
+                          <TableHead>Flags</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {records.map((record) => {
+                          const student = students[record.student_id];
+                          const flagged = needsReview(record);
+                          return (
+                            <TableRow key={record.id}>
+                              <TableCell>
+                                <p className="font-medium">{student?.full_name || "Unknown student"}</p>
+                                <p className="text-xs text-muted-foreground">{student?.email}</p>
+                              </TableCell>
+                              <TableCell>
+                                <Badge variant={attendanceStatusBadgeVariants[record.status]}>
+                                  {attendanceStatusLabels[record.status]}
+                                </Badge>
+                              </TableCell>
+                              <TableCell>{new Date(record.checked_in_at).toLocaleTimeString()}</TableCell>
+                              <TableCell>
+                                {record.geofence_status ? geofenceStatusLabels[record.geofence_status] : "—"}
+                                {record.distance_m !== null && record.distance_m > 0 && (
+                                  <span className="text-xs text-muted-foreground">
+                                    {" "}
+                                    ({formatMetres(record.distance_m)} away)
+                                  </span>
+                                )}
+                              </TableCell>
+                              <TableCell className="space-x-1">
+                                {flagged && (
+                                  <Badge variant={record.geofence_status === "outside" ? "destructive" : "secondary"}>
+                                    Review
+                                  </Badge>
+                                )}
+                                {record.synced_at && <Badge variant="outline">Offline</Badge>}
+                                {isManuallyEdited(record) && <Badge variant="outline">Manual</Badge>}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default SessionLive;
@@ -0,0 +1,334 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useNavigate } from "react-router-dom";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { addDays, format, parseISO } from "date-fns";
+import {
+  attendanceStatusBadgeVariants,
+  attendanceStatusLabels,
+  isAtRisk,
+  StudentAttendanceSummary,
+} from "@/lib/attendance";
+import { QrCode, ArrowLeft, ChevronLeft, ChevronRight, AlertTriangle } from "lucide-react";
+
+const PAGE_SIZE = 20;
+const ALL_COURSES = "all";
+
+type HistoryRecord = Tables<"attendance_records"> & {
+  courses: Pick<Tables<"courses">, "code" | "name"> | null;
+};
+
+// Student's full attendance history, with per-course standing for the selected range
+const StudentAttendance = () => {
+  const { user } = useAuth();
+  const [courses, setCourses] = useState<Pick<StudentAttendanceSummary, "course_id" | "course_code">[]>([]);
+  const [summaries, setSummaries] = useState<StudentAttendanceSummary[]>([]);
+  const [records, setRecords] = useState<HistoryRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [courseId, setCourseId] = useState(ALL_COURSES);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  // Date inputs are local calendar days; the end day is inclusive
+  const fromAt = from ? parseISO(from).toISOString() : null;
+  const toAt = to ? addDays(parseISO(to), 1).toISOString() : null;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  // The course filter lists every enrolled course, regardless of the other filters
+  useEffect(() => {
+    const loadCourses = async () => {
+      const { data } = await supabase.rpc("get_student_attendance_summary");
+      setCourses((data || []).filter((summary) => summary.student_id === user.id));
+    };
+
+    loadCourses();
+  }, [user.id]);
+
+  useEffect(() => {
+    loadSummaries();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user.id, courseId, fromAt, toAt]);
+
+  useEffect(() => {
+    loadRecords();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user.id, courseId, fromAt, toAt, page]);
+
+  const loadSummaries = async () => {
+    const { data, error } = await supabase.rpc("get_student_attendance_summary", {
+      _course_ids: courseId === ALL_COURSES ? null : [courseId],
+      _from: fromAt,
+      _to: toAt,
+    });
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading attendance summary",
+        description: error.message,
+      });
+    } else {
+      setSummaries((data || []).filter((summary) => summary.student_id === user.id));
+    }
+  };
+
+  const loadRecords = async () => {
+    setLoading(true);
+
+    let query = supabase
+      .from("attendance_records")
+      .select("*, courses:course_id ( code, name )", { count: "exact" })
+      .eq("student_id", user.id);
+    if (courseId !== ALL_COURSES) query = query.eq("course_id", courseId);
+    if (fromAt) query = query.gte("checked_in_at", fromAt);
+    if (toAt) query = query.lt("checked_in_at", toAt);
+
+    const { data, count, error } = await query
+      .order("checked_in_at", { ascending: false })
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading attendance",
+        description: error.message,
+      });
+    } else {
+      setRecords((data || []) as HistoryRecord[]);
+      setTotal(count ?? 0);
+    }
+    setLoading(false);
+  };
+
+  // Any filter change starts again from the first page
+  const filterBy = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
+  const clearFilters = () => {
+    setCourseId(ALL_COURSES);
+    setFrom("");
+    setTo("");
+    setPage(0);
+  };
+
+  const atRiskCount = summaries.filter(isAtRisk).length;
+
+  return (
+    <div className="min-h-screen bg-secondary/30">
+      <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur shadow-soft">
+        <div className="container flex h-16 items-center justify-between px-4">
+          <div className="flex items-center gap-2 font-bold text-xl">
+            <QrCode className="w-6 h-6 text-primary" />
+            <span>AttendTrack</span>
+          </div>
+          <Button variant="ghost" onClick={() => navigate("/student")}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </div>
+      </header>
+
+      <main className="container py-8 px-4">
+        <div className="max-w-4xl mx-auto space-y-8">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Attendance History</h1>
+            <p className="text-muted-foreground">
+              {atRiskCount > 0
+                ? `You're below the required attendance in ${atRiskCount} ${atRiskCount === 1 ? "course" : "courses"}.`
+                : "Every check-in and how you're doing in each course"}
+            </p>
+          </div>
+
+          <Card>
+            <CardContent className="pt-6">
+              <div className="grid gap-4 sm:grid-cols-[2fr_1fr_1fr_auto] sm:items-end">
+                <div className="space-y-2">
+                  <Label>Course</Label>
+                  <Select value={courseId} onValueChange={filterBy(setCourseId)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_COURSES}>All courses</SelectItem>
+                      {courses.map((course) => (
+                        <SelectItem key={course.course_id} value={course.course_id}>
+                          {course.course_code}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="from">From</Label>
+                  <Input
+                    id="from"
+                    type="date"
+                    value={from}
+                    max={to || undefined}
+                    onChange={(e) => filterBy(setFrom)(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="to">To</Label>
+                  <Input
+                    id="to"
+                    type="date"
+                    value={to}
+                    min={from || undefined}
+                    onChange={(e) => filterBy(setTo)(e.target.value)}
+                  />
+                </div>
+                <Button variant="ghost" onClick={clearFilters} disabled={courseId === ALL_COURSES && !from && !to}>
+                  Clear
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {summaries.length > 0 && (
+            <div className="grid md:grid-cols-2 gap-6">
+              {summaries.map((summary) => {
+                const atRisk = isAtRisk(summary);
+                return (
+                  <Card key={summary.course_id} className={atRisk ? "border-destructive" : ""}>
+                    <CardHeader className="pb-3">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <CardTitle className="text-lg truncate">{summary.course_code}</CardTitle>
+                          <CardDescription className="truncate">{summary.course_name}</CardDescription>
+                        </div>
+                        {atRisk && (
+                          <Badge variant="destructive" className="shrink-0">
+                            <AlertTriangle className="w-3 h-3 mr-1" />
+                            At risk
+                          </Badge>
+                        )}
+                      </div>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      <div className="flex items-baseline justify-between">
+                        <p className={`text-3xl font-bold ${atRisk ? "text-destructive" : ""}`}>
+                          {summary.attendance_pct === null ? "—" : `${summary.attendance_pct}%`}
+                        </p>
+                        <p className="text-sm text-muted-foreground">{summary.required_attendance_pct}% required</p>
+                      </div>
+                      <Progress value={Number(summary.attendance_pct ?? 0)} className="h-2" />
+                      <div className="grid grid-cols-4 gap-2 text-center text-sm">
+                        <div>
+                          <p className="font-semibold">{summary.sessions_held}</p>
+                          <p className="text-xs text-muted-foreground">Held</p>
+                        </div>
+                        <div>
+                          <p className="font-semibold">{summary.sessions_attended}</p>
+                          <p className="text-xs text-muted-foreground">Attended</p>
+                        </div>
+                        <div>
+                          <p className="font-semibold">{summary.late_count}</p>
+                          <p className="text-xs text-muted-foreground">Late</p>
+                        </div>
+                        <div>
+                          <p className="font-semibold">{summary.excused_count}</p>
+                          <p className="text-xs text-muted-foreground">Excused</p>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Check-ins</CardTitle>
+              <CardDescription>
+                {total} {total === 1 ? "record" : "records"}, newest first
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {loading ? (
+                <p className="text-muted-foreground text-center py-8">Loading...</p>
+              ) : records.length === 0 ? (
+                <p className="text-muted-foreground text-center py-8">No attendance records match these filters.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Course</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {records.map((record) => (
+                      <TableRow key={record.id}>
+                        <TableCell>
+                          <p className="font-medium">{record.courses?.code}</p>
+                          <p className="text-xs text-muted-foreground">{record.courses?.name}</p>
+                        </TableCell>
+                        <TableCell>{format(new Date(record.checked_in_at), "EEE, MMM d, yyyy")}</TableCell>
+                        <TableCell>{format(new Date(record.checked_in_at), "h:mm a")}</TableCell>
+                        <TableCell>
+                          <Badge variant={attendanceStatusBadgeVariants[record.status]}>
+                            {attendanceStatusLabels[record.status]}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              {total > PAGE_SIZE && (
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-muted-foreground">
+                    Page {page + 1} of {pageCount}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPage((current) => current - 1)}
+                      disabled={page === 0 || loading}
+                    >
+                      <ChevronLeft className="w-4 h-4 mr-1" />
+                      Previous
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPage((current) => current + 1)}
+                      disabled={page + 1 >= pageCount || loading}
+                    >
+                      Next
+                      <ChevronRight className="w-4 h-4 ml-1" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default StudentAttendance;
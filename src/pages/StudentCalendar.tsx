@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { useNavigate } from "react-router-dom";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import SessionCalendar from "@/components/SessionCalendar";
+import { attendanceStatusLabels, AttendanceStatus } from "@/lib/attendance";
+import { CalendarSession, calendarToneLabels, STUDENT_CALENDAR_TONES, studentSessionTone } from "@/lib/calendar";
+import { QrCode, ArrowLeft } from "lucide-react";
+
+type EnrolledSession = Tables<"class_sessions"> & {
+  courses: Pick<Tables<"courses">, "code" | "name"> | null;
+};
+
+// Student's sessions across all enrolled courses, coloured by their own attendance
+const StudentCalendar = () => {
+  const { user } = useAuth();
+  const [sessions, setSessions] = useState<CalendarSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const loadSessions = async (from: Date, to: Date) => {
+    setLoading(true);
+
+    const { data: enrollments } = await supabase
+      .from("course_enrollments")
+      .select("course_id")
+      .eq("student_id", user.id);
+    const courseIds = (enrollments || []).map((enrollment) => enrollment.course_id);
+
+    const [sessionsResult, recordsResult] = await Promise.all([
+      supabase
+        .from("class_sessions")
+        .select("*, courses:course_id ( code, name )")
+        .in("course_id", courseIds)
+        .neq("status", "cancelled")
+        .gte("starts_at", from.toISOString())
+        .lte("starts_at", to.toISOString()),
+      supabase
+        .from("attendance_records")
+        .select("session_id, status")
+        .eq("student_id", user.id)
+        .in("course_id", courseIds)
+        .not("session_id", "is", null),
+    ]);
+
+    if (sessionsResult.error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading sessions",
+        description: sessionsResult.error.message,
+      });
+    } else {
+      const statuses = new Map<string, AttendanceStatus>(
+        (recordsResult.data || []).map((record) => [record.session_id, record.status]),
+      );
+
+      setSessions(
+        ((sessionsResult.data || []) as EnrolledSession[]).map((session) => {
+          const status = statuses.get(session.id);
+          const tone = studentSessionTone(session, status);
+          return {
+            id: session.id,
+            courseCode: session.courses?.code ?? "",
+            courseName: session.courses?.name ?? "",
+            startsAt: new Date(session.starts_at),
+            endsAt: new Date(session.ends_at),
+            room: session.room,
+            tone,
+            detail: status ? attendanceStatusLabels[status] : calendarToneLabels[tone],
+          };
+        }),
+      );
+    }
+    setLoading(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-secondary/30">
+      <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur shadow-soft">
+        <div className="container flex h-16 items-center justify-between px-4">
+          <div className="flex items-center gap-2 font-bold text-xl">
+            <QrCode className="w-6 h-6 text-primary" />
+            <span>AttendTrack</span>
+          </div>
+          <Button variant="ghost" onClick={() => navigate("/student")}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </div>
+      </header>
+
+      <main className="container py-8 px-4">
+        <div className="max-w-4xl mx-auto space-y-8">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Class Calendar</h1>
+            <p className="text-muted-foreground">Your sessions and whether you attended</p>
+          </div>
+
+          <SessionCalendar
+            sessions={sessions}
+            tones={STUDENT_CALENDAR_TONES}
+            loading={loading}
+            onRangeChange={loadSessions}
+          />
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default StudentCalendar;
@@ -1,28 +1,47 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
-import { User } from "@supabase/supabase-js";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
-import { QrCode, Calendar, BarChart3, LogOut } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useOfflineCheckIns } from "@/hooks/use-offline-check-ins";
+import StudentExcuseRequests from "@/components/StudentExcuseRequests";
+import TermSwitcher from "@/components/TermSwitcher";
+import { useTermFilter } from "@/hooks/use-academic-terms";
+import { ALL_TERMS } from "@/lib/terms";
+import { QueuedCheckInState } from "@/lib/offline-queue";
+import {
+  attendanceStatusBadgeVariants,
+  attendanceStatusLabels,
+  isAtRisk,
+  StudentAttendanceSummary,
+} from "@/lib/attendance";
+import { QrCode, Calendar, BarChart3, LogOut, RefreshCw, CloudOff } from "lucide-react";
+
+const queuedStateBadges: Record<QueuedCheckInState, { label: string; variant: "default" | "secondary" | "destructive" }> = {
+  pending: { label: "Waiting to sync", variant: "secondary" },
+  synced: { label: "Submitted", variant: "default" },
+  rejected: { label: "Rejected", variant: "destructive" },
+};
 
 const StudentDashboard = () => {
-  const [user, setUser] = useState<User | null>(null);
+  const { user, signOut } = useAuth();
   const [attendanceRecords, setAttendanceRecords] = useState<any[]>([]);
+  const [summaries, setSummaries] = useState<StudentAttendanceSummary[]>([]);
+  const [courseTerms, setCourseTerms] = useState<Record<string, string | null>>({});
+  const { terms, termId, setTermId } = useTermFilter();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { items: queuedCheckIns, syncing, sync, clearFinished } = useOfflineCheckIns(user.id);
+  const syncedCount = queuedCheckIns.filter((item) => item.state === "synced").length;
 
+  // Reload whenever queued check-ins land so they show up in recent attendance
   useEffect(() => {
-    supabase.auth.getUser().then(({ data: { user } }) => {
-      if (!user) {
-        navigate("/auth");
-      } else {
-        setUser(user);
-        loadAttendance(user.id);
-      }
-    });
-  }, [navigate]);
+    loadAttendance(user.id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user.id, syncedCount]);
 
   const loadAttendance = async (userId: string) => {
     const { data, error } = await supabase
@@ -47,10 +66,24 @@ const StudentDashboard = () => {
     } else {
       setAttendanceRecords(data || []);
     }
+
+    // Percentages are weighted by each course's rules for late, excused and left early
+    const { data: summaryData } = await supabase.rpc("get_student_attendance_summary");
+    const ownSummaries = (summaryData || []).filter((summary) => summary.student_id === userId);
+    setSummaries(ownSummaries);
+
+    const { data: courseData } = await supabase
+      .from("courses")
+      .select("id, term_id")
+      .in("id", ownSummaries.map((summary) => summary.course_id));
+    setCourseTerms(Object.fromEntries((courseData || []).map((course) => [course.id, course.term_id])));
   };
 
+  const termSummaries =
+    termId === ALL_TERMS ? summaries : summaries.filter((summary) => courseTerms[summary.course_id] === termId);
+
   const handleSignOut = async () => {
-    await supabase.auth.signOut();
+    await signOut();
     navigate("/");
   };
 
@@ -82,9 +115,9 @@ const StudentDashboard = () => {
             <Card>
               <CardHeader>
                 <CardTitle className="text-2xl">
-                  {attendanceRecords.length}
+                  {termSummaries.reduce((sum, summary) => sum + summary.sessions_attended, 0)}
                 </CardTitle>
-                <CardDescription>Total Check-ins</CardDescription>
+                <CardDescription>Sessions Attended</CardDescription>
               </CardHeader>
             </Card>
             <Card>
@@ -104,9 +137,110 @@ const StudentDashboard = () => {
                 <CardTitle className="text-2xl">History</CardTitle>
                 <CardDescription>View all records</CardDescription>
               </CardHeader>
+              <CardContent className="space-y-2">
+                <Button variant="outline" className="w-full" onClick={() => navigate("/student/attendance")}>
+                  <BarChart3 className="w-4 h-4 mr-2" />
+                  View History
+                </Button>
+                <Button variant="outline" className="w-full" onClick={() => navigate("/student/calendar")}>
+                  <Calendar className="w-4 h-4 mr-2" />
+                  Calendar
+                </Button>
+              </CardContent>
             </Card>
           </div>
 
+          {summaries.length > 0 && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1.5">
+                    <CardTitle>Attendance by Course</CardTitle>
+                    <CardDescription>Late, left-early and excused sessions count as your course sets out</CardDescription>
+                  </div>
+                  <TermSwitcher terms={terms} value={termId} onChange={setTermId} />
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {termSummaries.length === 0 && (
+                    <p className="text-muted-foreground text-center py-4">No courses in this term.</p>
+                  )}
+                  {termSummaries.map((summary) => (
+                    <div
+                      key={summary.course_id}
+                      className="flex items-center justify-between p-4 rounded-lg border bg-card"
+                    >
+                      <div>
+                        <p className="font-medium">{summary.course_name}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {summary.sessions_attended}/{summary.sessions_held} sessions
+                          {summary.late_count > 0 && ` · ${summary.late_count} late`}
+                          {summary.left_early_count > 0 && ` · ${summary.left_early_count} left early`}
+                          {summary.excused_count > 0 && ` · ${summary.excused_count} excused`}
+                        </p>
+                      </div>
+                      <p
+                        className={`text-xl font-bold ${isAtRisk(summary) ? "text-destructive" : ""}`}
+                      >
+                        {summary.attendance_pct === null ? "—" : `${summary.attendance_pct}%`}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {queuedCheckIns.length > 0 && (
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle className="flex items-center gap-2">
+                    <CloudOff className="w-5 h-5" />
+                    Offline Check-ins
+                  </CardTitle>
+                  <CardDescription>Scans saved while you were offline</CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={sync} disabled={syncing}>
+                    <RefreshCw className={`w-4 h-4 mr-2 ${syncing ? "animate-spin" : ""}`} />
+                    Sync now
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={clearFinished}
+                    disabled={queuedCheckIns.every((item) => item.state === "pending")}
+                  >
+                    Clear finished
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {queuedCheckIns.map((item) => (
+                    <div
+                      key={item.id}
+                      className="flex items-center justify-between p-4 rounded-lg border bg-card"
+                    >
+                      <div>
+                        <p className="font-medium">{item.course_name || "Pending check-in"}</p>
+                        <p className="text-sm text-muted-foreground">
+                          Scanned {new Date(item.scanned_at).toLocaleString()}
+                        </p>
+                        {item.message && <p className="text-sm text-destructive">{item.message}</p>}
+                      </div>
+                      <Badge variant={queuedStateBadges[item.state].variant}>
+                        {queuedStateBadges[item.state].label}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle>Recent Attendance</CardTitle>
@@ -129,6 +263,11 @@ const StudentDashboard = () => {
                         <p className="text-sm text-muted-foreground">
                           {record.courses?.code || ""}
                         </p>
+                        {record.status !== "present" && (
+                          <Badge variant={attendanceStatusBadgeVariants[record.status]} className="mt-1">
+                            {attendanceStatusLabels[record.status]}
+                          </Badge>
+                        )}
                       </div>
                       <div className="text-right">
                         <p className="text-sm font-medium">
@@ -144,6 +283,8 @@ const StudentDashboard = () => {
               )}
             </CardContent>
           </Card>
+
+          <StudentExcuseRequests />
         </div>
       </main>
     </div>
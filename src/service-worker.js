@@ -0,0 +1,49 @@
+// Service worker for the installed app. The build (see vite.config.ts) emits
+// this file as /sw.js with the placeholders below filled in, so every deploy
+// ships a new worker and open clients are offered the update.
+
+const VERSION = "__BUILD_VERSION__";
+const PRECACHE = self.__PRECACHE_MANIFEST;
+const CACHE = `attendtrack-shell-${VERSION}`;
+const SHELL = "/index.html";
+
+self.addEventListener("install", (event) => {
+  // Stay waiting until the page asks us to take over (see SKIP_WAITING)
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(PRECACHE)));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys.filter((key) => key.startsWith("attendtrack-shell-") && key !== CACHE).map((key) => caches.delete(key)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "SKIP_WAITING") self.skipWaiting();
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  // Supabase and other APIs always go to the network
+  if (url.origin !== self.location.origin) return;
+
+  // Every route is rendered by the SPA, so navigations get the cached shell
+  // straight away and only fall back to the network if it is missing
+  if (request.mode === "navigate") {
+    event.respondWith(caches.match(SHELL).then((cached) => cached || fetch(request)));
+    return;
+  }
+
+  // Build assets are content-hashed, so a cached copy is always current
+  event.respondWith(caches.match(request).then((cached) => cached || fetch(request)));
+});
@@ -0,0 +1,33 @@
+// Run with `deno test supabase/functions/_shared/mail`
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { renderTemplate } from "./templates.ts";
+
+const fields = {
+  student_name: "Ada <Lovelace>",
+  course_code: "CS101",
+  course_name: "Intro",
+  attendance_pct: "62",
+  missed_sessions: "4",
+};
+
+Deno.test("renderTemplate fills known merge fields and escapes them in HTML", () => {
+  const rendered = renderTemplate(
+    { subject: "{{ course_code }}", body_text: "Hi {{student_name}}", body_html: "<p>{{student_name}}</p>" },
+    fields,
+  );
+
+  assertEquals(rendered.subject, "CS101");
+  assertEquals(rendered.text, "Hi Ada <Lovelace>");
+  assertEquals(rendered.html, "<p>Ada &lt;Lovelace&gt;</p>");
+});
+
+Deno.test("renderTemplate leaves inherited keys like {{constructor}} and {{__proto__}} as written", () => {
+  const rendered = renderTemplate(
+    { subject: "{{constructor}}", body_text: "{{__proto__}}", body_html: "<p>{{constructor}} {{ __proto__ }}</p>" },
+    fields,
+  );
+
+  assertEquals(rendered.subject, "{{constructor}}");
+  assertEquals(rendered.text, "{{__proto__}}");
+  assertEquals(rendered.html, "<p>{{constructor}} {{ __proto__ }}</p>");
+});
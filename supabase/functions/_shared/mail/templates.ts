@@ -0,0 +1,49 @@
+export type MergeFields = Record<
+  "student_name" | "course_code" | "course_name" | "attendance_pct" | "missed_sessions",
+  string
+>;
+
+export interface TemplateContent {
+  subject: string;
+  body_text: string;
+  body_html: string | null;
+}
+
+export const LOW_ATTENDANCE_TEMPLATE = "low_attendance";
+
+// Used when no stored template is selected. Mirrors src/lib/email-templates.ts
+export const DEFAULT_WARNING_TEMPLATE: TemplateContent = {
+  subject: "Attendance warning for {{course_code}}",
+  body_text: [
+    "Hi {{student_name}},",
+    "",
+    "Your attendance in {{course_name}} ({{course_code}}) is currently {{attendance_pct}}%,",
+    "and you have missed {{missed_sessions}} session(s).",
+    "",
+    "Please make sure to attend upcoming classes or contact your professor if you have any questions.",
+  ].join("\n"),
+  body_html: null,
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const renderMergeFields = (template: string, fields: MergeFields, html = false) =>
+  template.replace(/\{\{\s*([a-z_]+)\s*\}\}/g, (match, key: string) => {
+    if (!Object.hasOwn(fields, key)) return match;
+    const value = fields[key as keyof MergeFields];
+    return html ? escapeHtml(value) : value;
+  });
+
+export function renderTemplate(template: TemplateContent, fields: MergeFields) {
+  return {
+    subject: renderMergeFields(template.subject, fields),
+    text: renderMergeFields(template.body_text, fields),
+    html: template.body_html ? renderMergeFields(template.body_html, fields, true) : undefined,
+  };
+}
@@ -0,0 +1,94 @@
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailResult {
+  messageId: string | null;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<MailResult>;
+  close(): Promise<void>;
+}
+
+// SMTP transport. Works with a real relay or a local catcher such as MailHog
+// (SMTP_HOST=localhost SMTP_PORT=1025 SMTP_SECURE=false, no credentials).
+export class SmtpTransport implements MailTransport {
+  readonly name = "smtp";
+  private client: SMTPClient;
+
+  constructor(
+    private from: string,
+    options: { hostname: string; port: number; secure: boolean; username?: string; password?: string },
+  ) {
+    this.client = new SMTPClient({
+      connection: {
+        hostname: options.hostname,
+        port: options.port,
+        tls: options.secure,
+        auth: options.username ? { username: options.username, password: options.password ?? "" } : undefined,
+      },
+    });
+  }
+
+  async send(message: MailMessage): Promise<MailResult> {
+    await this.client.send({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      content: message.text,
+      html: message.html,
+    });
+    return { messageId: null };
+  }
+
+  async close() {
+    await this.client.close();
+  }
+}
+
+// Logs messages instead of sending them. Useful when no SMTP server is available.
+export class LogTransport implements MailTransport {
+  readonly name = "log";
+
+  send(message: MailMessage): Promise<MailResult> {
+    console.log(`[mail] to=${message.to} subject=${JSON.stringify(message.subject)}\n${message.text}`);
+    return Promise.resolve({ messageId: crypto.randomUUID() });
+  }
+
+  close() {
+    return Promise.resolve();
+  }
+}
+
+export function createTransportFromEnv(): MailTransport {
+  const kind = Deno.env.get("MAIL_TRANSPORT") ?? "smtp";
+  const from = Deno.env.get("MAIL_FROM") ?? "AttendTrack <no-reply@attendtrack.local>";
+
+  if (kind === "log") {
+    return new LogTransport();
+  }
+
+  if (kind !== "smtp") {
+    throw new Error(`Unknown MAIL_TRANSPORT "${kind}"`);
+  }
+
+  const hostname = Deno.env.get("SMTP_HOST");
+  if (!hostname) {
+    throw new Error("SMTP_HOST is not configured");
+  }
+
+  return new SmtpTransport(from, {
+    hostname,
+    port: Number(Deno.env.get("SMTP_PORT") ?? "587"),
+    secure: (Deno.env.get("SMTP_SECURE") ?? "false") === "true",
+    username: Deno.env.get("SMTP_USER") || undefined,
+    password: Deno.env.get("SMTP_PASS") || undefined,
+  });
+}
@@ -0,0 +1,170 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { createTransportFromEnv, MailTransport } from "../_shared/mail/transport.ts";
+import {
+  DEFAULT_WARNING_TEMPLATE,
+  LOW_ATTENDANCE_TEMPLATE,
+  renderTemplate,
+  TemplateContent,
+} from "../_shared/mail/templates.ts";
+
+interface Recipient {
+  student_id: string;
+  course_id: string;
+}
+
+interface SendResult {
+  student_id: string;
+  course_id: string;
+  email: string | null;
+  outbox_id: string | null;
+  status: "sent" | "failed" | "skipped";
+  error: string | null;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const authorization = req.headers.get("Authorization");
+  if (!authorization) {
+    return json({ error: "Missing authorization" }, 401);
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  // Caller-scoped client: every read goes through RLS and the staff checks in the RPCs
+  const userClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: authorization } },
+  });
+  const adminClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+  const {
+    data: { user },
+  } = await userClient.auth.getUser();
+  if (!user) {
+    return json({ error: "Not authenticated" }, 401);
+  }
+
+  let recipients: Recipient[];
+  let templateId: string | null;
+  try {
+    const body = await req.json();
+    recipients = body.recipients;
+    templateId = body.template_id ?? null;
+    if (!Array.isArray(recipients) || recipients.length === 0) throw new Error();
+  } catch {
+    return json({ error: "Body must include a non-empty recipients array" }, 400);
+  }
+
+  // Templates are read with the caller's client so RLS decides which ones they may use
+  let template: TemplateContent & { id: string | null; name: string; course_id: string | null } = {
+    ...DEFAULT_WARNING_TEMPLATE,
+    id: null,
+    name: LOW_ATTENDANCE_TEMPLATE,
+    course_id: null,
+  };
+  if (templateId) {
+    const { data, error } = await userClient
+      .from("email_templates")
+      .select("id, name, course_id, subject, body_text, body_html")
+      .eq("id", templateId)
+      .maybeSingle();
+    if (error || !data) {
+      return json({ error: error?.message ?? "Template not found" }, 400);
+    }
+    template = data;
+  }
+
+  const courseIds = [...new Set(recipients.map((r) => r.course_id))];
+  const { data: summaries, error: summaryError } = await userClient.rpc("get_student_attendance_summary", {
+    _course_ids: courseIds,
+  });
+  if (summaryError) {
+    return json({ error: summaryError.message }, 400);
+  }
+
+  let transport: MailTransport;
+  try {
+    transport = createTransportFromEnv();
+  } catch (error) {
+    return json({ error: (error as Error).message }, 500);
+  }
+
+  const results: SendResult[] = [];
+
+  for (const recipient of recipients) {
+    const summary = summaries?.find(
+      (row: { student_id: string; course_id: string }) =>
+        row.student_id === recipient.student_id && row.course_id === recipient.course_id,
+    );
+
+    // The RPC only returns rows the caller may see, so this also enforces course ownership
+    if (!summary) {
+      results.push({ ...recipient, email: null, outbox_id: null, status: "skipped", error: "Not on your roster" });
+      continue;
+    }
+
+    if (template.course_id && template.course_id !== recipient.course_id) {
+      results.push({
+        ...recipient,
+        email: summary.email,
+        outbox_id: null,
+        status: "skipped",
+        error: "Template belongs to a different course",
+      });
+      continue;
+    }
+
+    const message = renderTemplate(template, {
+      student_name: summary.full_name || summary.email,
+      course_code: summary.course_code,
+      course_name: summary.course_name,
+      attendance_pct: String(summary.attendance_pct ?? 0),
+      missed_sessions: String(summary.sessions_held - summary.sessions_attended),
+    });
+
+    const { data: outbox, error: outboxError } = await adminClient
+      .from("email_outbox")
+      .insert({
+        course_id: recipient.course_id,
+        recipient_id: recipient.student_id,
+        recipient_email: summary.email,
+        template: template.name,
+        template_id: template.id,
+        subject: message.subject,
+        transport: transport.name,
+        sent_by: user.id,
+      })
+      .select("id")
+      .single();
+
+    if (outboxError) {
+      results.push({ ...recipient, email: summary.email, outbox_id: null, status: "failed", error: outboxError.message });
+      continue;
+    }
+
+    try {
+      const { messageId } = await transport.send({ to: summary.email, ...message });
+      await adminClient
+        .from("email_outbox")
+        .update({ status: "sent", sent_at: new Date().toISOString(), provider_message_id: messageId })
+        .eq("id", outbox.id);
+      results.push({ ...recipient, email: summary.email, outbox_id: outbox.id, status: "sent", error: null });
+    } catch (error) {
+      const message = (error as Error).message;
+      await adminClient.from("email_outbox").update({ status: "failed", error: message }).eq("id", outbox.id);
+      results.push({ ...recipient, email: summary.email, outbox_id: outbox.id, status: "failed", error: message });
+    }
+  }
+
+  await transport.close();
+
+  return json({ results });
+});
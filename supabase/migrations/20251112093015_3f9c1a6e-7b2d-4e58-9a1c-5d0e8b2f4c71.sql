@@ -0,0 +1,167 @@
+-- Signed, short-lived QR check-in tokens
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Per-course signing secrets (never readable from the client)
+CREATE TABLE public.course_qr_secrets (
+  course_id UUID PRIMARY KEY REFERENCES public.courses(id) ON DELETE CASCADE,
+  secret BYTEA NOT NULL DEFAULT extensions.gen_random_bytes(32),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Nonces of rotating tokens that have already been redeemed
+CREATE TABLE public.qr_token_redemptions (
+  nonce TEXT NOT NULL,
+  student_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  redeemed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (nonce, student_id)
+);
+
+-- RLS without policies: only security definer functions can touch these tables
+ALTER TABLE public.course_qr_secrets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.qr_token_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Sign a token payload with the course secret
+CREATE OR REPLACE FUNCTION public.sign_qr_payload(_course_id UUID, _payload TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _secret BYTEA;
+BEGIN
+  INSERT INTO public.course_qr_secrets (course_id)
+  VALUES (_course_id)
+  ON CONFLICT (course_id) DO NOTHING;
+
+  SELECT secret INTO _secret
+  FROM public.course_qr_secrets
+  WHERE course_id = _course_id;
+
+  RETURN encode(extensions.hmac(convert_to(_payload, 'UTF8'), _secret, 'sha256'), 'hex');
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.sign_qr_payload(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Issue a QR token for a course.
+-- Token format: AT1.<course_id>.<mode>.<expires_epoch>.<nonce>.<signature>
+-- mode 'r' = rotating (single use per student), 's' = static (printed, long-lived)
+CREATE OR REPLACE FUNCTION public.issue_qr_token(
+  _course_id UUID,
+  _ttl_seconds INTEGER DEFAULT 30,
+  _static BOOLEAN DEFAULT false
+)
+RETURNS TABLE (token TEXT, expires_at TIMESTAMPTZ)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _expires_at TIMESTAMPTZ;
+  _payload TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.courses c
+    WHERE c.id = _course_id
+      AND (c.professor_id = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to issue QR codes for this course'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _static THEN
+    _expires_at := now() + INTERVAL '180 days';
+  ELSE
+    _expires_at := now() + make_interval(secs => LEAST(GREATEST(_ttl_seconds, 10), 300));
+  END IF;
+
+  _payload := concat_ws('.',
+    'AT1',
+    _course_id::TEXT,
+    CASE WHEN _static THEN 's' ELSE 'r' END,
+    floor(extract(epoch FROM _expires_at))::BIGINT::TEXT,
+    encode(extensions.gen_random_bytes(8), 'hex')
+  );
+
+  RETURN QUERY SELECT
+    _payload || '.' || public.sign_qr_payload(_course_id, _payload),
+    _expires_at;
+END;
+$$;
+
+-- Verify a scanned token for the current user and consume it.
+-- Returns one of: ok, malformed, invalid_signature, expired, replayed, course_not_found
+CREATE OR REPLACE FUNCTION public.redeem_qr_token(_token TEXT)
+RETURNS TABLE (status TEXT, course_id UUID)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _parts TEXT[];
+  _course_id UUID;
+  _mode TEXT;
+  _expires_at TIMESTAMPTZ;
+  _payload TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  _parts := string_to_array(_token, '.');
+
+  IF _parts IS NULL
+    OR array_length(_parts, 1) <> 6
+    OR _parts[1] <> 'AT1'
+    OR _parts[3] NOT IN ('r', 's')
+    OR _parts[2] !~ '^[0-9a-fA-F-]{36}$'
+    OR _parts[4] !~ '^[0-9]{1,12}$'
+  THEN
+    RETURN QUERY SELECT 'malformed'::TEXT, NULL::UUID;
+    RETURN;
+  END IF;
+
+  _course_id := _parts[2]::UUID;
+  _mode := _parts[3];
+  _expires_at := to_timestamp(_parts[4]::BIGINT);
+
+  IF NOT EXISTS (SELECT 1 FROM public.courses c WHERE c.id = _course_id) THEN
+    RETURN QUERY SELECT 'course_not_found'::TEXT, _course_id;
+    RETURN;
+  END IF;
+
+  _payload := array_to_string(_parts[1:5], '.');
+
+  IF public.sign_qr_payload(_course_id, _payload) <> _parts[6] THEN
+    RETURN QUERY SELECT 'invalid_signature'::TEXT, _course_id;
+    RETURN;
+  END IF;
+
+  IF _expires_at < now() THEN
+    RETURN QUERY SELECT 'expired'::TEXT, _course_id;
+    RETURN;
+  END IF;
+
+  IF _mode = 'r' THEN
+    INSERT INTO public.qr_token_redemptions (nonce, student_id, course_id, expires_at)
+    VALUES (_parts[5], auth.uid(), _course_id, _expires_at)
+    ON CONFLICT DO NOTHING;
+
+    IF NOT FOUND THEN
+      RETURN QUERY SELECT 'replayed'::TEXT, _course_id;
+      RETURN;
+    END IF;
+  END IF;
+
+  RETURN QUERY SELECT 'ok'::TEXT, _course_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.issue_qr_token(UUID, INTEGER, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_qr_token(TEXT) TO authenticated;
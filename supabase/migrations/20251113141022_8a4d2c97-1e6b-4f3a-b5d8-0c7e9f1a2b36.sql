@@ -0,0 +1,98 @@
+-- Class sessions: individual lecture meetings with a check-in window
+CREATE TYPE public.session_status AS ENUM ('scheduled', 'open', 'closed', 'cancelled');
+
+CREATE TABLE public.class_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  room TEXT,
+  check_in_opens_at TIMESTAMPTZ,
+  check_in_closes_at TIMESTAMPTZ,
+  status session_status NOT NULL DEFAULT 'scheduled',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (ends_at > starts_at),
+  CHECK (check_in_closes_at IS NULL OR check_in_opens_at IS NULL OR check_in_closes_at > check_in_opens_at)
+);
+
+CREATE INDEX class_sessions_course_id_starts_at_idx ON public.class_sessions (course_id, starts_at DESC);
+
+-- Link attendance to the session it was taken in (legacy rows keep NULL)
+ALTER TABLE public.attendance_records
+  ADD COLUMN session_id UUID REFERENCES public.class_sessions(id) ON DELETE CASCADE;
+
+CREATE INDEX attendance_records_session_id_idx ON public.attendance_records (session_id);
+
+ALTER TABLE public.class_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Security definer helpers
+CREATE OR REPLACE FUNCTION public.is_course_staff(_user_id UUID, _course_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin') OR EXISTS (
+    SELECT 1
+    FROM public.courses
+    WHERE id = _course_id AND professor_id = _user_id
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_session_open(_session_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.class_sessions
+    WHERE id = _session_id
+      AND status = 'open'
+      AND now() >= check_in_opens_at
+      AND now() <= check_in_closes_at
+  )
+$$;
+
+-- Class sessions policies
+CREATE POLICY "Authenticated users can view sessions"
+  ON public.class_sessions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Course staff can create sessions"
+  ON public.class_sessions FOR INSERT
+  WITH CHECK (public.is_course_staff(auth.uid(), course_id));
+
+CREATE POLICY "Course staff can update sessions"
+  ON public.class_sessions FOR UPDATE
+  USING (public.is_course_staff(auth.uid(), course_id));
+
+CREATE POLICY "Course staff can delete sessions"
+  ON public.class_sessions FOR DELETE
+  USING (public.is_course_staff(auth.uid(), course_id));
+
+-- Students may only check in to a session whose window is open
+DROP POLICY "Students can create own attendance" ON public.attendance_records;
+
+CREATE POLICY "Students can create own attendance"
+  ON public.attendance_records FOR INSERT
+  WITH CHECK (
+    student_id = auth.uid()
+    AND session_id IS NOT NULL
+    AND public.is_session_open(session_id)
+    AND EXISTS (
+      SELECT 1 FROM public.class_sessions s
+      WHERE s.id = attendance_records.session_id AND s.course_id = attendance_records.course_id
+    )
+  );
+
+CREATE TRIGGER update_class_sessions_updated_at
+  BEFORE UPDATE ON public.class_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
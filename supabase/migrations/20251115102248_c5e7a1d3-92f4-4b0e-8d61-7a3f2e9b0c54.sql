@@ -0,0 +1,56 @@
+-- Course enrollments: which students belong to which course
+CREATE TABLE public.course_enrollments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  enrolled_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  enrolled_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(course_id, student_id)
+);
+
+CREATE INDEX course_enrollments_student_id_idx ON public.course_enrollments (student_id);
+
+ALTER TABLE public.course_enrollments ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_enrolled(_user_id UUID, _course_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.course_enrollments
+    WHERE student_id = _user_id AND course_id = _course_id
+  )
+$$;
+
+-- Course enrollments policies
+CREATE POLICY "Students can view own enrollments"
+  ON public.course_enrollments FOR SELECT
+  USING (student_id = auth.uid() OR public.is_course_staff(auth.uid(), course_id));
+
+CREATE POLICY "Course staff can enroll students"
+  ON public.course_enrollments FOR INSERT
+  WITH CHECK (public.is_course_staff(auth.uid(), course_id));
+
+CREATE POLICY "Course staff can remove students"
+  ON public.course_enrollments FOR DELETE
+  USING (public.is_course_staff(auth.uid(), course_id));
+
+-- Only enrolled students may check in
+DROP POLICY "Students can create own attendance" ON public.attendance_records;
+
+CREATE POLICY "Students can create own attendance"
+  ON public.attendance_records FOR INSERT
+  WITH CHECK (
+    student_id = auth.uid()
+    AND public.is_enrolled(auth.uid(), course_id)
+    AND session_id IS NOT NULL
+    AND public.is_session_open(session_id)
+    AND EXISTS (
+      SELECT 1 FROM public.class_sessions s
+      WHERE s.id = attendance_records.session_id AND s.course_id = attendance_records.course_id
+    )
+  );
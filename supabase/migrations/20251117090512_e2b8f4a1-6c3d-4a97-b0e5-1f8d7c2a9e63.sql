@@ -0,0 +1,144 @@
+-- Registrar details on enrollments
+ALTER TABLE public.course_enrollments
+  ADD COLUMN student_number TEXT,
+  ADD COLUMN section TEXT;
+
+-- Pending invitations for roster emails that have no account yet
+CREATE TABLE public.course_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  full_name TEXT,
+  student_number TEXT,
+  section TEXT,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(course_id, email),
+  CHECK (email = lower(email))
+);
+
+ALTER TABLE public.course_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Course staff can view invitations"
+  ON public.course_invitations FOR SELECT
+  USING (public.is_course_staff(auth.uid(), course_id));
+
+CREATE POLICY "Course staff can delete invitations"
+  ON public.course_invitations FOR DELETE
+  USING (public.is_course_staff(auth.uid(), course_id));
+
+-- Apply a roster import atomically.
+-- _rows: [{ email, full_name, student_number, section }]
+CREATE OR REPLACE FUNCTION public.apply_roster_import(
+  _course_id UUID,
+  _rows JSONB,
+  _remove_missing BOOLEAN DEFAULT true
+)
+RETURNS TABLE (added INTEGER, invited INTEGER, removed INTEGER, unchanged INTEGER)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _row RECORD;
+  _student_id UUID;
+  _emails TEXT[] := '{}';
+  _added INTEGER := 0;
+  _invited INTEGER := 0;
+  _removed INTEGER := 0;
+  _unchanged INTEGER := 0;
+BEGIN
+  IF NOT public.is_course_staff(auth.uid(), _course_id) THEN
+    RAISE EXCEPTION 'Not allowed to manage this roster' USING ERRCODE = '42501';
+  END IF;
+
+  FOR _row IN
+    SELECT DISTINCT ON (lower(trim(r.email)))
+      lower(trim(r.email)) AS email,
+      nullif(trim(r.full_name), '') AS full_name,
+      nullif(trim(r.student_number), '') AS student_number,
+      nullif(trim(r.section), '') AS section
+    FROM jsonb_to_recordset(_rows) AS r(email TEXT, full_name TEXT, student_number TEXT, section TEXT)
+    WHERE r.email ~* '^[^@\s]+@[^@\s]+\.[^@\s]+$'
+  LOOP
+    _emails := _emails || _row.email;
+
+    SELECT id INTO _student_id
+    FROM public.profiles
+    WHERE lower(email) = _row.email;
+
+    IF _student_id IS NULL THEN
+      INSERT INTO public.course_invitations (course_id, email, full_name, student_number, section, invited_by)
+      VALUES (_course_id, _row.email, _row.full_name, _row.student_number, _row.section, auth.uid())
+      ON CONFLICT (course_id, email) DO UPDATE
+        SET full_name = EXCLUDED.full_name,
+            student_number = EXCLUDED.student_number,
+            section = EXCLUDED.section;
+      _invited := _invited + 1;
+    ELSE
+      INSERT INTO public.course_enrollments (course_id, student_id, enrolled_by, student_number, section)
+      VALUES (_course_id, _student_id, auth.uid(), _row.student_number, _row.section)
+      ON CONFLICT (course_id, student_id) DO NOTHING;
+
+      IF FOUND THEN
+        _added := _added + 1;
+      ELSE
+        UPDATE public.course_enrollments
+        SET student_number = COALESCE(_row.student_number, student_number),
+            section = COALESCE(_row.section, section)
+        WHERE course_id = _course_id AND student_id = _student_id;
+        _unchanged := _unchanged + 1;
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF _remove_missing THEN
+    DELETE FROM public.course_enrollments e
+    USING public.profiles p
+    WHERE e.course_id = _course_id
+      AND p.id = e.student_id
+      AND NOT (lower(p.email) = ANY(_emails));
+    GET DIAGNOSTICS _removed = ROW_COUNT;
+
+    DELETE FROM public.course_invitations
+    WHERE course_id = _course_id
+      AND accepted_at IS NULL
+      AND NOT (email = ANY(_emails));
+  END IF;
+
+  RETURN QUERY SELECT _added, _invited, _removed, _unchanged;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_roster_import(UUID, JSONB, BOOLEAN) TO authenticated;
+
+-- Turn pending invitations into enrollments when the student signs up
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', '')
+  );
+
+  INSERT INTO public.course_enrollments (course_id, student_id, enrolled_by, student_number, section)
+  SELECT course_id, NEW.id, invited_by, student_number, section
+  FROM public.course_invitations
+  WHERE email = lower(NEW.email) AND accepted_at IS NULL
+  ON CONFLICT (course_id, student_id) DO NOTHING;
+
+  UPDATE public.course_invitations
+  SET accepted_at = now()
+  WHERE email = lower(NEW.email) AND accepted_at IS NULL;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,46 @@
+-- Per-student attendance aggregates.
+-- A session counts as held once it has been opened (status open or closed);
+-- scheduled and cancelled sessions are ignored.
+CREATE OR REPLACE FUNCTION public.get_student_attendance_summary(_course_ids UUID[] DEFAULT NULL)
+RETURNS TABLE (
+  course_id UUID,
+  course_code TEXT,
+  course_name TEXT,
+  student_id UUID,
+  full_name TEXT,
+  email TEXT,
+  sessions_held INTEGER,
+  sessions_attended INTEGER,
+  attendance_pct NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    e.course_id,
+    c.code,
+    c.name,
+    e.student_id,
+    p.full_name,
+    p.email,
+    COUNT(DISTINCT s.id)::INTEGER,
+    COUNT(DISTINCT a.session_id)::INTEGER,
+    CASE
+      WHEN COUNT(DISTINCT s.id) = 0 THEN NULL
+      ELSE ROUND(100.0 * COUNT(DISTINCT a.session_id) / COUNT(DISTINCT s.id), 1)
+    END
+  FROM public.course_enrollments e
+  JOIN public.courses c ON c.id = e.course_id
+  JOIN public.profiles p ON p.id = e.student_id
+  LEFT JOIN public.class_sessions s
+    ON s.course_id = e.course_id AND s.status IN ('open', 'closed')
+  LEFT JOIN public.attendance_records a
+    ON a.session_id = s.id AND a.student_id = e.student_id
+  WHERE (_course_ids IS NULL OR e.course_id = ANY(_course_ids))
+    AND (public.is_course_staff(auth.uid(), e.course_id) OR e.student_id = auth.uid())
+  GROUP BY e.course_id, c.code, c.name, e.student_id, p.full_name, p.email
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_student_attendance_summary(UUID[]) TO authenticated;
@@ -0,0 +1,105 @@
+-- Date-range filtering for attendance aggregates
+DROP FUNCTION public.get_student_attendance_summary(UUID[]);
+
+CREATE OR REPLACE FUNCTION public.get_student_attendance_summary(
+  _course_ids UUID[] DEFAULT NULL,
+  _from TIMESTAMPTZ DEFAULT NULL,
+  _to TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+  course_id UUID,
+  course_code TEXT,
+  course_name TEXT,
+  student_id UUID,
+  full_name TEXT,
+  email TEXT,
+  sessions_held INTEGER,
+  sessions_attended INTEGER,
+  attendance_pct NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    e.course_id,
+    c.code,
+    c.name,
+    e.student_id,
+    p.full_name,
+    p.email,
+    COUNT(DISTINCT s.id)::INTEGER,
+    COUNT(DISTINCT a.session_id)::INTEGER,
+    CASE
+      WHEN COUNT(DISTINCT s.id) = 0 THEN NULL
+      ELSE ROUND(100.0 * COUNT(DISTINCT a.session_id) / COUNT(DISTINCT s.id), 1)
+    END
+  FROM public.course_enrollments e
+  JOIN public.courses c ON c.id = e.course_id
+  JOIN public.profiles p ON p.id = e.student_id
+  LEFT JOIN public.class_sessions s
+    ON s.course_id = e.course_id
+    AND s.status IN ('open', 'closed')
+    AND (_from IS NULL OR s.starts_at >= _from)
+    AND (_to IS NULL OR s.starts_at < _to)
+  LEFT JOIN public.attendance_records a
+    ON a.session_id = s.id AND a.student_id = e.student_id
+  WHERE (_course_ids IS NULL OR e.course_id = ANY(_course_ids))
+    AND (public.is_course_staff(auth.uid(), e.course_id) OR e.student_id = auth.uid())
+  GROUP BY e.course_id, c.code, c.name, e.student_id, p.full_name, p.email
+$$;
+
+-- Turnout per held session, for trends over time
+CREATE OR REPLACE FUNCTION public.get_session_attendance_summary(
+  _course_ids UUID[] DEFAULT NULL,
+  _from TIMESTAMPTZ DEFAULT NULL,
+  _to TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+  session_id UUID,
+  course_id UUID,
+  course_code TEXT,
+  starts_at TIMESTAMPTZ,
+  enrolled_count INTEGER,
+  present_count INTEGER,
+  attendance_pct NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.course_id,
+    c.code,
+    s.starts_at,
+    enrolled.total::INTEGER,
+    present.total::INTEGER,
+    CASE
+      WHEN enrolled.total = 0 THEN NULL
+      ELSE ROUND(100.0 * present.total / enrolled.total, 1)
+    END
+  FROM public.class_sessions s
+  JOIN public.courses c ON c.id = s.course_id
+  CROSS JOIN LATERAL (
+    SELECT COUNT(*) AS total
+    FROM public.course_enrollments e
+    WHERE e.course_id = s.course_id
+  ) enrolled
+  CROSS JOIN LATERAL (
+    SELECT COUNT(DISTINCT a.student_id) AS total
+    FROM public.attendance_records a
+    WHERE a.session_id = s.id
+  ) present
+  WHERE s.status IN ('open', 'closed')
+    AND (_course_ids IS NULL OR s.course_id = ANY(_course_ids))
+    AND (_from IS NULL OR s.starts_at >= _from)
+    AND (_to IS NULL OR s.starts_at < _to)
+    AND public.is_course_staff(auth.uid(), s.course_id)
+  ORDER BY s.starts_at
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_student_attendance_summary(UUID[], TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_session_attendance_summary(UUID[], TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
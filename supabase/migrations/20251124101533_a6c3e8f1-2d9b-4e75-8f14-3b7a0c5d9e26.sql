@@ -0,0 +1,33 @@
+-- Outbox of every email the app attempts to send
+CREATE TYPE public.email_status AS ENUM ('queued', 'sent', 'failed');
+
+CREATE TABLE public.email_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id UUID REFERENCES public.courses(id) ON DELETE SET NULL,
+  recipient_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  recipient_email TEXT NOT NULL,
+  template TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  status email_status NOT NULL DEFAULT 'queued',
+  error TEXT,
+  transport TEXT,
+  provider_message_id TEXT,
+  sent_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX email_outbox_course_id_created_at_idx ON public.email_outbox (course_id, created_at DESC);
+
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the mail edge function with the service role only
+CREATE POLICY "Senders and admins can view outbox"
+  ON public.email_outbox FOR SELECT
+  USING (sent_by = auth.uid() OR public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_email_outbox_updated_at
+  BEFORE UPDATE ON public.email_outbox
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
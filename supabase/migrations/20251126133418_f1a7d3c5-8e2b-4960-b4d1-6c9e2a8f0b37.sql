@@ -0,0 +1,54 @@
+-- Editable email templates with {{merge_field}} placeholders.
+-- course_id NULL = institution default managed by admins.
+CREATE TABLE public.email_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id UUID REFERENCES public.courses(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  body_text TEXT NOT NULL,
+  body_html TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX email_templates_course_id_idx ON public.email_templates (course_id);
+
+ALTER TABLE public.email_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view institution and own course templates"
+  ON public.email_templates FOR SELECT
+  USING (
+    (course_id IS NULL AND (public.has_role(auth.uid(), 'professor') OR public.has_role(auth.uid(), 'admin')))
+    OR (course_id IS NOT NULL AND public.is_course_staff(auth.uid(), course_id))
+  );
+
+CREATE POLICY "Admins manage institution templates, staff manage course templates"
+  ON public.email_templates FOR INSERT
+  WITH CHECK (
+    (course_id IS NULL AND public.has_role(auth.uid(), 'admin'))
+    OR (course_id IS NOT NULL AND public.is_course_staff(auth.uid(), course_id))
+  );
+
+CREATE POLICY "Template owners can update templates"
+  ON public.email_templates FOR UPDATE
+  USING (
+    (course_id IS NULL AND public.has_role(auth.uid(), 'admin'))
+    OR (course_id IS NOT NULL AND public.is_course_staff(auth.uid(), course_id))
+  );
+
+CREATE POLICY "Template owners can delete templates"
+  ON public.email_templates FOR DELETE
+  USING (
+    (course_id IS NULL AND public.has_role(auth.uid(), 'admin'))
+    OR (course_id IS NOT NULL AND public.is_course_staff(auth.uid(), course_id))
+  );
+
+CREATE TRIGGER update_email_templates_updated_at
+  BEFORE UPDATE ON public.email_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Remember which template an outbox row was rendered from
+ALTER TABLE public.email_outbox
+  ADD COLUMN template_id UUID REFERENCES public.email_templates(id) ON DELETE SET NULL;
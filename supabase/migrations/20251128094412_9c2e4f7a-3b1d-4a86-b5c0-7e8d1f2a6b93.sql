@@ -0,0 +1,123 @@
+-- Roles are assigned server-side only. Signup yields a student role, or a
+-- pending request for professor/admin access that an admin has to approve.
+-- The first admin has to be seeded directly in user_roles with the service role.
+DROP POLICY IF EXISTS "Users can insert own role during signup" ON public.user_roles;
+
+CREATE POLICY "Admins can view all roles"
+  ON public.user_roles FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TYPE public.role_request_status AS ENUM ('pending', 'approved', 'rejected');
+
+CREATE TABLE public.role_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  requested_role app_role NOT NULL CHECK (requested_role IN ('professor', 'admin')),
+  status role_request_status NOT NULL DEFAULT 'pending',
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  review_note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- At most one open request per user
+CREATE UNIQUE INDEX role_requests_one_pending_per_user
+  ON public.role_requests (user_id)
+  WHERE status = 'pending';
+
+ALTER TABLE public.role_requests ENABLE ROW LEVEL SECURITY;
+
+-- No insert/update policies: rows are written by handle_new_user and review_role_request
+CREATE POLICY "Users can view own role requests"
+  ON public.role_requests FOR SELECT
+  USING (user_id = auth.uid() OR public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _requested TEXT := NEW.raw_user_meta_data->>'requested_role';
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', '')
+  );
+
+  -- Elevated roles stay pending until an admin approves; everyone else is a student
+  IF _requested IN ('professor', 'admin') THEN
+    INSERT INTO public.role_requests (user_id, requested_role)
+    VALUES (NEW.id, _requested::app_role);
+  ELSE
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, 'student');
+  END IF;
+
+  INSERT INTO public.course_enrollments (course_id, student_id, enrolled_by, student_number, section)
+  SELECT course_id, NEW.id, invited_by, student_number, section
+  FROM public.course_invitations
+  WHERE email = lower(NEW.email) AND accepted_at IS NULL
+  ON CONFLICT (course_id, student_id) DO NOTHING;
+
+  UPDATE public.course_invitations
+  SET accepted_at = now()
+  WHERE email = lower(NEW.email) AND accepted_at IS NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Approve or reject a pending request. Approval grants the requested role;
+-- rejection falls back to the student role so the account stays usable.
+CREATE OR REPLACE FUNCTION public.review_role_request(
+  _request_id UUID,
+  _approve BOOLEAN,
+  _note TEXT DEFAULT NULL
+)
+RETURNS public.role_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.role_requests;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can review role requests' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _request
+  FROM public.role_requests
+  WHERE id = _request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Role request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Role request has already been reviewed';
+  END IF;
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (_request.user_id, CASE WHEN _approve THEN _request.requested_role ELSE 'student'::app_role END)
+  ON CONFLICT (user_id, role) DO NOTHING;
+
+  UPDATE public.role_requests
+  SET status = CASE WHEN _approve THEN 'approved'::role_request_status ELSE 'rejected'::role_request_status END,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_note = NULLIF(trim(_note), '')
+  WHERE id = _request_id
+  RETURNING * INTO _request;
+
+  RETURN _request;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.review_role_request(UUID, BOOLEAN, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.review_role_request(UUID, BOOLEAN, TEXT) TO authenticated;
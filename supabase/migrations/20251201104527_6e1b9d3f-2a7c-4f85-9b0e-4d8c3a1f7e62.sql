@@ -0,0 +1,190 @@
+-- Rooms with a geofence, linked to courses (default) and sessions (override)
+CREATE TYPE public.geofence_mode AS ENUM ('off', 'flag', 'reject');
+CREATE TYPE public.geofence_status AS ENUM ('inside', 'outside', 'low_accuracy', 'no_location', 'not_configured');
+
+CREATE TABLE public.rooms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  building TEXT,
+  -- Either a circle (center + radius) or a polygon of [lat, lng] pairs
+  center_lat DECIMAL(10, 8),
+  center_lng DECIMAL(11, 8),
+  radius_m DECIMAL(10, 2) CHECK (radius_m > 0),
+  boundary JSONB,
+  max_accuracy_m DECIMAL(10, 2) NOT NULL DEFAULT 100 CHECK (max_accuracy_m > 0),
+  geofence_mode geofence_mode NOT NULL DEFAULT 'flag',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (
+    (center_lat IS NOT NULL AND center_lng IS NOT NULL AND radius_m IS NOT NULL)
+    OR (jsonb_typeof(boundary) = 'array' AND jsonb_array_length(boundary) >= 3)
+  )
+);
+
+ALTER TABLE public.rooms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view rooms"
+  ON public.rooms FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Professors and admins can create rooms"
+  ON public.rooms FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'professor') OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Room owners and admins can update rooms"
+  ON public.rooms FOR UPDATE
+  USING (created_by = auth.uid() OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Room owners and admins can delete rooms"
+  ON public.rooms FOR DELETE
+  USING (created_by = auth.uid() OR public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_rooms_updated_at
+  BEFORE UPDATE ON public.rooms
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.courses
+  ADD COLUMN room_id UUID REFERENCES public.rooms(id) ON DELETE SET NULL;
+
+ALTER TABLE public.class_sessions
+  ADD COLUMN room_id UUID REFERENCES public.rooms(id) ON DELETE SET NULL;
+
+ALTER TABLE public.attendance_records
+  ADD COLUMN room_id UUID REFERENCES public.rooms(id) ON DELETE SET NULL,
+  ADD COLUMN geofence_status geofence_status,
+  ADD COLUMN distance_m DECIMAL(10, 2);
+
+CREATE INDEX attendance_records_flagged_idx
+  ON public.attendance_records (course_id, checked_in_at DESC)
+  WHERE geofence_status IN ('outside', 'low_accuracy', 'no_location');
+
+-- Distance in metres from a point to a room's fence (0 when inside). Uses an
+-- equirectangular projection around the point, which is accurate at room scale.
+CREATE OR REPLACE FUNCTION public.distance_to_room(_room public.rooms, _lat DOUBLE PRECISION, _lng DOUBLE PRECISION)
+RETURNS DOUBLE PRECISION
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _m_per_lat CONSTANT DOUBLE PRECISION := 110540;
+  _m_per_lng DOUBLE PRECISION := 111320 * cos(radians(_lat));
+  _n INTEGER;
+  _inside BOOLEAN := false;
+  _min DOUBLE PRECISION := 'Infinity';
+  _ax DOUBLE PRECISION; _ay DOUBLE PRECISION;
+  _bx DOUBLE PRECISION; _by DOUBLE PRECISION;
+  _dx DOUBLE PRECISION; _dy DOUBLE PRECISION;
+  _t DOUBLE PRECISION;
+BEGIN
+  IF _room.boundary IS NULL THEN
+    _dx := (_room.center_lng - _lng) * _m_per_lng;
+    _dy := (_room.center_lat - _lat) * _m_per_lat;
+    RETURN greatest(0, sqrt(_dx * _dx + _dy * _dy) - _room.radius_m);
+  END IF;
+
+  _n := jsonb_array_length(_room.boundary);
+  FOR _i IN 0 .. _n - 1 LOOP
+    -- Vertices relative to the point, so the point is the origin
+    _ax := ((_room.boundary -> _i ->> 1)::DOUBLE PRECISION - _lng) * _m_per_lng;
+    _ay := ((_room.boundary -> _i ->> 0)::DOUBLE PRECISION - _lat) * _m_per_lat;
+    _bx := ((_room.boundary -> ((_i + 1) % _n) ->> 1)::DOUBLE PRECISION - _lng) * _m_per_lng;
+    _by := ((_room.boundary -> ((_i + 1) % _n) ->> 0)::DOUBLE PRECISION - _lat) * _m_per_lat;
+
+    -- Ray casting along +x
+    IF (_ay > 0) <> (_by > 0) AND (_ax + (0 - _ay) * (_bx - _ax) / (_by - _ay)) > 0 THEN
+      _inside := NOT _inside;
+    END IF;
+
+    -- Distance from the origin to segment a-b
+    _dx := _bx - _ax;
+    _dy := _by - _ay;
+    _t := CASE WHEN _dx = 0 AND _dy = 0 THEN 0
+               ELSE greatest(0, least(1, -(_ax * _dx + _ay * _dy) / (_dx * _dx + _dy * _dy))) END;
+    _min := least(_min, sqrt((_ax + _t * _dx) ^ 2 + (_ay + _t * _dy) ^ 2));
+  END LOOP;
+
+  RETURN CASE WHEN _inside THEN 0 ELSE _min END;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.evaluate_geofence(
+  _room_id UUID,
+  _lat DOUBLE PRECISION,
+  _lng DOUBLE PRECISION,
+  _accuracy DOUBLE PRECISION
+)
+RETURNS TABLE (status geofence_status, distance_m DOUBLE PRECISION, mode geofence_mode)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _room public.rooms;
+BEGIN
+  SELECT * INTO _room FROM public.rooms WHERE id = _room_id;
+
+  IF NOT FOUND OR _room.geofence_mode = 'off' THEN
+    RETURN QUERY SELECT 'not_configured'::geofence_status, NULL::DOUBLE PRECISION, 'off'::geofence_mode;
+    RETURN;
+  END IF;
+
+  IF _lat IS NULL OR _lng IS NULL THEN
+    RETURN QUERY SELECT 'no_location'::geofence_status, NULL::DOUBLE PRECISION, _room.geofence_mode;
+    RETURN;
+  END IF;
+
+  distance_m := public.distance_to_room(_room, _lat, _lng);
+  status := CASE
+    WHEN _accuracy IS NULL OR _accuracy > _room.max_accuracy_m THEN 'low_accuracy'::geofence_status
+    WHEN distance_m > 0 THEN 'outside'::geofence_status
+    ELSE 'inside'::geofence_status
+  END;
+  mode := _room.geofence_mode;
+  RETURN NEXT;
+END;
+$$;
+
+-- Every new check-in is measured against the session's room (or the course's
+-- default room). Rooms in "reject" mode refuse the insert, "flag" mode keeps it
+-- for the professor to review. Client-supplied geofence columns are ignored.
+CREATE OR REPLACE FUNCTION public.apply_attendance_geofence()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _result RECORD;
+BEGIN
+  SELECT COALESCE(s.room_id, c.room_id) INTO NEW.room_id
+  FROM public.courses c
+  LEFT JOIN public.class_sessions s ON s.id = NEW.session_id
+  WHERE c.id = NEW.course_id;
+
+  SELECT * INTO _result
+  FROM public.evaluate_geofence(NEW.room_id, NEW.latitude, NEW.longitude, NEW.location_accuracy);
+
+  NEW.geofence_status := _result.status;
+  NEW.distance_m := round(_result.distance_m::NUMERIC, 2);
+
+  IF _result.mode = 'reject' AND _result.status <> 'inside' THEN
+    RAISE EXCEPTION '%', CASE _result.status
+        WHEN 'outside' THEN format('You appear to be %s m outside the classroom.', round(_result.distance_m))
+        WHEN 'low_accuracy' THEN format('Your location is too imprecise (±%s m). Move near a window and try again.', COALESCE(round(NEW.location_accuracy)::TEXT, '?'))
+        ELSE 'Location access is required to check in to this class.'
+      END
+      USING ERRCODE = 'P0001', HINT = _result.status::TEXT;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER attendance_records_geofence
+  BEFORE INSERT ON public.attendance_records
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_attendance_geofence();
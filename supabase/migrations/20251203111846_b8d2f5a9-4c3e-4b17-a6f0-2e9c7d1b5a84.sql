@@ -0,0 +1,187 @@
+-- Check-in goes through a single RPC that validates everything atomically.
+-- Students can no longer insert attendance rows directly.
+DROP POLICY "Students can create own attendance" ON public.attendance_records;
+
+-- The geofence is now evaluated inside check_in, so staff-entered records are
+-- not subject to it
+DROP TRIGGER attendance_records_geofence ON public.attendance_records;
+DROP FUNCTION public.apply_attendance_geofence();
+
+-- Superseded by check_in, which only consumes a token once the check-in succeeds
+DROP FUNCTION public.redeem_qr_token(TEXT);
+
+-- Parse and verify a scanned token without consuming it.
+-- Returns one of: ok, malformed, invalid_signature, expired, course_not_found
+CREATE OR REPLACE FUNCTION public.verify_qr_token(_token TEXT)
+RETURNS TABLE (status TEXT, course_id UUID, nonce TEXT, rotating BOOLEAN, expires_at TIMESTAMPTZ)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _parts TEXT[] := string_to_array(trim(_token), '.');
+  _course_id UUID;
+BEGIN
+  IF _parts IS NULL
+    OR array_length(_parts, 1) <> 6
+    OR _parts[1] <> 'AT1'
+    OR _parts[3] NOT IN ('r', 's')
+    OR _parts[2] !~ '^[0-9a-fA-F-]{36}$'
+    OR _parts[4] !~ '^[0-9]{1,12}$'
+  THEN
+    RETURN QUERY SELECT 'malformed'::TEXT, NULL::UUID, NULL::TEXT, NULL::BOOLEAN, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  _course_id := _parts[2]::UUID;
+  course_id := _course_id;
+  nonce := _parts[5];
+  rotating := _parts[3] = 'r';
+  expires_at := to_timestamp(_parts[4]::BIGINT);
+
+  IF NOT EXISTS (SELECT 1 FROM public.courses c WHERE c.id = _course_id) THEN
+    status := 'course_not_found';
+  ELSIF public.sign_qr_payload(_course_id, array_to_string(_parts[1:5], '.')) <> _parts[6] THEN
+    status := 'invalid_signature';
+  ELSIF expires_at < now() THEN
+    status := 'expired';
+  ELSE
+    status := 'ok';
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_qr_token(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Check the current user in with a scanned token and their location.
+-- Returns one of: ok, duplicate, malformed, invalid_signature, expired, replayed,
+-- course_not_found, not_enrolled, no_open_session, out_of_range, low_accuracy, no_location.
+-- "ok" and "duplicate" carry the attendance record; a flagged geofence_status on
+-- an "ok" result means the check-in was accepted but needs review.
+CREATE OR REPLACE FUNCTION public.check_in(
+  _token TEXT,
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL,
+  _accuracy DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS TABLE (
+  status TEXT,
+  course_id UUID,
+  course_code TEXT,
+  course_name TEXT,
+  session_id UUID,
+  record_id UUID,
+  geofence_status geofence_status,
+  distance_m NUMERIC
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _student_id UUID := auth.uid();
+  _token_row RECORD;
+  _course public.courses;
+  _session public.class_sessions;
+  _room_id UUID;
+  _fence RECORD;
+BEGIN
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _token_row FROM public.verify_qr_token(_token);
+  course_id := _token_row.course_id;
+
+  IF _token_row.status <> 'ok' THEN
+    status := _token_row.status;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  SELECT * INTO _course FROM public.courses c WHERE c.id = _token_row.course_id;
+  course_code := _course.code;
+  course_name := _course.name;
+
+  IF NOT public.is_enrolled(_student_id, _course.id) THEN
+    status := 'not_enrolled';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  SELECT * INTO _session
+  FROM public.class_sessions s
+  WHERE s.course_id = _course.id
+    AND s.status = 'open'
+    AND now() BETWEEN s.check_in_opens_at AND s.check_in_closes_at
+  ORDER BY s.starts_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    status := 'no_open_session';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  session_id := _session.id;
+
+  -- Serialise concurrent scans by the same student for the same session
+  PERFORM pg_advisory_xact_lock(hashtext(_session.id::TEXT || _student_id::TEXT));
+
+  SELECT a.id, a.geofence_status, a.distance_m INTO record_id, geofence_status, distance_m
+  FROM public.attendance_records a
+  WHERE a.session_id = _session.id AND a.student_id = _student_id;
+
+  IF FOUND THEN
+    status := 'duplicate';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  _room_id := COALESCE(_session.room_id, _course.room_id);
+  SELECT * INTO _fence FROM public.evaluate_geofence(_room_id, _latitude, _longitude, _accuracy);
+  geofence_status := _fence.status;
+  distance_m := round(_fence.distance_m::NUMERIC, 2);
+
+  IF _fence.mode = 'reject' AND _fence.status <> 'inside' THEN
+    status := CASE _fence.status WHEN 'outside' THEN 'out_of_range' ELSE _fence.status::TEXT END;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- Rotating tokens are single-use per student; consumed only on success
+  IF _token_row.rotating THEN
+    INSERT INTO public.qr_token_redemptions (nonce, student_id, course_id, expires_at)
+    VALUES (_token_row.nonce, _student_id, _course.id, _token_row.expires_at)
+    ON CONFLICT DO NOTHING;
+
+    IF NOT FOUND THEN
+      status := 'replayed';
+      RETURN NEXT;
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO public.attendance_records (
+    student_id, course_id, session_id, checked_in_at,
+    latitude, longitude, location_accuracy,
+    room_id, geofence_status, distance_m
+  )
+  VALUES (
+    _student_id, _course.id, _session.id, now(),
+    _latitude, _longitude, _accuracy,
+    _room_id, _fence.status, round(_fence.distance_m::NUMERIC, 2)
+  )
+  RETURNING id INTO record_id;
+
+  status := 'ok';
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_in(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.check_in(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO authenticated;
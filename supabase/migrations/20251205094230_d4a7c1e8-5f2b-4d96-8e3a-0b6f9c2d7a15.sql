@@ -0,0 +1,234 @@
+-- One attendance record per student per session, or per course-local day for
+-- records without a session, enforced by the database.
+ALTER TABLE public.courses
+  ADD COLUMN timezone TEXT NOT NULL DEFAULT 'UTC';
+
+CREATE OR REPLACE FUNCTION public.is_valid_timezone(_tz TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM pg_catalog.pg_timezone_names WHERE name = _tz)
+$$;
+
+ALTER TABLE public.courses
+  ADD CONSTRAINT courses_timezone_valid CHECK (public.is_valid_timezone(timezone));
+
+-- Calendar date of a moment in the course's timezone
+CREATE OR REPLACE FUNCTION public.course_local_date(_course_id UUID, _at TIMESTAMPTZ)
+RETURNS DATE
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (_at AT TIME ZONE c.timezone)::DATE
+  FROM public.courses c
+  WHERE c.id = _course_id
+$$;
+
+ALTER TABLE public.attendance_records
+  ADD COLUMN attendance_date DATE;
+
+UPDATE public.attendance_records a
+SET attendance_date = public.course_local_date(a.course_id, a.checked_in_at);
+
+-- The default only keeps the column optional for writers; the trigger below sets it
+ALTER TABLE public.attendance_records
+  ALTER COLUMN attendance_date SET DEFAULT CURRENT_DATE,
+  ALTER COLUMN attendance_date SET NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.set_attendance_date()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.attendance_date := public.course_local_date(NEW.course_id, NEW.checked_in_at);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER attendance_records_set_date
+  BEFORE INSERT OR UPDATE OF checked_in_at, course_id ON public.attendance_records
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_attendance_date();
+
+-- Earlier client-side checks raced, so drop any duplicates, keeping the first
+-- check-in. The removed rows are kept here rather than lost; RLS without
+-- policies leaves them to the service role.
+CREATE TABLE public.attendance_records_duplicates (
+  LIKE public.attendance_records,
+  removed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.attendance_records_duplicates ENABLE ROW LEVEL SECURITY;
+
+WITH removed AS (
+  DELETE FROM public.attendance_records a
+  USING public.attendance_records b
+  WHERE a.student_id = b.student_id
+    AND (
+      (a.session_id IS NOT NULL AND a.session_id = b.session_id)
+      OR (a.session_id IS NULL AND b.session_id IS NULL
+        AND a.course_id = b.course_id AND a.attendance_date = b.attendance_date)
+    )
+    AND (a.checked_in_at, a.id) > (b.checked_in_at, b.id)
+  RETURNING a.*
+)
+INSERT INTO public.attendance_records_duplicates
+SELECT removed.*, now() FROM removed;
+
+CREATE UNIQUE INDEX attendance_records_student_session_key
+  ON public.attendance_records (student_id, session_id)
+  WHERE session_id IS NOT NULL;
+
+CREATE UNIQUE INDEX attendance_records_student_course_day_key
+  ON public.attendance_records (student_id, course_id, attendance_date)
+  WHERE session_id IS NULL;
+
+-- Same contract as before; duplicates are now detected per session or per
+-- course-local day, and a concurrent duplicate returns the existing record.
+CREATE OR REPLACE FUNCTION public.check_in(
+  _token TEXT,
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL,
+  _accuracy DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS TABLE (
+  status TEXT,
+  course_id UUID,
+  course_code TEXT,
+  course_name TEXT,
+  session_id UUID,
+  record_id UUID,
+  geofence_status geofence_status,
+  distance_m NUMERIC
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _student_id UUID := auth.uid();
+  _token_row RECORD;
+  _course public.courses;
+  _session public.class_sessions;
+  _room_id UUID;
+  _fence RECORD;
+BEGIN
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _token_row FROM public.verify_qr_token(_token);
+  course_id := _token_row.course_id;
+
+  IF _token_row.status <> 'ok' THEN
+    status := _token_row.status;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  SELECT * INTO _course FROM public.courses c WHERE c.id = _token_row.course_id;
+  course_code := _course.code;
+  course_name := _course.name;
+
+  IF NOT public.is_enrolled(_student_id, _course.id) THEN
+    status := 'not_enrolled';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  SELECT * INTO _session
+  FROM public.class_sessions s
+  WHERE s.course_id = _course.id
+    AND s.status = 'open'
+    AND now() BETWEEN s.check_in_opens_at AND s.check_in_closes_at
+  ORDER BY s.starts_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    status := 'no_open_session';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  session_id := _session.id;
+
+  -- Serialise concurrent scans by the same student for the same session. The
+  -- unique indexes are the backstop; this just keeps the answer "duplicate"
+  -- rather than "replayed" when the scanner fires twice on one frame.
+  PERFORM pg_advisory_xact_lock(hashtext(_session.id::TEXT || _student_id::TEXT));
+
+  SELECT a.id, a.geofence_status, a.distance_m INTO record_id, geofence_status, distance_m
+  FROM public.attendance_records a
+  WHERE a.student_id = _student_id
+    AND (a.session_id = _session.id
+      OR (a.session_id IS NULL AND a.course_id = _course.id
+        AND a.attendance_date = public.course_local_date(_course.id, now())));
+
+  IF FOUND THEN
+    status := 'duplicate';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  _room_id := COALESCE(_session.room_id, _course.room_id);
+  SELECT * INTO _fence FROM public.evaluate_geofence(_room_id, _latitude, _longitude, _accuracy);
+  geofence_status := _fence.status;
+  distance_m := round(_fence.distance_m::NUMERIC, 2);
+
+  IF _fence.mode = 'reject' AND _fence.status <> 'inside' THEN
+    status := CASE _fence.status WHEN 'outside' THEN 'out_of_range' ELSE _fence.status::TEXT END;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- Rotating tokens are single-use per student; consumed only on success
+  IF _token_row.rotating THEN
+    INSERT INTO public.qr_token_redemptions (nonce, student_id, course_id, expires_at)
+    VALUES (_token_row.nonce, _student_id, _course.id, _token_row.expires_at)
+    ON CONFLICT DO NOTHING;
+
+    IF NOT FOUND THEN
+      status := 'replayed';
+      RETURN NEXT;
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO public.attendance_records (
+    student_id, course_id, session_id, checked_in_at,
+    latitude, longitude, location_accuracy,
+    room_id, geofence_status, distance_m
+  )
+  VALUES (
+    _student_id, _course.id, _session.id, now(),
+    _latitude, _longitude, _accuracy,
+    _room_id, _fence.status, round(_fence.distance_m::NUMERIC, 2)
+  )
+  ON CONFLICT DO NOTHING
+  RETURNING id INTO record_id;
+
+  -- Lost a race with another insert for this session: return that record
+  IF record_id IS NULL THEN
+    SELECT a.id, a.geofence_status, a.distance_m INTO record_id, geofence_status, distance_m
+    FROM public.attendance_records a
+    WHERE a.session_id = _session.id AND a.student_id = _student_id;
+
+    status := 'duplicate';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  status := 'ok';
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_in(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.check_in(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO authenticated;
@@ -0,0 +1,211 @@
+-- Queued (offline) check-ins: the client sends the moment it scanned, and the
+-- token and session window are judged at that moment instead of on arrival.
+ALTER TABLE public.attendance_records
+  ADD COLUMN synced_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.attendance_records.synced_at IS
+  'When a check-in captured offline reached the server; NULL for live check-ins';
+
+DROP FUNCTION public.check_in(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION);
+DROP FUNCTION public.verify_qr_token(TEXT);
+
+-- Parse and verify a scanned token as of _at without consuming it.
+-- Returns one of: ok, malformed, invalid_signature, expired, course_not_found
+CREATE OR REPLACE FUNCTION public.verify_qr_token(_token TEXT, _at TIMESTAMPTZ DEFAULT now())
+RETURNS TABLE (status TEXT, course_id UUID, nonce TEXT, rotating BOOLEAN, expires_at TIMESTAMPTZ)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _parts TEXT[] := string_to_array(trim(_token), '.');
+  _course_id UUID;
+BEGIN
+  IF _parts IS NULL
+    OR array_length(_parts, 1) <> 6
+    OR _parts[1] <> 'AT1'
+    OR _parts[3] NOT IN ('r', 's')
+    OR _parts[2] !~ '^[0-9a-fA-F-]{36}$'
+    OR _parts[4] !~ '^[0-9]{1,12}$'
+  THEN
+    RETURN QUERY SELECT 'malformed'::TEXT, NULL::UUID, NULL::TEXT, NULL::BOOLEAN, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  _course_id := _parts[2]::UUID;
+  course_id := _course_id;
+  nonce := _parts[5];
+  rotating := _parts[3] = 'r';
+  expires_at := to_timestamp(_parts[4]::BIGINT);
+
+  IF NOT EXISTS (SELECT 1 FROM public.courses c WHERE c.id = _course_id) THEN
+    status := 'course_not_found';
+  ELSIF public.sign_qr_payload(_course_id, array_to_string(_parts[1:5], '.')) <> _parts[6] THEN
+    status := 'invalid_signature';
+  ELSIF expires_at < _at THEN
+    status := 'expired';
+  ELSE
+    status := 'ok';
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_qr_token(TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- Returns one of: ok, duplicate, malformed, invalid_signature, expired, replayed,
+-- course_not_found, not_enrolled, no_open_session, out_of_range, low_accuracy,
+-- no_location, stale (queued for more than 12 hours).
+CREATE OR REPLACE FUNCTION public.check_in(
+  _token TEXT,
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL,
+  _accuracy DOUBLE PRECISION DEFAULT NULL,
+  _scanned_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+  status TEXT,
+  course_id UUID,
+  course_code TEXT,
+  course_name TEXT,
+  session_id UUID,
+  record_id UUID,
+  geofence_status geofence_status,
+  distance_m NUMERIC
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _student_id UUID := auth.uid();
+  _token_row RECORD;
+  _course public.courses;
+  _session public.class_sessions;
+  _room_id UUID;
+  _fence RECORD;
+  -- A queued check-in is judged at the moment it was scanned, never in the future
+  _at TIMESTAMPTZ := LEAST(COALESCE(_scanned_at, now()), now());
+BEGIN
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _token_row FROM public.verify_qr_token(_token, _at);
+  course_id := _token_row.course_id;
+
+  IF _at < now() - INTERVAL '12 hours' THEN
+    status := 'stale';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF _token_row.status <> 'ok' THEN
+    status := _token_row.status;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  SELECT * INTO _course FROM public.courses c WHERE c.id = _token_row.course_id;
+  course_code := _course.code;
+  course_name := _course.name;
+
+  IF NOT public.is_enrolled(_student_id, _course.id) THEN
+    status := 'not_enrolled';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  SELECT * INTO _session
+  FROM public.class_sessions s
+  WHERE s.course_id = _course.id
+    -- Live scans need an open session; queued ones may land after it was closed
+    AND (s.status = 'open' OR (_scanned_at IS NOT NULL AND s.status = 'closed'))
+    AND _at BETWEEN s.check_in_opens_at AND s.check_in_closes_at
+  ORDER BY s.starts_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    status := 'no_open_session';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  session_id := _session.id;
+
+  -- Serialise concurrent scans by the same student for the same session. The
+  -- unique indexes are the backstop; this just keeps the answer "duplicate"
+  -- rather than "replayed" when the scanner fires twice on one frame.
+  PERFORM pg_advisory_xact_lock(hashtext(_session.id::TEXT || _student_id::TEXT));
+
+  SELECT a.id, a.geofence_status, a.distance_m INTO record_id, geofence_status, distance_m
+  FROM public.attendance_records a
+  WHERE a.student_id = _student_id
+    AND (a.session_id = _session.id
+      OR (a.session_id IS NULL AND a.course_id = _course.id
+        AND a.attendance_date = public.course_local_date(_course.id, _at)));
+
+  IF FOUND THEN
+    status := 'duplicate';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  _room_id := COALESCE(_session.room_id, _course.room_id);
+  SELECT * INTO _fence FROM public.evaluate_geofence(_room_id, _latitude, _longitude, _accuracy);
+  geofence_status := _fence.status;
+  distance_m := round(_fence.distance_m::NUMERIC, 2);
+
+  IF _fence.mode = 'reject' AND _fence.status <> 'inside' THEN
+    status := CASE _fence.status WHEN 'outside' THEN 'out_of_range' ELSE _fence.status::TEXT END;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- Rotating tokens are single-use per student; consumed only on success
+  IF _token_row.rotating THEN
+    INSERT INTO public.qr_token_redemptions (nonce, student_id, course_id, expires_at)
+    VALUES (_token_row.nonce, _student_id, _course.id, _token_row.expires_at)
+    ON CONFLICT DO NOTHING;
+
+    IF NOT FOUND THEN
+      status := 'replayed';
+      RETURN NEXT;
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO public.attendance_records (
+    student_id, course_id, session_id, checked_in_at, synced_at,
+    latitude, longitude, location_accuracy,
+    room_id, geofence_status, distance_m
+  )
+  VALUES (
+    _student_id, _course.id, _session.id, _at, CASE WHEN _scanned_at IS NOT NULL THEN now() END,
+    _latitude, _longitude, _accuracy,
+    _room_id, _fence.status, round(_fence.distance_m::NUMERIC, 2)
+  )
+  ON CONFLICT DO NOTHING
+  RETURNING id INTO record_id;
+
+  -- Lost a race with another insert for this session: return that record
+  IF record_id IS NULL THEN
+    SELECT a.id, a.geofence_status, a.distance_m INTO record_id, geofence_status, distance_m
+    FROM public.attendance_records a
+    WHERE a.session_id = _session.id AND a.student_id = _student_id;
+
+    status := 'duplicate';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  status := 'ok';
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_in(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMPTZ) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.check_in(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMPTZ) TO authenticated;
@@ -0,0 +1,3 @@
+-- Stream new check-ins to the professor's live session view. Realtime applies
+-- the table's RLS, so staff only receive rows for their own courses.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.attendance_records;
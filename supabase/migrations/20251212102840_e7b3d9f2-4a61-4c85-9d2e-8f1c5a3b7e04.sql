@@ -0,0 +1,217 @@
+-- Manual attendance: professors set a student's status for a session with a
+-- reason, and every change is kept in attendance_changes.
+CREATE TYPE public.attendance_status AS ENUM ('present', 'late', 'excused', 'absent');
+CREATE TYPE public.attendance_source AS ENUM ('scan', 'manual');
+
+ALTER TABLE public.attendance_records
+  ADD COLUMN status attendance_status NOT NULL DEFAULT 'present',
+  ADD COLUMN source attendance_source NOT NULL DEFAULT 'scan',
+  ADD COLUMN edited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN edited_at TIMESTAMPTZ,
+  ADD COLUMN edit_reason TEXT;
+
+CREATE TABLE public.attendance_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  record_id UUID NOT NULL REFERENCES public.attendance_records(id) ON DELETE CASCADE,
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL REFERENCES public.class_sessions(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  -- NULL when the change created the record
+  previous_status attendance_status,
+  new_status attendance_status NOT NULL,
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX attendance_changes_session_idx ON public.attendance_changes (session_id, changed_at DESC);
+
+ALTER TABLE public.attendance_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Course staff and the student can view attendance changes"
+  ON public.attendance_changes FOR SELECT
+  USING (public.is_course_staff(auth.uid(), course_id) OR student_id = auth.uid());
+
+-- Any professor could update any record, unaudited. Edits now go through
+-- set_attendance_status, which is scoped to the course and logs the change.
+DROP POLICY "Professors and admins can update attendance" ON public.attendance_records;
+
+-- Set a student's attendance for a session, creating the record if needed.
+-- Returns one of: ok, unchanged, session_not_found, not_enrolled, reason_required.
+CREATE OR REPLACE FUNCTION public.set_attendance_status(
+  _session_id UUID,
+  _student_id UUID,
+  _status attendance_status,
+  _reason TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _editor_id UUID := auth.uid();
+  _session public.class_sessions;
+  _record public.attendance_records;
+  _record_id UUID;
+BEGIN
+  SELECT * INTO _session FROM public.class_sessions s WHERE s.id = _session_id;
+
+  IF NOT FOUND THEN
+    RETURN 'session_not_found';
+  END IF;
+
+  IF NOT public.is_course_staff(_editor_id, _session.course_id) THEN
+    RAISE EXCEPTION 'Only course staff can edit attendance' USING ERRCODE = '42501';
+  END IF;
+
+  IF _reason IS NULL OR length(trim(_reason)) = 0 THEN
+    RETURN 'reason_required';
+  END IF;
+
+  IF NOT public.is_enrolled(_student_id, _session.course_id) THEN
+    RETURN 'not_enrolled';
+  END IF;
+
+  -- Same lock as check_in, so an edit and a scan for one student cannot interleave
+  PERFORM pg_advisory_xact_lock(hashtext(_session.id::TEXT || _student_id::TEXT));
+
+  SELECT * INTO _record
+  FROM public.attendance_records a
+  WHERE a.session_id = _session.id AND a.student_id = _student_id;
+
+  IF FOUND THEN
+    IF _record.status = _status THEN
+      RETURN 'unchanged';
+    END IF;
+
+    UPDATE public.attendance_records
+    SET status = _status, edited_by = _editor_id, edited_at = now(), edit_reason = trim(_reason)
+    WHERE id = _record.id;
+    _record_id := _record.id;
+  ELSE
+    INSERT INTO public.attendance_records (
+      student_id, course_id, session_id, checked_in_at,
+      status, source, edited_by, edited_at, edit_reason
+    )
+    VALUES (
+      _student_id, _session.course_id, _session.id, _session.starts_at,
+      _status, 'manual', _editor_id, now(), trim(_reason)
+    )
+    RETURNING id INTO _record_id;
+  END IF;
+
+  INSERT INTO public.attendance_changes (
+    record_id, course_id, session_id, student_id, previous_status, new_status, reason, changed_by
+  )
+  VALUES (
+    _record_id, _session.course_id, _session.id, _student_id, _record.status, _status, trim(_reason), _editor_id
+  );
+
+  RETURN 'ok';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_attendance_status(UUID, UUID, attendance_status, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_attendance_status(UUID, UUID, attendance_status, TEXT) TO authenticated;
+
+-- Records marked absent no longer count towards attendance
+CREATE OR REPLACE FUNCTION public.get_student_attendance_summary(
+  _course_ids UUID[] DEFAULT NULL,
+  _from TIMESTAMPTZ DEFAULT NULL,
+  _to TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+  course_id UUID,
+  course_code TEXT,
+  course_name TEXT,
+  student_id UUID,
+  full_name TEXT,
+  email TEXT,
+  sessions_held INTEGER,
+  sessions_attended INTEGER,
+  attendance_pct NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    e.course_id,
+    c.code,
+    c.name,
+    e.student_id,
+    p.full_name,
+    p.email,
+    COUNT(DISTINCT s.id)::INTEGER,
+    COUNT(DISTINCT a.session_id)::INTEGER,
+    CASE
+      WHEN COUNT(DISTINCT s.id) = 0 THEN NULL
+      ELSE ROUND(100.0 * COUNT(DISTINCT a.session_id) / COUNT(DISTINCT s.id), 1)
+    END
+  FROM public.course_enrollments e
+  JOIN public.courses c ON c.id = e.course_id
+  JOIN public.profiles p ON p.id = e.student_id
+  LEFT JOIN public.class_sessions s
+    ON s.course_id = e.course_id
+    AND s.status IN ('open', 'closed')
+    AND (_from IS NULL OR s.starts_at >= _from)
+    AND (_to IS NULL OR s.starts_at < _to)
+  LEFT JOIN public.attendance_records a
+    ON a.session_id = s.id AND a.student_id = e.student_id AND a.status <> 'absent'
+  WHERE (_course_ids IS NULL OR e.course_id = ANY(_course_ids))
+    AND (public.is_course_staff(auth.uid(), e.course_id) OR e.student_id = auth.uid())
+  GROUP BY e.course_id, c.code, c.name, e.student_id, p.full_name, p.email
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_session_attendance_summary(
+  _course_ids UUID[] DEFAULT NULL,
+  _from TIMESTAMPTZ DEFAULT NULL,
+  _to TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+  session_id UUID,
+  course_id UUID,
+  course_code TEXT,
+  starts_at TIMESTAMPTZ,
+  enrolled_count INTEGER,
+  present_count INTEGER,
+  attendance_pct NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.course_id,
+    c.code,
+    s.starts_at,
+    enrolled.total::INTEGER,
+    present.total::INTEGER,
+    CASE
+      WHEN enrolled.total = 0 THEN NULL
+      ELSE ROUND(100.0 * present.total / enrolled.total, 1)
+    END
+  FROM public.class_sessions s
+  JOIN public.courses c ON c.id = s.course_id
+  CROSS JOIN LATERAL (
+    SELECT COUNT(*) AS total
+    FROM public.course_enrollments e
+    WHERE e.course_id = s.course_id
+  ) enrolled
+  CROSS JOIN LATERAL (
+    SELECT COUNT(DISTINCT a.student_id) AS total
+    FROM public.attendance_records a
+    WHERE a.session_id = s.id AND a.status <> 'absent'
+  ) present
+  WHERE s.status IN ('open', 'closed')
+    AND (_course_ids IS NULL OR s.course_id = ANY(_course_ids))
+    AND (_from IS NULL OR s.starts_at >= _from)
+    AND (_to IS NULL OR s.starts_at < _to)
+    AND public.is_course_staff(auth.uid(), s.course_id)
+  ORDER BY s.starts_at
+$$;
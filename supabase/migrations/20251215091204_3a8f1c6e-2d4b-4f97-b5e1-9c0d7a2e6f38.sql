@@ -0,0 +1,3 @@
+-- Students who leave partway through a session. Added in its own migration
+-- because a new enum value cannot be used in the transaction that adds it.
+ALTER TYPE public.attendance_status ADD VALUE IF NOT EXISTS 'left_early';
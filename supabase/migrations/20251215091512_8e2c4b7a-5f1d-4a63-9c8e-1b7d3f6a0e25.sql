@@ -0,0 +1,304 @@
+-- Attendance statuses: check-ins after the course's grace period are marked
+-- late, and each course decides how much late, excused and left-early count.
+ALTER TABLE public.courses
+  ADD COLUMN late_grace_minutes INTEGER NOT NULL DEFAULT 10 CHECK (late_grace_minutes BETWEEN 0 AND 240),
+  ADD COLUMN late_weight NUMERIC(3, 2) NOT NULL DEFAULT 0.5 CHECK (late_weight BETWEEN 0 AND 1),
+  ADD COLUMN excused_weight NUMERIC(3, 2) NOT NULL DEFAULT 1 CHECK (excused_weight BETWEEN 0 AND 1),
+  ADD COLUMN left_early_weight NUMERIC(3, 2) NOT NULL DEFAULT 0.5 CHECK (left_early_weight BETWEEN 0 AND 1);
+
+-- How much one session with the given status counts towards attendance
+CREATE OR REPLACE FUNCTION public.attendance_weight(_status attendance_status, _course public.courses)
+RETURNS NUMERIC
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _status
+    WHEN 'present' THEN 1
+    WHEN 'late' THEN _course.late_weight
+    WHEN 'excused' THEN _course.excused_weight
+    WHEN 'left_early' THEN _course.left_early_weight
+    ELSE 0
+  END::NUMERIC
+$$;
+
+-- Adds the attendance status to the result, which changes the return type
+DROP FUNCTION public.check_in(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMPTZ);
+
+-- Returns one of: ok, duplicate, malformed, invalid_signature, expired, replayed,
+-- course_not_found, not_enrolled, no_open_session, out_of_range, low_accuracy,
+-- no_location, stale (queued for more than 12 hours).
+-- attendance_status is late when the scan came after the course's grace period.
+CREATE FUNCTION public.check_in(
+  _token TEXT,
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL,
+  _accuracy DOUBLE PRECISION DEFAULT NULL,
+  _scanned_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+  status TEXT,
+  course_id UUID,
+  course_code TEXT,
+  course_name TEXT,
+  session_id UUID,
+  record_id UUID,
+  geofence_status geofence_status,
+  distance_m NUMERIC,
+  attendance_status attendance_status
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _student_id UUID := auth.uid();
+  _token_row RECORD;
+  _course public.courses;
+  _session public.class_sessions;
+  _room_id UUID;
+  _fence RECORD;
+  _status attendance_status;
+  -- A queued check-in is judged at the moment it was scanned, never in the future
+  _at TIMESTAMPTZ := LEAST(COALESCE(_scanned_at, now()), now());
+BEGIN
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _token_row FROM public.verify_qr_token(_token, _at);
+  course_id := _token_row.course_id;
+
+  IF _at < now() - INTERVAL '12 hours' THEN
+    status := 'stale';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF _token_row.status <> 'ok' THEN
+    status := _token_row.status;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  SELECT * INTO _course FROM public.courses c WHERE c.id = _token_row.course_id;
+  course_code := _course.code;
+  course_name := _course.name;
+
+  IF NOT public.is_enrolled(_student_id, _course.id) THEN
+    status := 'not_enrolled';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  SELECT * INTO _session
+  FROM public.class_sessions s
+  WHERE s.course_id = _course.id
+    -- Live scans need an open session; queued ones may land after it was closed
+    AND (s.status = 'open' OR (_scanned_at IS NOT NULL AND s.status = 'closed'))
+    AND _at BETWEEN s.check_in_opens_at AND s.check_in_closes_at
+  ORDER BY s.starts_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    status := 'no_open_session';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  session_id := _session.id;
+
+  -- Serialise concurrent scans by the same student for the same session. The
+  -- unique indexes are the backstop; this just keeps the answer "duplicate"
+  -- rather than "replayed" when the scanner fires twice on one frame.
+  PERFORM pg_advisory_xact_lock(hashtext(_session.id::TEXT || _student_id::TEXT));
+
+  SELECT a.id, a.geofence_status, a.distance_m, a.status INTO record_id, geofence_status, distance_m, attendance_status
+  FROM public.attendance_records a
+  WHERE a.student_id = _student_id
+    AND (a.session_id = _session.id
+      OR (a.session_id IS NULL AND a.course_id = _course.id
+        AND a.attendance_date = public.course_local_date(_course.id, _at)));
+
+  IF FOUND THEN
+    status := 'duplicate';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  _room_id := COALESCE(_session.room_id, _course.room_id);
+  SELECT * INTO _fence FROM public.evaluate_geofence(_room_id, _latitude, _longitude, _accuracy);
+  geofence_status := _fence.status;
+  distance_m := round(_fence.distance_m::NUMERIC, 2);
+
+  IF _fence.mode = 'reject' AND _fence.status <> 'inside' THEN
+    status := CASE _fence.status WHEN 'outside' THEN 'out_of_range' ELSE _fence.status::TEXT END;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- Rotating tokens are single-use per student; consumed only on success
+  IF _token_row.rotating THEN
+    INSERT INTO public.qr_token_redemptions (nonce, student_id, course_id, expires_at)
+    VALUES (_token_row.nonce, _student_id, _course.id, _token_row.expires_at)
+    ON CONFLICT DO NOTHING;
+
+    IF NOT FOUND THEN
+      status := 'replayed';
+      RETURN NEXT;
+      RETURN;
+    END IF;
+  END IF;
+
+  -- Late once the course's grace period after the session start has passed
+  _status := CASE
+    WHEN _at > _session.starts_at + make_interval(mins => _course.late_grace_minutes) THEN 'late'
+    ELSE 'present'
+  END;
+
+  INSERT INTO public.attendance_records (
+    student_id, course_id, session_id, checked_in_at, synced_at,
+    latitude, longitude, location_accuracy,
+    room_id, geofence_status, distance_m, status
+  )
+  VALUES (
+    _student_id, _course.id, _session.id, _at, CASE WHEN _scanned_at IS NOT NULL THEN now() END,
+    _latitude, _longitude, _accuracy,
+    _room_id, _fence.status, round(_fence.distance_m::NUMERIC, 2), _status
+  )
+  ON CONFLICT DO NOTHING
+  RETURNING id INTO record_id;
+
+  -- Lost a race with another insert for this session: return that record
+  IF record_id IS NULL THEN
+    SELECT a.id, a.geofence_status, a.distance_m, a.status INTO record_id, geofence_status, distance_m, attendance_status
+    FROM public.attendance_records a
+    WHERE a.session_id = _session.id AND a.student_id = _student_id;
+
+    status := 'duplicate';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  attendance_status := _status;
+  status := 'ok';
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_in(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMPTZ) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.check_in(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMPTZ) TO authenticated;
+
+-- Percentages use each course's weights; the per-status counts let views show
+-- how the figure was reached
+DROP FUNCTION public.get_student_attendance_summary(UUID[], TIMESTAMPTZ, TIMESTAMPTZ);
+
+CREATE FUNCTION public.get_student_attendance_summary(
+  _course_ids UUID[] DEFAULT NULL,
+  _from TIMESTAMPTZ DEFAULT NULL,
+  _to TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+  course_id UUID,
+  course_code TEXT,
+  course_name TEXT,
+  student_id UUID,
+  full_name TEXT,
+  email TEXT,
+  sessions_held INTEGER,
+  sessions_attended INTEGER,
+  late_count INTEGER,
+  excused_count INTEGER,
+  left_early_count INTEGER,
+  attendance_pct NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    e.course_id,
+    c.code,
+    c.name,
+    e.student_id,
+    p.full_name,
+    p.email,
+    COUNT(s.id)::INTEGER,
+    COUNT(a.id) FILTER (WHERE a.status <> 'absent')::INTEGER,
+    COUNT(a.id) FILTER (WHERE a.status = 'late')::INTEGER,
+    COUNT(a.id) FILTER (WHERE a.status = 'excused')::INTEGER,
+    COUNT(a.id) FILTER (WHERE a.status = 'left_early')::INTEGER,
+    CASE
+      WHEN COUNT(s.id) = 0 THEN NULL
+      ELSE ROUND(100.0 * COALESCE(SUM(public.attendance_weight(a.status, c)), 0) / COUNT(s.id), 1)
+    END
+  FROM public.course_enrollments e
+  JOIN public.courses c ON c.id = e.course_id
+  JOIN public.profiles p ON p.id = e.student_id
+  LEFT JOIN public.class_sessions s
+    ON s.course_id = e.course_id
+    AND s.status IN ('open', 'closed')
+    AND (_from IS NULL OR s.starts_at >= _from)
+    AND (_to IS NULL OR s.starts_at < _to)
+  LEFT JOIN public.attendance_records a
+    ON a.session_id = s.id AND a.student_id = e.student_id
+  WHERE (_course_ids IS NULL OR e.course_id = ANY(_course_ids))
+    AND (public.is_course_staff(auth.uid(), e.course_id) OR e.student_id = auth.uid())
+  GROUP BY e.course_id, c.code, c.name, e.student_id, p.full_name, p.email
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_session_attendance_summary(
+  _course_ids UUID[] DEFAULT NULL,
+  _from TIMESTAMPTZ DEFAULT NULL,
+  _to TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+  session_id UUID,
+  course_id UUID,
+  course_code TEXT,
+  starts_at TIMESTAMPTZ,
+  enrolled_count INTEGER,
+  present_count INTEGER,
+  attendance_pct NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.course_id,
+    c.code,
+    s.starts_at,
+    enrolled.total::INTEGER,
+    attended.total::INTEGER,
+    CASE
+      WHEN enrolled.total = 0 THEN NULL
+      ELSE ROUND(100.0 * attended.weighted / enrolled.total, 1)
+    END
+  FROM public.class_sessions s
+  JOIN public.courses c ON c.id = s.course_id
+  CROSS JOIN LATERAL (
+    SELECT COUNT(*) AS total
+    FROM public.course_enrollments e
+    WHERE e.course_id = s.course_id
+  ) enrolled
+  CROSS JOIN LATERAL (
+    SELECT
+      COUNT(*) FILTER (WHERE a.status <> 'absent') AS total,
+      COALESCE(SUM(public.attendance_weight(a.status, c)), 0) AS weighted
+    FROM public.attendance_records a
+    WHERE a.session_id = s.id
+  ) attended
+  WHERE s.status IN ('open', 'closed')
+    AND (_course_ids IS NULL OR s.course_id = ANY(_course_ids))
+    AND (_from IS NULL OR s.starts_at >= _from)
+    AND (_to IS NULL OR s.starts_at < _to)
+    AND public.is_course_staff(auth.uid(), s.course_id)
+  ORDER BY s.starts_at
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_student_attendance_summary(UUID[], TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
@@ -0,0 +1,162 @@
+-- Students explain a missed session; course staff approve or deny it.
+-- Approval marks the session excused through set_attendance_status, so it is
+-- recorded in attendance_changes like any other manual change.
+CREATE TYPE public.excuse_category AS ENUM ('illness', 'family', 'religious', 'university_activity', 'other');
+CREATE TYPE public.excuse_status AS ENUM ('pending', 'approved', 'denied');
+
+CREATE TABLE public.excuse_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL REFERENCES public.class_sessions(id) ON DELETE CASCADE,
+  category excuse_category NOT NULL,
+  explanation TEXT NOT NULL CHECK (length(trim(explanation)) BETWEEN 10 AND 2000),
+  -- Object path in the private excuse-documents bucket, under the student's folder
+  attachment_path TEXT,
+  status excuse_status NOT NULL DEFAULT 'pending',
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  review_comment TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- A denied request can be followed by a new one; otherwise one per session
+CREATE UNIQUE INDEX excuse_requests_open_per_session
+  ON public.excuse_requests (student_id, session_id)
+  WHERE status <> 'denied';
+
+CREATE INDEX excuse_requests_course_pending_idx
+  ON public.excuse_requests (course_id, created_at)
+  WHERE status = 'pending';
+
+ALTER TABLE public.excuse_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students and course staff can view excuse requests"
+  ON public.excuse_requests FOR SELECT
+  USING (student_id = auth.uid() OR public.is_course_staff(auth.uid(), course_id));
+
+CREATE POLICY "Students can request excuses for their own sessions"
+  ON public.excuse_requests FOR INSERT
+  WITH CHECK (
+    student_id = auth.uid()
+    AND status = 'pending'
+    AND reviewed_by IS NULL
+    AND reviewed_at IS NULL
+    AND review_comment IS NULL
+    AND public.is_enrolled(auth.uid(), course_id)
+    AND EXISTS (
+      SELECT 1 FROM public.class_sessions s
+      WHERE s.id = session_id AND s.course_id = excuse_requests.course_id
+    )
+    AND (attachment_path IS NULL OR split_part(attachment_path, '/', 1) = auth.uid()::TEXT)
+  );
+
+CREATE POLICY "Students can withdraw pending excuse requests"
+  ON public.excuse_requests FOR DELETE
+  USING (student_id = auth.uid() AND status = 'pending');
+
+CREATE TRIGGER update_excuse_requests_updated_at
+  BEFORE UPDATE ON public.excuse_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Approve or deny a pending request. A comment is required when denying.
+-- Returns one of: ok, not_found, already_reviewed, comment_required, or a
+-- set_attendance_status code if marking the session excused failed.
+CREATE OR REPLACE FUNCTION public.review_excuse_request(
+  _request_id UUID,
+  _approve BOOLEAN,
+  _comment TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.excuse_requests;
+  _comment_text TEXT := NULLIF(trim(_comment), '');
+  _result TEXT;
+BEGIN
+  SELECT * INTO _request FROM public.excuse_requests r WHERE r.id = _request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF NOT public.is_course_staff(auth.uid(), _request.course_id) THEN
+    RAISE EXCEPTION 'Only course staff can review excuse requests' USING ERRCODE = '42501';
+  END IF;
+
+  IF _request.status <> 'pending' THEN
+    RETURN 'already_reviewed';
+  END IF;
+
+  IF NOT _approve AND _comment_text IS NULL THEN
+    RETURN 'comment_required';
+  END IF;
+
+  IF _approve THEN
+    _result := public.set_attendance_status(
+      _request.session_id,
+      _request.student_id,
+      'excused',
+      'Excuse request approved' || COALESCE(': ' || _comment_text, '')
+    );
+
+    IF _result NOT IN ('ok', 'unchanged') THEN
+      RETURN _result;
+    END IF;
+  END IF;
+
+  UPDATE public.excuse_requests
+  SET status = CASE WHEN _approve THEN 'approved'::excuse_status ELSE 'denied'::excuse_status END,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_comment = _comment_text
+  WHERE id = _request.id;
+
+  RETURN 'ok';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.review_excuse_request(UUID, BOOLEAN, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.review_excuse_request(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- Supporting documents: private bucket, one folder per student
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'excuse-documents',
+  'excuse-documents',
+  false,
+  10485760,
+  ARRAY['application/pdf', 'image/jpeg', 'image/png', 'image/heic', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Students can upload excuse documents to their folder"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'excuse-documents' AND (storage.foldername(name))[1] = auth.uid()::TEXT);
+
+CREATE POLICY "Students can delete their excuse documents"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'excuse-documents' AND (storage.foldername(name))[1] = auth.uid()::TEXT);
+
+CREATE POLICY "Students and reviewing staff can read excuse documents"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'excuse-documents'
+    AND (
+      (storage.foldername(name))[1] = auth.uid()::TEXT
+      OR EXISTS (
+        SELECT 1 FROM public.excuse_requests r
+        WHERE r.attachment_path = storage.objects.name
+          AND public.is_course_staff(auth.uid(), r.course_id)
+      )
+    )
+  );
@@ -0,0 +1,67 @@
+-- Minimum attendance a student needs to stay in good standing, per course
+ALTER TABLE public.courses
+  ADD COLUMN required_attendance_pct NUMERIC(4,1) NOT NULL DEFAULT 75
+    CHECK (required_attendance_pct BETWEEN 0 AND 100);
+
+-- Return the course's required percentage alongside each summary row so
+-- callers can flag students at risk without a second query
+DROP FUNCTION public.get_student_attendance_summary(UUID[], TIMESTAMPTZ, TIMESTAMPTZ);
+
+CREATE FUNCTION public.get_student_attendance_summary(
+  _course_ids UUID[] DEFAULT NULL,
+  _from TIMESTAMPTZ DEFAULT NULL,
+  _to TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+  course_id UUID,
+  course_code TEXT,
+  course_name TEXT,
+  student_id UUID,
+  full_name TEXT,
+  email TEXT,
+  sessions_held INTEGER,
+  sessions_attended INTEGER,
+  late_count INTEGER,
+  excused_count INTEGER,
+  left_early_count INTEGER,
+  attendance_pct NUMERIC,
+  required_attendance_pct NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    e.course_id,
+    c.code,
+    c.name,
+    e.student_id,
+    p.full_name,
+    p.email,
+    COUNT(s.id)::INTEGER,
+    COUNT(a.id) FILTER (WHERE a.status <> 'absent')::INTEGER,
+    COUNT(a.id) FILTER (WHERE a.status = 'late')::INTEGER,
+    COUNT(a.id) FILTER (WHERE a.status = 'excused')::INTEGER,
+    COUNT(a.id) FILTER (WHERE a.status = 'left_early')::INTEGER,
+    CASE
+      WHEN COUNT(s.id) = 0 THEN NULL
+      ELSE ROUND(100.0 * COALESCE(SUM(public.attendance_weight(a.status, c)), 0) / COUNT(s.id), 1)
+    END,
+    c.required_attendance_pct
+  FROM public.course_enrollments e
+  JOIN public.courses c ON c.id = e.course_id
+  JOIN public.profiles p ON p.id = e.student_id
+  LEFT JOIN public.class_sessions s
+    ON s.course_id = e.course_id
+    AND s.status IN ('open', 'closed')
+    AND (_from IS NULL OR s.starts_at >= _from)
+    AND (_to IS NULL OR s.starts_at < _to)
+  LEFT JOIN public.attendance_records a
+    ON a.session_id = s.id AND a.student_id = e.student_id
+  WHERE (_course_ids IS NULL OR e.course_id = ANY(_course_ids))
+    AND (public.is_course_staff(auth.uid(), e.course_id) OR e.student_id = auth.uid())
+  GROUP BY e.course_id, c.code, c.name, c.required_attendance_pct, e.student_id, p.full_name, p.email
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_student_attendance_summary(UUID[], TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
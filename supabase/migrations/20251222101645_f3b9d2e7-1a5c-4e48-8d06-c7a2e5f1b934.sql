@@ -0,0 +1,127 @@
+-- Weekly meeting pattern for a course. Sessions for the term are generated
+-- from it and can then be cancelled or moved one at a time.
+CREATE TABLE public.course_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id UUID NOT NULL UNIQUE REFERENCES public.courses(id) ON DELETE CASCADE,
+  -- ISO weekdays, 1 = Monday ... 7 = Sunday
+  days_of_week SMALLINT[] NOT NULL,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  -- NULL uses the course's room
+  room_id UUID REFERENCES public.rooms(id) ON DELETE SET NULL,
+  term_starts_on DATE NOT NULL,
+  term_ends_on DATE NOT NULL,
+  excluded_dates DATE[] NOT NULL DEFAULT '{}',
+  check_in_window_minutes INTEGER NOT NULL DEFAULT 15 CHECK (check_in_window_minutes BETWEEN 1 AND 480),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (cardinality(days_of_week) > 0 AND days_of_week <@ ARRAY[1, 2, 3, 4, 5, 6, 7]::SMALLINT[]),
+  CHECK (end_time > start_time),
+  CHECK (term_ends_on >= term_starts_on AND term_ends_on - term_starts_on <= 366)
+);
+
+ALTER TABLE public.course_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view course schedules"
+  ON public.course_schedules FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Course staff can create course schedules"
+  ON public.course_schedules FOR INSERT
+  WITH CHECK (public.is_course_staff(auth.uid(), course_id));
+
+CREATE POLICY "Course staff can update course schedules"
+  ON public.course_schedules FOR UPDATE
+  USING (public.is_course_staff(auth.uid(), course_id));
+
+CREATE POLICY "Course staff can delete course schedules"
+  ON public.course_schedules FOR DELETE
+  USING (public.is_course_staff(auth.uid(), course_id));
+
+CREATE TRIGGER update_course_schedules_updated_at
+  BEFORE UPDATE ON public.course_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Generated sessions remember which pattern date they stand for, so moving
+-- or cancelling one never causes it to be generated again
+ALTER TABLE public.class_sessions
+  ADD COLUMN schedule_id UUID REFERENCES public.course_schedules(id) ON DELETE SET NULL,
+  ADD COLUMN occurs_on DATE,
+  ADD COLUMN rescheduled_from TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX class_sessions_schedule_id_occurs_on_key
+  ON public.class_sessions (schedule_id, occurs_on);
+
+-- Bring a course's upcoming sessions in line with its schedule. Untouched
+-- future sessions are replaced; sessions that were opened, cancelled, moved or
+-- already have attendance are left alone. Returns the number of upcoming
+-- sessions the schedule now has.
+CREATE OR REPLACE FUNCTION public.generate_course_sessions(_course_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _schedule public.course_schedules;
+  _course public.courses;
+  _upcoming INTEGER;
+BEGIN
+  IF NOT public.is_course_staff(auth.uid(), _course_id) THEN
+    RAISE EXCEPTION 'Only course staff can generate sessions' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _course FROM public.courses WHERE id = _course_id;
+  SELECT * INTO _schedule FROM public.course_schedules WHERE course_id = _course_id;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  DELETE FROM public.class_sessions s
+  WHERE s.schedule_id = _schedule.id
+    AND s.status = 'scheduled'
+    AND s.rescheduled_from IS NULL
+    AND s.starts_at > now()
+    AND NOT EXISTS (SELECT 1 FROM public.attendance_records a WHERE a.session_id = s.id);
+
+  INSERT INTO public.class_sessions (
+    course_id, schedule_id, occurs_on, starts_at, ends_at, room, room_id,
+    check_in_opens_at, check_in_closes_at, status, created_by
+  )
+  SELECT
+    _course.id,
+    _schedule.id,
+    d.day,
+    (d.day + _schedule.start_time) AT TIME ZONE _course.timezone,
+    (d.day + _schedule.end_time) AT TIME ZONE _course.timezone,
+    r.name,
+    r.id,
+    (d.day + _schedule.start_time) AT TIME ZONE _course.timezone,
+    (d.day + _schedule.start_time) AT TIME ZONE _course.timezone
+      + make_interval(mins => _schedule.check_in_window_minutes),
+    'scheduled',
+    auth.uid()
+  FROM generate_series(_schedule.term_starts_on, _schedule.term_ends_on, INTERVAL '1 day') AS g(ts)
+  CROSS JOIN LATERAL (SELECT g.ts::DATE AS day) d
+  LEFT JOIN public.rooms r ON r.id = COALESCE(_schedule.room_id, _course.room_id)
+  WHERE EXTRACT(ISODOW FROM d.day)::SMALLINT = ANY(_schedule.days_of_week)
+    AND NOT d.day = ANY(_schedule.excluded_dates)
+    AND (d.day + _schedule.start_time) AT TIME ZONE _course.timezone > now()
+  ON CONFLICT (schedule_id, occurs_on) DO NOTHING;
+
+  SELECT COUNT(*) INTO _upcoming
+  FROM public.class_sessions s
+  WHERE s.schedule_id = _schedule.id
+    AND s.status <> 'cancelled'
+    AND s.starts_at > now();
+
+  RETURN _upcoming;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_course_sessions(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_course_sessions(UUID) TO authenticated;
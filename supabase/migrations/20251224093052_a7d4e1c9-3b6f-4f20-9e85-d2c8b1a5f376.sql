@@ -0,0 +1,144 @@
+-- Academic terms replace the free-text courses.semester / courses.year pair
+CREATE TABLE public.academic_terms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL,
+  holidays DATE[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (ends_on >= starts_on)
+);
+
+CREATE UNIQUE INDEX academic_terms_name_key ON public.academic_terms (lower(trim(name)));
+
+-- At most one term is active at a time
+CREATE UNIQUE INDEX academic_terms_single_active_idx ON public.academic_terms ((true)) WHERE is_active;
+
+ALTER TABLE public.academic_terms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view academic terms"
+  ON public.academic_terms FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can create academic terms"
+  ON public.academic_terms FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update academic terms"
+  ON public.academic_terms FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete academic terms"
+  ON public.academic_terms FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_academic_terms_updated_at
+  BEFORE UPDATE ON public.academic_terms
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.courses
+  ADD COLUMN term_id UUID REFERENCES public.academic_terms(id) ON DELETE SET NULL;
+
+CREATE INDEX courses_term_id_idx ON public.courses (term_id);
+
+COMMENT ON COLUMN public.courses.semester IS
+  'Deprecated: legacy free-text term, kept until the course is assigned an academic term';
+COMMENT ON COLUMN public.courses.year IS
+  'Deprecated: legacy term year, kept until the course is assigned an academic term';
+
+-- Make a term the active one. The others are deactivated first because the
+-- single-active index is checked row by row. Returns one of: ok, not_found.
+CREATE OR REPLACE FUNCTION public.set_active_term(_term_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change the active term' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.academic_terms WHERE id = _term_id) THEN
+    RETURN 'not_found';
+  END IF;
+
+  UPDATE public.academic_terms SET is_active = false WHERE is_active AND id <> _term_id;
+  UPDATE public.academic_terms SET is_active = true WHERE id = _term_id AND NOT is_active;
+
+  RETURN 'ok';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_active_term(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_active_term(UUID) TO authenticated;
+
+-- Migrate the free-text values we can recognise ("Fall", "fall 2025", "FA25",
+-- "Autumn", ...) into terms with typical dates. Anything else stays unassigned
+-- for an admin to sort out from the Academic Terms page.
+WITH legacy AS (
+  SELECT id, year, lower(trim(semester)) AS semester
+  FROM public.courses
+  WHERE semester IS NOT NULL AND trim(semester) <> ''
+),
+parsed AS (
+  SELECT
+    id,
+    CASE
+      WHEN semester ~ '^(fall|fa|autumn|au)' THEN 'Fall'
+      WHEN semester ~ '^(spring|sp)' THEN 'Spring'
+      WHEN semester ~ '^(summer|su)' THEN 'Summer'
+      WHEN semester ~ '^(winter|wi)' THEN 'Winter'
+    END AS season,
+    COALESCE(
+      year,
+      substring(semester FROM '(\d{4})')::INTEGER,
+      2000 + substring(semester FROM '^[a-z]+\s*(\d{2})$')::INTEGER
+    ) AS term_year
+  FROM legacy
+),
+matched AS (
+  SELECT id, season, term_year, season || ' ' || term_year AS term_name
+  FROM parsed
+  WHERE season IS NOT NULL AND term_year BETWEEN 2000 AND 2100
+),
+created AS (
+  INSERT INTO public.academic_terms (name, starts_on, ends_on)
+  SELECT DISTINCT
+    term_name,
+    CASE season
+      WHEN 'Fall' THEN make_date(term_year, 8, 25)
+      WHEN 'Spring' THEN make_date(term_year, 1, 15)
+      WHEN 'Summer' THEN make_date(term_year, 6, 1)
+      ELSE make_date(term_year, 1, 2)
+    END,
+    CASE season
+      WHEN 'Fall' THEN make_date(term_year, 12, 15)
+      WHEN 'Spring' THEN make_date(term_year, 5, 10)
+      WHEN 'Summer' THEN make_date(term_year, 8, 10)
+      ELSE make_date(term_year, 1, 31)
+    END
+  FROM matched
+  ON CONFLICT DO NOTHING
+  RETURNING id, name
+)
+UPDATE public.courses c
+SET term_id = created.id
+FROM matched
+JOIN created ON created.name = matched.term_name
+WHERE c.id = matched.id;
+
+UPDATE public.academic_terms
+SET is_active = true
+WHERE id = (
+  SELECT id
+  FROM public.academic_terms
+  WHERE current_date BETWEEN starts_on AND ends_on
+  ORDER BY starts_on DESC
+  LIMIT 1
+);
@@ -0,0 +1,122 @@
+-- Archived courses drop out of active lists but keep their history. While a
+-- course is archived its sessions, attendance and excuses are read-only.
+ALTER TABLE public.courses
+  ADD COLUMN archived_at TIMESTAMPTZ;
+
+CREATE INDEX courses_active_idx ON public.courses (professor_id) WHERE archived_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.is_course_archived(_course_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.courses WHERE id = _course_id AND archived_at IS NOT NULL
+  )
+$$;
+
+-- Rows removed by a cascading course delete pass, since the course row is
+-- already gone by the time they are checked
+CREATE OR REPLACE FUNCTION public.prevent_archived_course_writes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _course_id UUID;
+BEGIN
+  _course_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.course_id ELSE NEW.course_id END;
+
+  IF public.is_course_archived(_course_id) THEN
+    RAISE EXCEPTION 'This course is archived and its attendance is read-only.' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE TRIGGER attendance_records_archived_course
+  BEFORE INSERT OR UPDATE OR DELETE ON public.attendance_records
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_archived_course_writes();
+
+CREATE TRIGGER class_sessions_archived_course
+  BEFORE INSERT OR UPDATE OR DELETE ON public.class_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_archived_course_writes();
+
+CREATE TRIGGER excuse_requests_archived_course
+  BEFORE INSERT OR UPDATE OR DELETE ON public.excuse_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_archived_course_writes();
+
+CREATE TRIGGER course_schedules_archived_course
+  BEFORE INSERT OR UPDATE OR DELETE ON public.course_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_archived_course_writes();
+
+-- An archived course can only be restored, not edited; changing its rules
+-- would silently rewrite past attendance percentages
+CREATE OR REPLACE FUNCTION public.prevent_archived_course_edits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.archived_at IS NOT NULL AND NEW.archived_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This course is archived. Restore it before editing.' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER courses_archived_edits
+  BEFORE UPDATE ON public.courses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_archived_course_edits();
+
+-- Archive or restore a course. Archiving closes any open session and drops
+-- upcoming generated sessions nobody has touched, so nothing is left to check
+-- in to. Returns one of: ok, not_found.
+CREATE OR REPLACE FUNCTION public.set_course_archived(_course_id UUID, _archived BOOLEAN)
+RETURNS TEXT
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.courses WHERE id = _course_id) THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF NOT public.is_course_staff(auth.uid(), _course_id) THEN
+    RAISE EXCEPTION 'Only course staff can archive this course' USING ERRCODE = '42501';
+  END IF;
+
+  IF _archived AND NOT public.is_course_archived(_course_id) THEN
+    UPDATE public.class_sessions
+    SET status = 'closed', ends_at = LEAST(ends_at, now())
+    WHERE course_id = _course_id AND status = 'open';
+
+    DELETE FROM public.class_sessions s
+    WHERE s.course_id = _course_id
+      AND s.status = 'scheduled'
+      AND s.starts_at > now()
+      AND NOT EXISTS (SELECT 1 FROM public.attendance_records a WHERE a.session_id = s.id);
+
+    UPDATE public.courses SET archived_at = now() WHERE id = _course_id;
+  ELSIF NOT _archived THEN
+    UPDATE public.courses SET archived_at = NULL WHERE id = _course_id AND archived_at IS NOT NULL;
+  END IF;
+
+  RETURN 'ok';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_course_archived(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_course_archived(UUID, BOOLEAN) TO authenticated;
@@ -0,0 +1,175 @@
+-- Queued check-ins carry a client-supplied scan time, which let a photo of a
+-- rotating code be replayed for hours by backdating it. The scan time may now
+-- lag the request by at most 30 minutes, and every queued check-in is kept
+-- for staff review (identified by synced_at, like the live view already does).
+CREATE INDEX attendance_records_queued_idx
+  ON public.attendance_records (course_id, checked_in_at DESC)
+  WHERE synced_at IS NOT NULL;
+
+-- Returns one of: ok, duplicate, malformed, invalid_signature, expired, replayed,
+-- course_not_found, not_enrolled, no_open_session, out_of_range, low_accuracy,
+-- no_location, stale (scanned more than 30 minutes before it was submitted).
+-- attendance_status is late when the scan came after the course's grace period.
+CREATE OR REPLACE FUNCTION public.check_in(
+  _token TEXT,
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL,
+  _accuracy DOUBLE PRECISION DEFAULT NULL,
+  _scanned_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+  status TEXT,
+  course_id UUID,
+  course_code TEXT,
+  course_name TEXT,
+  session_id UUID,
+  record_id UUID,
+  geofence_status geofence_status,
+  distance_m NUMERIC,
+  attendance_status attendance_status
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _student_id UUID := auth.uid();
+  _token_row RECORD;
+  _course public.courses;
+  _session public.class_sessions;
+  _room_id UUID;
+  _fence RECORD;
+  _status attendance_status;
+  -- A queued check-in is judged at the moment it was scanned, never in the future
+  _at TIMESTAMPTZ := LEAST(COALESCE(_scanned_at, now()), now());
+  -- _scanned_at comes from the client, so it is only trusted this far back.
+  -- Anything older could be a photo of an expired rotating code.
+  _max_queue_lag CONSTANT INTERVAL := INTERVAL '30 minutes';
+BEGIN
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _token_row FROM public.verify_qr_token(_token, _at);
+  course_id := _token_row.course_id;
+
+  IF _at < now() - _max_queue_lag THEN
+    status := 'stale';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF _token_row.status <> 'ok' THEN
+    status := _token_row.status;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  SELECT * INTO _course FROM public.courses c WHERE c.id = _token_row.course_id;
+  course_code := _course.code;
+  course_name := _course.name;
+
+  IF NOT public.is_enrolled(_student_id, _course.id) THEN
+    status := 'not_enrolled';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  SELECT * INTO _session
+  FROM public.class_sessions s
+  WHERE s.course_id = _course.id
+    -- Live scans need an open session; queued ones may land after it was closed
+    AND (s.status = 'open' OR (_scanned_at IS NOT NULL AND s.status = 'closed'))
+    AND _at BETWEEN s.check_in_opens_at AND s.check_in_closes_at
+  ORDER BY s.starts_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    status := 'no_open_session';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  session_id := _session.id;
+
+  -- Serialise concurrent scans by the same student for the same session. The
+  -- unique indexes are the backstop; this just keeps the answer "duplicate"
+  -- rather than "replayed" when the scanner fires twice on one frame.
+  PERFORM pg_advisory_xact_lock(hashtext(_session.id::TEXT || _student_id::TEXT));
+
+  SELECT a.id, a.geofence_status, a.distance_m, a.status INTO record_id, geofence_status, distance_m, attendance_status
+  FROM public.attendance_records a
+  WHERE a.student_id = _student_id
+    AND (a.session_id = _session.id
+      OR (a.session_id IS NULL AND a.course_id = _course.id
+        AND a.attendance_date = public.course_local_date(_course.id, _at)));
+
+  IF FOUND THEN
+    status := 'duplicate';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  _room_id := COALESCE(_session.room_id, _course.room_id);
+  SELECT * INTO _fence FROM public.evaluate_geofence(_room_id, _latitude, _longitude, _accuracy);
+  geofence_status := _fence.status;
+  distance_m := round(_fence.distance_m::NUMERIC, 2);
+
+  IF _fence.mode = 'reject' AND _fence.status <> 'inside' THEN
+    status := CASE _fence.status WHEN 'outside' THEN 'out_of_range' ELSE _fence.status::TEXT END;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- Rotating tokens are single-use per student; consumed only on success
+  IF _token_row.rotating THEN
+    INSERT INTO public.qr_token_redemptions (nonce, student_id, course_id, expires_at)
+    VALUES (_token_row.nonce, _student_id, _course.id, _token_row.expires_at)
+    ON CONFLICT DO NOTHING;
+
+    IF NOT FOUND THEN
+      status := 'replayed';
+      RETURN NEXT;
+      RETURN;
+    END IF;
+  END IF;
+
+  -- Late once the course's grace period after the session start has passed
+  _status := CASE
+    WHEN _at > _session.starts_at + make_interval(mins => _course.late_grace_minutes) THEN 'late'
+    ELSE 'present'
+  END;
+
+  INSERT INTO public.attendance_records (
+    student_id, course_id, session_id, checked_in_at, synced_at,
+    latitude, longitude, location_accuracy,
+    room_id, geofence_status, distance_m, status
+  )
+  VALUES (
+    _student_id, _course.id, _session.id, _at, CASE WHEN _scanned_at IS NOT NULL THEN now() END,
+    _latitude, _longitude, _accuracy,
+    _room_id, _fence.status, round(_fence.distance_m::NUMERIC, 2), _status
+  )
+  ON CONFLICT DO NOTHING
+  RETURNING id INTO record_id;
+
+  -- Lost a race with another insert for this session: return that record
+  IF record_id IS NULL THEN
+    SELECT a.id, a.geofence_status, a.distance_m, a.status INTO record_id, geofence_status, distance_m, attendance_status
+    FROM public.attendance_records a
+    WHERE a.session_id = _session.id AND a.student_id = _student_id;
+
+    status := 'duplicate';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  attendance_status := _status;
+  status := 'ok';
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_in(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMPTZ) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.check_in(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMPTZ) TO authenticated;
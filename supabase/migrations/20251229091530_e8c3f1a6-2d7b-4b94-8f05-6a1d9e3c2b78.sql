@@ -0,0 +1,49 @@
+-- The course id check accepted any 36 characters of hex digits and hyphens,
+-- so input like 36 hyphens passed it and then failed the UUID cast, making
+-- check_in raise instead of answering "malformed". Match the UUID layout.
+
+-- Parse and verify a scanned token as of _at without consuming it.
+-- Returns one of: ok, malformed, invalid_signature, expired, course_not_found
+CREATE OR REPLACE FUNCTION public.verify_qr_token(_token TEXT, _at TIMESTAMPTZ DEFAULT now())
+RETURNS TABLE (status TEXT, course_id UUID, nonce TEXT, rotating BOOLEAN, expires_at TIMESTAMPTZ)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _parts TEXT[] := string_to_array(trim(_token), '.');
+  _course_id UUID;
+BEGIN
+  IF _parts IS NULL
+    OR array_length(_parts, 1) <> 6
+    OR _parts[1] <> 'AT1'
+    OR _parts[3] NOT IN ('r', 's')
+    OR _parts[2] !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    OR _parts[4] !~ '^[0-9]{1,12}$'
+  THEN
+    RETURN QUERY SELECT 'malformed'::TEXT, NULL::UUID, NULL::TEXT, NULL::BOOLEAN, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  _course_id := _parts[2]::UUID;
+  course_id := _course_id;
+  nonce := _parts[5];
+  rotating := _parts[3] = 'r';
+  expires_at := to_timestamp(_parts[4]::BIGINT);
+
+  IF NOT EXISTS (SELECT 1 FROM public.courses c WHERE c.id = _course_id) THEN
+    status := 'course_not_found';
+  ELSIF public.sign_qr_payload(_course_id, array_to_string(_parts[1:5], '.')) <> _parts[6] THEN
+    status := 'invalid_signature';
+  ELSIF expires_at < _at THEN
+    status := 'expired';
+  ELSE
+    status := 'ok';
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_qr_token(TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
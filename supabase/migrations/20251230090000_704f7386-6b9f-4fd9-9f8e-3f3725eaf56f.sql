@@ -0,0 +1,12 @@
+-- The original policy let any professor read every course's attendance,
+-- locations included, and Realtime streams whatever it allows. Narrow it to
+-- the student and the course's staff.
+DROP POLICY "Students can view own attendance" ON public.attendance_records;
+
+CREATE POLICY "Students and course staff can view attendance"
+  ON public.attendance_records FOR SELECT
+  USING (
+    student_id = auth.uid()
+    OR public.is_course_staff(auth.uid(), course_id)
+    OR public.has_role(auth.uid(), 'admin')
+  );
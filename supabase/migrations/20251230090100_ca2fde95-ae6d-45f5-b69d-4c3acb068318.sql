@@ -0,0 +1,51 @@
+-- The legacy semester backfill only anchored the season at the start, so
+-- values like "Special topics", "August" or "Winter-ish" were put into a term.
+-- The whole value must be a season, an optional "semester"/"term" and an
+-- optional year. Courses the loose match assigned, and the strict one would
+-- not, go back to unassigned for an admin to sort out. A course an admin has
+-- since moved to another term is left alone. Archived courses are fixed too,
+-- so their edit guard is lifted for this statement.
+ALTER TABLE public.courses DISABLE TRIGGER courses_archived_edits;
+
+WITH legacy AS (
+  SELECT c.id, c.year, lower(trim(c.semester)) AS semester, t.name AS term_name
+  FROM public.courses c
+  JOIN public.academic_terms t ON t.id = c.term_id
+  WHERE c.semester IS NOT NULL AND trim(c.semester) <> ''
+),
+parsed AS (
+  SELECT
+    id,
+    term_name,
+    CASE
+      WHEN semester ~ '^(fall|fa|autumn|au)' THEN 'Fall'
+      WHEN semester ~ '^(spring|sp)' THEN 'Spring'
+      WHEN semester ~ '^(summer|su)' THEN 'Summer'
+      WHEN semester ~ '^(winter|wi)' THEN 'Winter'
+    END || ' ' || COALESCE(
+      year,
+      substring(semester FROM '(\d{4})')::INTEGER,
+      2000 + substring(semester FROM '^[a-z]+\s*(\d{2})$')::INTEGER
+    ) AS loose_name,
+    CASE
+      WHEN semester ~ ('^(fall|fa|autumn|au)' || _suffix) THEN 'Fall'
+      WHEN semester ~ ('^(spring|sp)' || _suffix) THEN 'Spring'
+      WHEN semester ~ ('^(summer|su)' || _suffix) THEN 'Summer'
+      WHEN semester ~ ('^(winter|wi)' || _suffix) THEN 'Winter'
+    END || ' ' || COALESCE(
+      year,
+      substring(semester FROM '(\d{4})$')::INTEGER,
+      2000 + substring(semester FROM '^\D+(\d{2})$')::INTEGER
+    ) AS strict_name
+  FROM legacy
+  -- Optional "semester"/"term", then an optional 2- or 4-digit year
+  CROSS JOIN (SELECT '(\s*(semester|term))?[\s''/-]*(\d{2}|\d{4})?$' AS _suffix) pattern
+)
+UPDATE public.courses c
+SET term_id = NULL
+FROM parsed
+WHERE c.id = parsed.id
+  AND parsed.term_name = parsed.loose_name
+  AND parsed.strict_name IS DISTINCT FROM parsed.loose_name;
+
+ALTER TABLE public.courses ENABLE TRIGGER courses_archived_edits;
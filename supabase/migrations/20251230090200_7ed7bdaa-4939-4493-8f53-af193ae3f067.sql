@@ -0,0 +1,186 @@
+-- Rosters of archived courses become read-only like the rest of their
+-- history, and archiving no longer cuts short a session that was opened early.
+CREATE TRIGGER course_enrollments_archived_course
+  BEFORE INSERT OR UPDATE OR DELETE ON public.course_enrollments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_archived_course_writes();
+
+-- Signup accepts pending invitations, which would now raise for an archived
+-- course and abort the signup with it
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _requested TEXT := NEW.raw_user_meta_data->>'requested_role';
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', '')
+  );
+
+  -- Elevated roles stay pending until an admin approves; everyone else is a student
+  IF _requested IN ('professor', 'admin') THEN
+    INSERT INTO public.role_requests (user_id, requested_role)
+    VALUES (NEW.id, _requested::app_role);
+  ELSE
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, 'student');
+  END IF;
+
+  -- Invitations to archived courses stay pending rather than failing signup
+  INSERT INTO public.course_enrollments (course_id, student_id, enrolled_by, student_number, section)
+  SELECT course_id, NEW.id, invited_by, student_number, section
+  FROM public.course_invitations
+  WHERE email = lower(NEW.email) AND accepted_at IS NULL AND NOT public.is_course_archived(course_id)
+  ON CONFLICT (course_id, student_id) DO NOTHING;
+
+  UPDATE public.course_invitations
+  SET accepted_at = now()
+  WHERE email = lower(NEW.email) AND accepted_at IS NULL AND NOT public.is_course_archived(course_id);
+
+  RETURN NEW;
+END;
+$$;
+
+-- Adds a status so an import into an archived course is answered rather than
+-- raised, which changes the return type. Returns one of: ok, archived.
+DROP FUNCTION public.apply_roster_import(UUID, JSONB, BOOLEAN);
+
+CREATE FUNCTION public.apply_roster_import(
+  _course_id UUID,
+  _rows JSONB,
+  _remove_missing BOOLEAN DEFAULT true
+)
+RETURNS TABLE (status TEXT, added INTEGER, invited INTEGER, removed INTEGER, unchanged INTEGER)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _row RECORD;
+  _student_id UUID;
+  _emails TEXT[] := '{}';
+  _added INTEGER := 0;
+  _invited INTEGER := 0;
+  _removed INTEGER := 0;
+  _unchanged INTEGER := 0;
+BEGIN
+  IF NOT public.is_course_staff(auth.uid(), _course_id) THEN
+    RAISE EXCEPTION 'Not allowed to manage this roster' USING ERRCODE = '42501';
+  END IF;
+
+  IF public.is_course_archived(_course_id) THEN
+    RETURN QUERY SELECT 'archived'::TEXT, 0, 0, 0, 0;
+    RETURN;
+  END IF;
+
+  FOR _row IN
+    SELECT DISTINCT ON (lower(trim(r.email)))
+      lower(trim(r.email)) AS email,
+      nullif(trim(r.full_name), '') AS full_name,
+      nullif(trim(r.student_number), '') AS student_number,
+      nullif(trim(r.section), '') AS section
+    FROM jsonb_to_recordset(_rows) AS r(email TEXT, full_name TEXT, student_number TEXT, section TEXT)
+    WHERE r.email ~* '^[^@\s]+@[^@\s]+\.[^@\s]+$'
+  LOOP
+    _emails := _emails || _row.email;
+
+    SELECT id INTO _student_id
+    FROM public.profiles
+    WHERE lower(email) = _row.email;
+
+    IF _student_id IS NULL THEN
+      INSERT INTO public.course_invitations (course_id, email, full_name, student_number, section, invited_by)
+      VALUES (_course_id, _row.email, _row.full_name, _row.student_number, _row.section, auth.uid())
+      ON CONFLICT (course_id, email) DO UPDATE
+        SET full_name = EXCLUDED.full_name,
+            student_number = EXCLUDED.student_number,
+            section = EXCLUDED.section;
+      _invited := _invited + 1;
+    ELSE
+      INSERT INTO public.course_enrollments (course_id, student_id, enrolled_by, student_number, section)
+      VALUES (_course_id, _student_id, auth.uid(), _row.student_number, _row.section)
+      ON CONFLICT (course_id, student_id) DO NOTHING;
+
+      IF FOUND THEN
+        _added := _added + 1;
+      ELSE
+        UPDATE public.course_enrollments
+        SET student_number = COALESCE(_row.student_number, student_number),
+            section = COALESCE(_row.section, section)
+        WHERE course_id = _course_id AND student_id = _student_id;
+        _unchanged := _unchanged + 1;
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF _remove_missing THEN
+    DELETE FROM public.course_enrollments e
+    USING public.profiles p
+    WHERE e.course_id = _course_id
+      AND p.id = e.student_id
+      AND NOT (lower(p.email) = ANY(_emails));
+    GET DIAGNOSTICS _removed = ROW_COUNT;
+
+    DELETE FROM public.course_invitations
+    WHERE course_id = _course_id
+      AND accepted_at IS NULL
+      AND NOT (email = ANY(_emails));
+  END IF;
+
+  RETURN QUERY SELECT 'ok'::TEXT, _added, _invited, _removed, _unchanged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_roster_import(UUID, JSONB, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.apply_roster_import(UUID, JSONB, BOOLEAN) TO authenticated;
+
+-- Closed the way the dashboard closes a session: only the check-in window is
+-- cut short. ends_at stays, since a session opened early may not have reached
+-- its start yet, and cutting it would leave it ending before it starts.
+-- Returns one of: ok, not_found.
+CREATE OR REPLACE FUNCTION public.set_course_archived(_course_id UUID, _archived BOOLEAN)
+RETURNS TEXT
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.courses WHERE id = _course_id) THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF NOT public.is_course_staff(auth.uid(), _course_id) THEN
+    RAISE EXCEPTION 'Only course staff can archive this course' USING ERRCODE = '42501';
+  END IF;
+
+  IF _archived AND NOT public.is_course_archived(_course_id) THEN
+    UPDATE public.class_sessions
+    SET status = 'closed',
+        check_in_closes_at = GREATEST(LEAST(check_in_closes_at, now()), check_in_opens_at + INTERVAL '1 second')
+    WHERE course_id = _course_id AND status = 'open';
+
+    DELETE FROM public.class_sessions s
+    WHERE s.course_id = _course_id
+      AND s.status = 'scheduled'
+      AND s.starts_at > now()
+      AND NOT EXISTS (SELECT 1 FROM public.attendance_records a WHERE a.session_id = s.id);
+
+    UPDATE public.courses SET archived_at = now() WHERE id = _course_id;
+  ELSIF NOT _archived THEN
+    UPDATE public.courses SET archived_at = NULL WHERE id = _course_id AND archived_at IS NOT NULL;
+  END IF;
+
+  RETURN 'ok';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_course_archived(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_course_archived(UUID, BOOLEAN) TO authenticated;
@@ -0,0 +1,34 @@
+-- The archived-course guard also fired for writes made by foreign key actions,
+-- so deleting a user or room that an archived course's rows point to raised
+-- (student_id cascades, room_id/created_by/edited_by/... are set to NULL).
+-- Those run one trigger level down and are let through; only direct writes
+-- are blocked. Rows removed by a cascading course delete still pass, since the
+-- course row is already gone by the time they are checked.
+CREATE OR REPLACE FUNCTION public.prevent_archived_course_writes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _course_id UUID;
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  END IF;
+
+  _course_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.course_id ELSE NEW.course_id END;
+
+  IF public.is_course_archived(_course_id) THEN
+    RAISE EXCEPTION 'This course is archived and its attendance is read-only.' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+-- Pending invitations are part of the roster too
+CREATE TRIGGER course_invitations_archived_course
+  BEFORE INSERT OR UPDATE OR DELETE ON public.course_invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_archived_course_writes();
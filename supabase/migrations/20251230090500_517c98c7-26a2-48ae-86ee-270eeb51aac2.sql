@@ -0,0 +1,4 @@
+-- verify_qr_token calls sign_qr_payload, which is volatile and creates the
+-- course's signing secret on first use. A STABLE function must not write, and
+-- the planner may reuse its result, so mark it VOLATILE like its callee.
+ALTER FUNCTION public.verify_qr_token(TEXT, TIMESTAMPTZ) VOLATILE;
@@ -0,0 +1,56 @@
+-- The attended count included records of students who have since dropped
+-- the course (or were never on its roster), while enrolled_count only counts
+-- the current roster, so attendance_pct could pass 100%. Count current
+-- students on both sides.
+CREATE OR REPLACE FUNCTION public.get_session_attendance_summary(
+  _course_ids UUID[] DEFAULT NULL,
+  _from TIMESTAMPTZ DEFAULT NULL,
+  _to TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+  session_id UUID,
+  course_id UUID,
+  course_code TEXT,
+  starts_at TIMESTAMPTZ,
+  enrolled_count INTEGER,
+  present_count INTEGER,
+  attendance_pct NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.course_id,
+    c.code,
+    s.starts_at,
+    enrolled.total::INTEGER,
+    attended.total::INTEGER,
+    CASE
+      WHEN enrolled.total = 0 THEN NULL
+      ELSE ROUND(100.0 * attended.weighted / enrolled.total, 1)
+    END
+  FROM public.class_sessions s
+  JOIN public.courses c ON c.id = s.course_id
+  CROSS JOIN LATERAL (
+    SELECT COUNT(*) AS total
+    FROM public.course_enrollments e
+    WHERE e.course_id = s.course_id
+  ) enrolled
+  CROSS JOIN LATERAL (
+    SELECT
+      COUNT(*) FILTER (WHERE a.status <> 'absent') AS total,
+      COALESCE(SUM(public.attendance_weight(a.status, c)), 0) AS weighted
+    FROM public.attendance_records a
+    JOIN public.course_enrollments e ON e.course_id = a.course_id AND e.student_id = a.student_id
+    WHERE a.session_id = s.id
+  ) attended
+  WHERE s.status IN ('open', 'closed')
+    AND (_course_ids IS NULL OR s.course_id = ANY(_course_ids))
+    AND (_from IS NULL OR s.starts_at >= _from)
+    AND (_to IS NULL OR s.starts_at < _to)
+    AND public.is_course_staff(auth.uid(), s.course_id)
+  ORDER BY s.starts_at
+$$;
@@ -0,0 +1,74 @@
+-- The timezone CHECK read pg_timezone_names, which is not immutable, so a dump
+-- could fail to restore. Validate in a trigger instead.
+ALTER TABLE public.courses DROP CONSTRAINT courses_timezone_valid;
+
+CREATE OR REPLACE FUNCTION public.validate_course_timezone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_valid_timezone(NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown timezone "%". Use a name like Europe/London.', NEW.timezone USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER courses_validate_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON public.courses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_course_timezone();
+
+-- attendance_date is the check-in's calendar day in the course's timezone, so
+-- it has to follow a timezone change
+CREATE OR REPLACE FUNCTION public.recompute_attendance_dates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.attendance_records a
+  SET attendance_date = (a.checked_in_at AT TIME ZONE NEW.timezone)::DATE
+  WHERE a.course_id = NEW.id;
+
+  RETURN NULL;
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE EXCEPTION 'Changing the timezone would put two of a student''s check-ins on the same day.'
+      USING ERRCODE = '23505';
+END;
+$$;
+
+CREATE TRIGGER courses_recompute_attendance_dates
+  AFTER UPDATE OF timezone ON public.courses
+  FOR EACH ROW
+  WHEN (OLD.timezone IS DISTINCT FROM NEW.timezone)
+  EXECUTE FUNCTION public.recompute_attendance_dates();
+
+-- Courses whose timezone changed before this migration. A day that would
+-- collide with another session-less check-in keeps its old date. Archived
+-- courses are included, so their write guard is lifted for this statement.
+ALTER TABLE public.attendance_records DISABLE TRIGGER attendance_records_archived_course;
+
+UPDATE public.attendance_records a
+SET attendance_date = (a.checked_in_at AT TIME ZONE c.timezone)::DATE
+FROM public.courses c
+WHERE c.id = a.course_id
+  AND a.attendance_date <> (a.checked_in_at AT TIME ZONE c.timezone)::DATE
+  AND NOT (
+    a.session_id IS NULL
+    AND EXISTS (
+      SELECT 1
+      FROM public.attendance_records d
+      WHERE d.session_id IS NULL
+        AND d.student_id = a.student_id
+        AND d.course_id = a.course_id
+        AND d.attendance_date = (a.checked_in_at AT TIME ZONE c.timezone)::DATE
+        AND d.id <> a.id
+    )
+  );
+
+ALTER TABLE public.attendance_records ENABLE TRIGGER attendance_records_archived_course;
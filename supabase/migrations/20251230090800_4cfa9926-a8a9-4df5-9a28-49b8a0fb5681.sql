@@ -0,0 +1,92 @@
+-- Dropping the self-assign policy stopped new self-granted roles but left the
+-- ones already taken through it. Every professor or admin role without an
+-- approved request gets a pending request, so it shows up in the admin queue
+-- for review. The roles are not revoked outright: the first admin is seeded
+-- without a request and would be locked out.
+--
+-- The same rows, for checking by hand:
+--   SELECT r.user_id, p.email, r.role, r.created_at
+--   FROM public.user_roles r
+--   LEFT JOIN public.profiles p ON p.id = r.user_id
+--   WHERE r.role IN ('professor', 'admin')
+--     AND NOT EXISTS (
+--       SELECT 1 FROM public.role_requests q
+--       WHERE q.user_id = r.user_id AND q.requested_role = r.role AND q.status = 'approved'
+--     );
+INSERT INTO public.role_requests (user_id, requested_role, created_at)
+SELECT DISTINCT ON (r.user_id) r.user_id, r.role, r.created_at
+FROM public.user_roles r
+JOIN public.profiles p ON p.id = r.user_id
+WHERE r.role IN ('professor', 'admin')
+  AND NOT EXISTS (
+    SELECT 1 FROM public.role_requests q
+    WHERE q.user_id = r.user_id AND q.requested_role = r.role AND q.status = 'approved'
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM public.role_requests q
+    WHERE q.user_id = r.user_id AND q.status = 'pending'
+  )
+-- One pending request per user; admin is reviewed first when someone has both
+ORDER BY r.user_id, r.role = 'admin' DESC;
+
+-- Approve or reject a pending request. Approval grants the requested role;
+-- rejection takes it away if the user already had it, and falls back to the
+-- student role so the account stays usable.
+CREATE OR REPLACE FUNCTION public.review_role_request(
+  _request_id UUID,
+  _approve BOOLEAN,
+  _note TEXT DEFAULT NULL
+)
+RETURNS public.role_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.role_requests;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can review role requests' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _request
+  FROM public.role_requests
+  WHERE id = _request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Role request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Role request has already been reviewed';
+  END IF;
+
+  -- The backfill above files requests for existing admins too
+  IF _request.user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Another admin has to review your own role request' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (_request.user_id, CASE WHEN _approve THEN _request.requested_role ELSE 'student'::app_role END)
+  ON CONFLICT (user_id, role) DO NOTHING;
+
+  IF NOT _approve THEN
+    DELETE FROM public.user_roles
+    WHERE user_id = _request.user_id AND role = _request.requested_role;
+  END IF;
+
+  UPDATE public.role_requests
+  SET status = CASE WHEN _approve THEN 'approved'::role_request_status ELSE 'rejected'::role_request_status END,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_note = NULLIF(trim(_note), '')
+  WHERE id = _request_id
+  RETURNING * INTO _request;
+
+  RETURN _request;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.review_role_request(UUID, BOOLEAN, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.review_role_request(UUID, BOOLEAN, TEXT) TO authenticated;
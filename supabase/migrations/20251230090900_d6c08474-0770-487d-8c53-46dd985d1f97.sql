@@ -0,0 +1,98 @@
+-- An email belonging to a professor or admin account was enrolled as a
+-- student. Only accounts with the student role are enrolled; the rest are
+-- reported as skipped, which adds a column to the result. status is one of:
+-- ok, archived.
+DROP FUNCTION public.apply_roster_import(UUID, JSONB, BOOLEAN);
+
+CREATE FUNCTION public.apply_roster_import(
+  _course_id UUID,
+  _rows JSONB,
+  _remove_missing BOOLEAN DEFAULT true
+)
+RETURNS TABLE (status TEXT, added INTEGER, invited INTEGER, removed INTEGER, unchanged INTEGER, skipped INTEGER)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _row RECORD;
+  _student_id UUID;
+  _emails TEXT[] := '{}';
+  _added INTEGER := 0;
+  _invited INTEGER := 0;
+  _removed INTEGER := 0;
+  _unchanged INTEGER := 0;
+  _skipped INTEGER := 0;
+BEGIN
+  IF NOT public.is_course_staff(auth.uid(), _course_id) THEN
+    RAISE EXCEPTION 'Not allowed to manage this roster' USING ERRCODE = '42501';
+  END IF;
+
+  IF public.is_course_archived(_course_id) THEN
+    RETURN QUERY SELECT 'archived'::TEXT, 0, 0, 0, 0, 0;
+    RETURN;
+  END IF;
+
+  FOR _row IN
+    SELECT DISTINCT ON (lower(trim(r.email)))
+      lower(trim(r.email)) AS email,
+      nullif(trim(r.full_name), '') AS full_name,
+      nullif(trim(r.student_number), '') AS student_number,
+      nullif(trim(r.section), '') AS section
+    FROM jsonb_to_recordset(_rows) AS r(email TEXT, full_name TEXT, student_number TEXT, section TEXT)
+    WHERE r.email ~* '^[^@\s]+@[^@\s]+\.[^@\s]+$'
+  LOOP
+    _emails := _emails || _row.email;
+
+    SELECT id INTO _student_id
+    FROM public.profiles
+    WHERE lower(email) = _row.email;
+
+    IF _student_id IS NOT NULL AND NOT public.has_role(_student_id, 'student') THEN
+      _skipped := _skipped + 1;
+    ELSIF _student_id IS NULL THEN
+      INSERT INTO public.course_invitations (course_id, email, full_name, student_number, section, invited_by)
+      VALUES (_course_id, _row.email, _row.full_name, _row.student_number, _row.section, auth.uid())
+      ON CONFLICT (course_id, email) DO UPDATE
+        SET full_name = EXCLUDED.full_name,
+            student_number = EXCLUDED.student_number,
+            section = EXCLUDED.section;
+      _invited := _invited + 1;
+    ELSE
+      INSERT INTO public.course_enrollments (course_id, student_id, enrolled_by, student_number, section)
+      VALUES (_course_id, _student_id, auth.uid(), _row.student_number, _row.section)
+      ON CONFLICT (course_id, student_id) DO NOTHING;
+
+      IF FOUND THEN
+        _added := _added + 1;
+      ELSE
+        UPDATE public.course_enrollments
+        SET student_number = COALESCE(_row.student_number, student_number),
+            section = COALESCE(_row.section, section)
+        WHERE course_id = _course_id AND student_id = _student_id;
+        _unchanged := _unchanged + 1;
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF _remove_missing THEN
+    DELETE FROM public.course_enrollments e
+    USING public.profiles p
+    WHERE e.course_id = _course_id
+      AND p.id = e.student_id
+      AND NOT (lower(p.email) = ANY(_emails));
+    GET DIAGNOSTICS _removed = ROW_COUNT;
+
+    DELETE FROM public.course_invitations
+    WHERE course_id = _course_id
+      AND accepted_at IS NULL
+      AND NOT (email = ANY(_emails));
+  END IF;
+
+  RETURN QUERY SELECT 'ok'::TEXT, _added, _invited, _removed, _unchanged, _skipped;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_roster_import(UUID, JSONB, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.apply_roster_import(UUID, JSONB, BOOLEAN) TO authenticated;
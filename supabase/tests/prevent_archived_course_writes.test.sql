@@ -0,0 +1,48 @@
+-- Run with `supabase test db`
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(3);
+
+INSERT INTO auth.users (id, email)
+VALUES
+  ('00000000-0000-4000-a000-000000000001', 'professor@example.com'),
+  ('00000000-0000-4000-a000-000000000002', 'student@example.com');
+
+INSERT INTO public.courses (id, name, code, professor_id)
+VALUES ('00000000-0000-4000-b000-000000000001', 'Archiving', 'ARC101', '00000000-0000-4000-a000-000000000001');
+
+INSERT INTO public.course_enrollments (course_id, student_id, enrolled_by)
+VALUES (
+  '00000000-0000-4000-b000-000000000001',
+  '00000000-0000-4000-a000-000000000002',
+  '00000000-0000-4000-a000-000000000001'
+);
+
+INSERT INTO public.course_invitations (course_id, email, invited_by)
+VALUES ('00000000-0000-4000-b000-000000000001', 'pending@example.com', '00000000-0000-4000-a000-000000000001');
+
+UPDATE public.courses SET archived_at = now() WHERE id = '00000000-0000-4000-b000-000000000001';
+
+SELECT throws_ok(
+  $$DELETE FROM public.course_invitations WHERE course_id = '00000000-0000-4000-b000-000000000001'$$,
+  '42501',
+  NULL,
+  'invitations to an archived course cannot be cancelled'
+);
+
+SELECT lives_ok(
+  $$DELETE FROM auth.users WHERE id = '00000000-0000-4000-a000-000000000002'$$,
+  'a student enrolled in an archived course can still be deleted'
+);
+
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.course_enrollments WHERE course_id = '00000000-0000-4000-b000-000000000001'),
+  0,
+  'the deleted student''s enrollment cascades away'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
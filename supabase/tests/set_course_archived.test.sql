@@ -0,0 +1,59 @@
+-- Run with `supabase test db`
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(3);
+
+INSERT INTO auth.users (id, email)
+VALUES ('00000000-0000-4000-a000-000000000001', 'professor@example.com');
+
+INSERT INTO public.user_roles (user_id, role)
+VALUES ('00000000-0000-4000-a000-000000000001', 'professor');
+
+INSERT INTO public.courses (id, name, code, professor_id)
+VALUES ('00000000-0000-4000-b000-000000000001', 'Archiving', 'ARC101', '00000000-0000-4000-a000-000000000001');
+
+-- A scheduled session opened 20 minutes before it starts
+INSERT INTO public.class_sessions (id, course_id, starts_at, ends_at, check_in_opens_at, check_in_closes_at, status)
+VALUES (
+  '00000000-0000-4000-c000-000000000001',
+  '00000000-0000-4000-b000-000000000001',
+  now() + INTERVAL '20 minutes',
+  now() + INTERVAL '95 minutes',
+  now() - INTERVAL '1 minute',
+  now() + INTERVAL '35 minutes',
+  'open'
+);
+
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "00000000-0000-4000-a000-000000000001", "role": "authenticated"}',
+  true
+);
+SET LOCAL ROLE authenticated;
+
+SELECT is(
+  public.set_course_archived('00000000-0000-4000-b000-000000000001', true),
+  'ok',
+  'a course whose session was opened early can be archived'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT status::TEXT FROM public.class_sessions WHERE id = '00000000-0000-4000-c000-000000000001'),
+  'closed',
+  'the early-opened session is closed'
+);
+
+SELECT ok(
+  (SELECT check_in_closes_at <= now() AND ends_at > starts_at
+   FROM public.class_sessions
+   WHERE id = '00000000-0000-4000-c000-000000000001'),
+  'check-in is cut off and the session keeps its scheduled end'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
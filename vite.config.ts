@@ -1,8 +1,52 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import fs from "fs";
+import { createHash } from "crypto";
 import { componentTagger } from "lovable-tagger";
 
+// Paths under dir, relative to it, depth first
+function listFiles(dir: string, prefix = ""): string[] {
+  return fs
+    .readdirSync(path.join(dir, prefix), { withFileTypes: true })
+    .flatMap((entry) => {
+      const relative = path.posix.join(prefix, entry.name);
+      return entry.isDirectory() ? listFiles(dir, relative) : [relative];
+    })
+    .sort();
+}
+
+// Emits src/service-worker.js as /sw.js with this build's files as the
+// precache list. The version is derived from the hashed file names and the
+// contents of public/ (manifest, icons), which Vite copies without hashing, so
+// a new deploy changes the worker and installed clients get the update prompt.
+function serviceWorker(): Plugin {
+  return {
+    name: "attendtrack-service-worker",
+    apply: "build",
+    enforce: "post",
+    generateBundle(_options, bundle) {
+      const files = Object.keys(bundle)
+        .filter((fileName) => !fileName.endsWith(".map"))
+        .sort();
+      const precache = [...files.map((fileName) => `/${fileName}`), "/manifest.webmanifest", "/icons/icon-192.png"];
+      const hash = createHash("sha256").update(files.join("\n"));
+      const publicDir = path.resolve(__dirname, "public");
+      for (const fileName of listFiles(publicDir)) {
+        hash.update(`\n${fileName}\n`).update(fs.readFileSync(path.join(publicDir, fileName)));
+      }
+      const version = hash.digest("hex").slice(0, 12);
+
+      const source = fs
+        .readFileSync(path.resolve(__dirname, "src/service-worker.js"), "utf8")
+        .replace("self.__PRECACHE_MANIFEST", JSON.stringify(precache))
+        .replace("__BUILD_VERSION__", version);
+
+      this.emitFile({ type: "asset", fileName: "sw.js", source });
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -10,7 +54,7 @@ export default defineConfig(({ mode }) => ({
     port: 8080,
     strictPort: false,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [react(), mode === "development" && componentTagger(), serviceWorker()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),